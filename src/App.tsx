@@ -13,6 +13,10 @@ import {
   Menu,
   X,
   DollarSign,
+  PiggyBank,
+  Landmark,
+  Gift,
+  Plane,
   Loader2
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
@@ -24,17 +28,26 @@ import SummaryView from './components/SummaryView';
 import HolerithView from './components/HolerithView';
 import CardListView from './components/CardListView';
 import DashboardView from './components/DashboardView';
-import type { Settings } from './lib/calculations';
+import HourBankView from './components/HourBankView';
+import FgtsView from './components/FgtsView';
+import ThirteenthSalaryView from './components/ThirteenthSalaryView';
+import VacationView from './components/VacationView';
+import { buildPriorOvertimeLimitUsage, resolveEffectiveCalculationConfig, type Settings } from './lib/calculations';
 import type { TimeEntry } from './services/aiService';
 import { cn } from './lib/utils';
+import { buildHourBankLedger, resolveHourBankExpiryMonths, type HourBankMovement } from './lib/hourBank';
+import type { FgtsCompetencia } from './lib/fgts';
+import { calcularHoleriteDaCompetencia, type HoleriteCompetencia } from './lib/payroll';
+import { marcarDiasFerias } from './lib/vacation';
 import { apiFetch, clearStoredAuthToken, isApiUnavailableInCurrentHost, setStoredAuthToken } from './lib/api';
 import { getSupabaseAuthRedirectBaseUrl, getSupabasePasswordResetRedirectUrl, isSupabaseConfigured, isSupabasePasswordRecoveryMode, supabase } from './lib/supabase';
-import { clearReferences, deleteReference, getReference, getSettings, listHoleriths, saveReference, saveSettings as saveSupabaseSettings } from './lib/supabaseData';
+import { clearReferences, deleteReference, getReference, getSettings, listHoleriths, listHourBankMovements, saveReference, saveReferenceFgts, saveSettings as saveSupabaseSettings } from './lib/supabaseData';
 import { parseISO, isValid, format as formatDate } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
-type View = 'dashboard' | 'resumo' | 'holerith' | 'card' | 'card-list' | 'upload' | 'settings';
+type View = 'dashboard' | 'resumo' | 'holerith' | 'banco-horas' | 'fgts' | 'decimo-terceiro' | 'ferias' | 'card' | 'card-list' | 'upload' | 'settings';
 type CardSaveMode = 'merge' | 'replace';
+type ApuracaoCompetencia = { competencia: string; entries: TimeEntry[]; apuracao: HoleriteCompetencia | null };
 type AuthMode = 'login' | 'register' | 'forgot' | 'reset';
 type AuthUser = {
   id: string;
@@ -51,6 +64,14 @@ type ForgotPasswordResponse = {
 
 const AUTH_USER_STORAGE_KEY = 'smart_point_auth_user';
 
+function toFgtsCompetencias(apuracoes: ApuracaoCompetencia[]): FgtsCompetencia[] {
+  return apuracoes.flatMap(({ competencia, apuracao }) => {
+    if (!apuracao) return [];
+    const { valores } = apuracao.payroll;
+    return [{ competencia, base: valores.fgtsBase, aliquota: valores.fgtsAliquota, valor: valores.fgts }];
+  });
+}
+
 function loadStoredAuthUser(): AuthUser | null {
   if (typeof window === 'undefined') return null;
   const parseRaw = (raw: string | null): AuthUser | null => {
@@ -95,7 +116,7 @@ function readSupabaseRecoveryFromHash(): { accessToken: string; refreshToken: st
   const hash = String(window.location.hash || '');
   if (!hash.startsWith('#')) return null;
   const raw = hash.slice(1);
-  if (!raw || raw.startsWith('dashboard') || raw.startsWith('resumo') || raw.startsWith('holerith') || raw.startsWith('card') || raw.startsWith('card-list') || raw.startsWith('upload') || raw.startsWith('settings')) {
+  if (!raw || raw.startsWith('dashboard') || raw.startsWith('resumo') || raw.startsWith('holerith') || raw.startsWith('banco-horas') || raw.startsWith('fgts') || raw.startsWith('decimo-terceiro') || raw.startsWith('ferias') || raw.startsWith('card') || raw.startsWith('card-list') || raw.startsWith('upload') || raw.startsWith('settings')) {
     return null;
   }
   const params = new URLSearchParams(raw);
@@ -114,12 +135,13 @@ function hasSupabaseRecoveryHash(): boolean {
 export default function App() {
   const [view, setView] = useState<View>(() => {
     const hash = window.location.hash.replace('#', '') as View;
-    const validViews: View[] = ['dashboard', 'resumo', 'holerith', 'card', 'card-list', 'upload', 'settings'];
+    const validViews: View[] = ['dashboard', 'resumo', 'holerith', 'banco-horas', 'fgts', 'decimo-terceiro', 'ferias', 'card', 'card-list', 'upload', 'settings'];
     return validViews.includes(hash) ? hash : 'dashboard';
   });
   const [settings, setSettings] = useState<Settings | null>(null);
   const [entries, setEntries] = useState<TimeEntry[]>([]);
   const [holeriths, setHoleriths] = useState<any[]>([]);
+  const [hourBankMovements, setHourBankMovements] = useState<HourBankMovement[]>([]);
   const [monthCache, setMonthCache] = useState<Record<string, any>>({});
   const [selectedMonth, setSelectedMonth] = useState<string>(''); // YYYY-MM
   const [isLoading, setIsLoading] = useState(true);
@@ -235,6 +257,9 @@ export default function App() {
       totalHours: e.totalHours || '00:00',
       isDPAnnotation: !!e.isDPAnnotation,
       annotationText: String((e as any).annotationText || ''),
+      dayStatus: e.dayStatus,
+      onCall: e.onCall,
+      overtimeAuthorized: !!e.overtimeAuthorized,
       isOvertimeCard,
       frontImage: options?.frontImage || undefined,
       backImage: options?.backImage || undefined,
@@ -318,6 +343,10 @@ export default function App() {
   const refreshHolerithsAndCache = React.useCallback(async (focusMonth?: string) => {
     ensureSupabaseReady();
     const holData = await listHoleriths();
+    const bankMovements = await listHourBankMovements().catch((error) => {
+      console.error('Falha ao carregar banco de horas:', error);
+      return [] as HourBankMovement[];
+    });
     const months = [...new Set((holData || []).map(monthKeyFromHolerith))].sort().reverse();
 
     const refPairs = await Promise.all(months.map(async (monthKey) => {
@@ -331,6 +360,7 @@ export default function App() {
     });
 
     setHoleriths(holData || []);
+    setHourBankMovements(bankMovements);
     setMonthCache(nextCache);
     setEntries(rebuildEntriesFromCache(nextCache, months));
 
@@ -392,7 +422,7 @@ export default function App() {
   useEffect(() => {
     const handleHashChange = () => {
       const hash = window.location.hash.replace('#', '') as View;
-      const validViews: View[] = ['dashboard', 'resumo', 'holerith', 'card', 'card-list', 'upload', 'settings'];
+      const validViews: View[] = ['dashboard', 'resumo', 'holerith', 'banco-horas', 'fgts', 'decimo-terceiro', 'ferias', 'card', 'card-list', 'upload', 'settings'];
       if (validViews.includes(hash)) {
         setView(hash);
       }
@@ -621,6 +651,127 @@ export default function App() {
     };
   }, [settings, currentMetadata]);
 
+  const priorLimitUsage = React.useMemo(() => {
+    if (!effectiveMonthSettings || !selectedMonth) return [];
+    const history = Object.keys(monthCache)
+      .filter((monthKey) => monthKey < selectedMonth)
+      .map((monthKey) => ({ competencia: monthKey, entries: buildEntriesFromReference(monthKey, monthCache[monthKey]) }));
+    return buildPriorOvertimeLimitUsage(history, selectedMonth, effectiveMonthSettings);
+  }, [monthCache, selectedMonth, effectiveMonthSettings, buildEntriesFromReference]);
+
+  const hourBankLedger = React.useMemo(() => buildHourBankLedger(hourBankMovements, {
+    expiryMonths: settings ? resolveHourBankExpiryMonths(settings) : 0,
+    asOf: formatDate(new Date(), 'yyyy-MM-dd'),
+    cycleStartDay: settings ? resolveEffectiveCalculationConfig(settings).cycleStartDay : 1,
+  }), [hourBankMovements, settings]);
+
+  // FGTS de cada competencia lancada, apurado dos cartoes com as mesmas regras do holerite (nao depende de a tela
+  // da competencia ter sido aberta).
+  // Apuracao de cada competencia lancada com as regras gravadas nela e o uso dos limites acumulados das anteriores:
+  // a mesma que o holerite faz, reaproveitada pelo FGTS e pelas medias do 13o e das ferias.
+  const computeApuracoesCompetencias = React.useCallback((
+    cache: Record<string, any>,
+    baseSettings: Settings,
+    onlyMonths?: string[]
+  ): ApuracaoCompetencia[] => {
+    const months = Object.keys(cache).sort();
+    return months
+      .filter((monthKey) => !onlyMonths || onlyMonths.includes(monthKey))
+      .map((monthKey) => {
+        const refData = cache[monthKey];
+        const monthSettings = { ...baseSettings, companySettings: refData?.companySettings || baseSettings.companySettings || null };
+        const history = months
+          .filter((key) => key < monthKey)
+          .map((key) => ({ competencia: key, entries: buildEntriesFromReference(key, cache[key]) }));
+        const [ano, mes] = monthKey.split('-').map(Number);
+        const entries = buildEntriesFromReference(monthKey, refData);
+        const apuracao = calcularHoleriteDaCompetencia({
+          entries,
+          settings: monthSettings,
+          mes,
+          ano,
+          competencia: monthKey,
+          priorLimitUsage: buildPriorOvertimeLimitUsage(history, monthKey, monthSettings),
+          hourBankExpiredMinutes: hourBankLedger.expiredByCompetencia[monthKey] || 0,
+        });
+        return { competencia: monthKey, entries, apuracao };
+      });
+  }, [buildEntriesFromReference, hourBankLedger]);
+
+  const computeFgtsCompetencias = React.useCallback((
+    cache: Record<string, any>,
+    baseSettings: Settings,
+    onlyMonths?: string[]
+  ): FgtsCompetencia[] => toFgtsCompetencias(computeApuracoesCompetencias(cache, baseSettings, onlyMonths)), [computeApuracoesCompetencias]);
+
+  const apuracoesCompetencias = React.useMemo(
+    () => (settings ? computeApuracoesCompetencias(monthCache, settings) : []),
+    [settings, monthCache, computeApuracoesCompetencias]
+  );
+
+  const fgtsCompetencias = React.useMemo(() => toFgtsCompetencias(apuracoesCompetencias), [apuracoesCompetencias]);
+
+  // Historico das medias do 13o e das ferias: o resultado do motor de cada mes, sem reapurar nas telas.
+  const competenciasMedias = React.useMemo(
+    () => apuracoesCompetencias.map(({ competencia, entries, apuracao }) => ({
+      competencia,
+      entries,
+      result: apuracao?.calc ?? null,
+      normalEntries: entries.filter((entry) => !entry.isOvertimeCard),
+    })),
+    [apuracoesCompetencias]
+  );
+
+  // Regrava o FGTS ao salvar cartao ou configuracoes; falha aqui nao desfaz o salvamento principal.
+  const persistFgts = React.useCallback(async (competencias: FgtsCompetencia[]) => {
+    try {
+      await Promise.all(competencias.map(({ competencia, base, aliquota, valor }) =>
+        saveReferenceFgts(refFromMonthKey(competencia), { base, aliquota, valor })));
+    } catch (error) {
+      console.error('Falha ao gravar FGTS:', error);
+    }
+  }, [refFromMonthKey]);
+
+  // Grava a anotacao de ferias em cada cartao lancado que cobre o gozo; competencias sem cartao ficam de fora.
+  const markVacationDays = React.useCallback(async (inicio: string, fim: string) => {
+    if (!supabaseReady) {
+      toast.error(supabaseRequiredMessage);
+      return;
+    }
+    let marcados = 0;
+    const markedCache: Record<string, any> = { ...monthCache };
+    try {
+      for (const monthKey of Object.keys(monthCache).sort()) {
+        const refData = monthCache[monthKey];
+        if (!refData?.hasNormalCard) continue;
+        const marked = marcarDiasFerias(refData.hours || [], inicio, fim);
+        if (marked.marcados === 0) continue;
+        await saveReference(refFromMonthKey(monthKey), {
+          companyName: refData.companyName, companyCnpj: refData.companyCnpj,
+          employeeName: refData.employeeName, employeeCode: refData.employeeCode,
+          role: refData.role, location: refData.location, cardNumber: refData.cardNumber,
+          month: refData.month, year: Number(refData.year),
+          hours: marked.rows, he: refData.he || [],
+        });
+        marcados += marked.marcados;
+        markedCache[monthKey] = { ...refData, hours: marked.rows };
+      }
+      if (marcados === 0) {
+        toast.warning('Nenhum cartao lancado cobre o periodo de ferias.');
+        return;
+      }
+      if (settings) {
+        const touched = Object.keys(markedCache).filter((monthKey) => markedCache[monthKey] !== monthCache[monthKey]);
+        await persistFgts(computeFgtsCompetencias(markedCache, settings, touched));
+      }
+      await refreshHolerithsAndCache();
+      toast.success(`${marcados} dia(s) marcados como ferias nos cartoes.`);
+    } catch (err: any) {
+      console.error('Error marking vacation days:', err);
+      toast.error(err?.message || 'Falha ao marcar as ferias nos cartoes.');
+    }
+  }, [monthCache, settings, computeFgtsCompetencias, persistFgts, refFromMonthKey, refreshHolerithsAndCache, supabaseReady]);
+
   const submitAuth = async (mode: AuthMode) => {
     if (!supabaseReady || !supabase) {
       toast.error(supabaseRequiredMessage);
@@ -929,6 +1080,7 @@ export default function App() {
       ensureSupabaseReady();
       if (useSupabaseData) {
         await saveSupabaseSettings(newSettings);
+        await persistFgts(computeFgtsCompetencias(monthCache, newSettings));
         setSettings(newSettings);
         toast.success("Configurações salvas!");
         setView('dashboard');
@@ -995,6 +1147,7 @@ export default function App() {
       if (mData) {
         setMonthData(mData);
         setMonthCache(prev => ({ ...prev, [monthKey]: mData }));
+        if (settings) await persistFgts(computeFgtsCompetencias({ ...monthCache, [monthKey]: mData }, settings, [monthKey]));
       }
 
       toast.success("Dados salvos com sucesso!");
@@ -1033,7 +1186,7 @@ export default function App() {
 
     const hasPayloadData = (row: TimeEntry) => {
       const fields = [row.entry1, row.exit1, row.entry2, row.exit2, row.entryExtra, row.exitExtra];
-      return fields.some(v => !!(v || '').toString().trim()) || !!(row as any).isDPAnnotation || !!String((row as any).annotationText || '').trim();
+      return fields.some(v => !!(v || '').toString().trim()) || !!(row as any).isDPAnnotation || !!String((row as any).annotationText || '').trim() || !!row.dayStatus || !!row.onCall?.length;
     };
 
     const persistNormal = normalRows.some(hasPayloadData) || !!currentRef?.hasNormalCard;
@@ -1045,7 +1198,9 @@ export default function App() {
       entry1: e.entry1 || '', exit1: e.exit1 || '',
       entry2: e.entry2 || '', exit2: e.exit2 || '',
       entryExtra: e.entryExtra || '', exitExtra: e.exitExtra || '',
-      totalHours: e.totalHours || '', isDPAnnotation: !!(e as any).isDPAnnotation, annotationText: String((e as any).annotationText || '')
+      totalHours: e.totalHours || '', isDPAnnotation: !!(e as any).isDPAnnotation, annotationText: String((e as any).annotationText || ''),
+      dayStatus: e.dayStatus || '',
+      onCall: e.onCall || []
     })) : [];
     const he = persistOvertime ? overtimeRows.map(e => ({
       date: (e as any).workDate || e.date,
@@ -1053,7 +1208,10 @@ export default function App() {
       entry1: e.entry1 || '', exit1: e.exit1 || '',
       entry2: e.entry2 || '', exit2: e.exit2 || '',
       entryExtra: e.entryExtra || '', exitExtra: e.exitExtra || '',
-      totalHours: e.totalHours || '', isDPAnnotation: !!(e as any).isDPAnnotation, annotationText: String((e as any).annotationText || '')
+      totalHours: e.totalHours || '', isDPAnnotation: !!(e as any).isDPAnnotation, annotationText: String((e as any).annotationText || ''),
+      dayStatus: e.dayStatus || '',
+      onCall: e.onCall || [],
+      overtimeAuthorized: !!e.overtimeAuthorized
     })) : [];
 
     if (hours.length === 0 && he.length === 0) {
@@ -1356,6 +1514,10 @@ export default function App() {
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'resumo', label: 'Resumo Financeiro', icon: DollarSign },
     { id: 'holerith', label: 'Holerith', icon: FileText },
+    { id: 'banco-horas', label: 'Banco de Horas', icon: PiggyBank },
+    { id: 'fgts', label: 'FGTS', icon: Landmark },
+    { id: 'decimo-terceiro', label: '13º Salário', icon: Gift },
+    { id: 'ferias', label: 'Férias', icon: Plane },
     { id: 'card-list', label: 'Cartões de Ponto', icon: FileText },
     { id: 'upload', label: 'Novo Lançamento', icon: PlusCircle },
     { id: 'settings', label: 'Configurações', icon: SettingsIcon },
@@ -1534,6 +1696,10 @@ export default function App() {
             {view === 'dashboard' ? 'Dashboard Geral' : 
              view === 'resumo' ? 'Painel de Resumo' :
              view === 'holerith' ? 'Holerith' : 
+             view === 'banco-horas' ? 'Banco de Horas' :
+             view === 'fgts' ? 'FGTS' :
+             view === 'decimo-terceiro' ? '13º Salário' :
+             view === 'ferias' ? 'Férias' :
              view === 'card' ? 'Visualização do Cartão' : 
              view === 'card-list' ? 'Meus Cartões' :
              view === 'settings' ? 'Configurações' : 'Novo Lançamento'}
@@ -1626,6 +1792,8 @@ export default function App() {
                     overtimeEntries={monthHeEntries}
                     settings={effectiveMonthSettings!}
                     month={selectedMonth}
+                    hourBankExpiredMinutes={hourBankLedger.expiredByCompetencia[selectedMonth] || 0}
+                    priorLimitUsage={priorLimitUsage}
                     onSaveEntries={saveEntries}
                     disableSave={isMonthLoading}
                     onUploadClick={(isOvertime) => {
@@ -1655,6 +1823,8 @@ export default function App() {
                     settings={effectiveMonthSettings!}
                     metadata={currentMetadata}
                     selectedMonth={selectedMonth}
+                    hourBankExpiredMinutes={hourBankLedger.expiredByCompetencia[selectedMonth] || 0}
+                    priorLimitUsage={priorLimitUsage}
                   />
                 : <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-6">
                     <div className="w-24 h-24 bg-zinc-100 rounded-full flex items-center justify-center">
@@ -1669,6 +1839,16 @@ export default function App() {
                     </button>
                   </div>
             )}
+            {view === 'banco-horas' && settings && (
+              <HourBankView ledger={hourBankLedger} expiryMonths={resolveHourBankExpiryMonths(settings)} />
+            )}
+            {view === 'fgts' && <FgtsView competencias={fgtsCompetencias} />}
+            {view === 'decimo-terceiro' && settings && (
+              <ThirteenthSalaryView competencias={competenciasMedias} settings={settings} />
+            )}
+            {view === 'ferias' && settings && (
+              <VacationView competencias={competenciasMedias} settings={settings} onMarkVacationDays={markVacationDays} />
+            )}
             {view === 'card-list' && (
               <CardListView 
                 entries={entries} 
@@ -1684,6 +1864,7 @@ export default function App() {
               entries={filteredEntries} 
               month={selectedMonth}
               settings={effectiveMonthSettings!}
+              priorLimitUsage={priorLimitUsage}
               onSave={saveEntries}
               disableSave={isMonthLoading}
               onBack={() => setView('card-list')}
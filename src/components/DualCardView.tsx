@@ -1,22 +1,34 @@
 import React from 'react';
-import { ArrowLeft, Clipboard, Save, Upload, Calendar, Clock, Info, MessageSquareMore } from 'lucide-react';
+import { ArrowLeft, BedDouble, Clipboard, Save, ShieldCheck, Upload, Calendar, Clock, Info, MessageSquareMore, PhoneCall, Timer, Utensils } from 'lucide-react';
 import { differenceInCalendarDays, parseISO, isValid } from 'date-fns';
 import { toast } from 'sonner';
 import {
   analyzeDailyOvertimePreview,
+  createOvertimeEngineSession,
+  detectInterjornadaViolations,
+  detectIntrajornadaViolations,
   normalizeOvernightEntries,
   resolveEffectiveCalculationConfig,
+  resolvePunchRounding,
+  roundPunchClock,
   sumEntryWorkedMinutes,
   timeToMinutes,
+  type OvertimeCalculationResult,
+  type OvertimeEngineSession,
+  type OvertimeLimitUsage,
   type TimeEntry,
   type Settings
 } from '../lib/calculations';
-import { cn } from '../lib/utils';
+import { DAY_STATUSES, DAY_STATUS_LABELS, isDayStatus } from '../lib/dayStatus';
+import { formatOnCallPeriods, parseOnCallText, resolveEntryOnCallPeriods } from '../lib/onCall';
+import { cn, formatCurrency } from '../lib/utils';
 
 interface Props {
   entries: TimeEntry[];
   month?: string;
   settings: Settings;
+  // Uso dos limites acumulados nas competencias anteriores, o mesmo passado ao holerite.
+  priorLimitUsage?: OvertimeLimitUsage[];
   onSave: (entries: TimeEntry[]) => void;
   onBack?: () => void;
   onUploadClick?: (isOvertime: boolean) => void;
@@ -157,9 +169,10 @@ function resolveWeeklyTargetMinutes(settings: Settings): number {
   return weekdayMinutes > 0 ? weekdayMinutes + (saturdayMinutes || fallbackSaturdayMinutes) : WEEK_TARGET_HOURS * 60;
 }
 
-export default function DualCardView({ entries, onSave, onBack, month, onUploadClick, settings, disableSave }: Props) {
+export default function DualCardView({ entries, onSave, onBack, month, onUploadClick, settings, priorLimitUsage, disableSave }: Props) {
   const monthStr = React.useMemo(() => month || (entries[0]?.date || '').substring(0, 7), [entries, month]);
   const effectiveConfig = React.useMemo(() => resolveEffectiveCalculationConfig(settings), [settings]);
+  const punchRounding = React.useMemo(() => resolvePunchRounding(settings), [settings]);
   const weeklyTargetMinutes = React.useMemo(() => resolveWeeklyTargetMinutes({ ...settings, dailyJourney: effectiveConfig.dailyJourney }), [settings, effectiveConfig.dailyJourney]);
   const referenceLabel = React.useMemo(() => formatReferenceLabel(monthStr), [monthStr]);
   const competenciaPeriodLabel = React.useMemo(
@@ -214,7 +227,46 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
   const [left, setLeft] = React.useState(normalList);
   const [right, setRight] = React.useState(overtimeList);
   const [editingCell, setEditingCell] = React.useState<EditingCell>(null);
+  const [onCallEditingId, setOnCallEditingId] = React.useState<string | null>(null);
   const [activeCardTab, setActiveCardTab] = React.useState<'left' | 'right'>('left');
+  const requiresOvertimeAuthorization = settings.companySettings?.config?.overtimeAuthorizationPolicy === 'authorizedOnly';
+  const lastAuthorizationIdRef = React.useRef<string | null>(null);
+  const interjornadaByDate = React.useMemo(
+    () => new Map(detectInterjornadaViolations([...left, ...right], settings).map((violation) => [violation.date, violation])),
+    [left, right, settings]
+  );
+  // O intervalo do art. 71 e apurado sobre o dia inteiro, somando as marcacoes dos dois cartoes.
+  const intrajornadaByDate = React.useMemo(
+    () => new Map(detectIntrajornadaViolations([...left, ...right], settings).map((violation) => [violation.date, violation])),
+    [left, right, settings]
+  );
+  // A sessao guarda as semanas ja apuradas; cada edicao reapura so o que mudou. Regras, competencia ou limites
+  // anteriores diferentes pedem uma sessao nova.
+  const engineSessionRef = React.useRef<{
+    settings: Settings;
+    competencia: string;
+    priorLimitUsage?: OvertimeLimitUsage[];
+    rows: TimeEntry[];
+    session: OvertimeEngineSession;
+  } | null>(null);
+  const [cardEngineResult, setCardEngineResult] = React.useState<OvertimeCalculationResult | null>(null);
+  React.useEffect(() => {
+    const rows = [...left, ...right];
+    const cached = engineSessionRef.current;
+    if (!cached || cached.settings !== settings || cached.competencia !== monthStr || cached.priorLimitUsage !== priorLimitUsage) {
+      const session = createOvertimeEngineSession(rows, settings, { competencia: monthStr || undefined, priorLimitUsage });
+      engineSessionRef.current = { settings, competencia: monthStr, priorLimitUsage, rows, session };
+      setCardEngineResult(session.result);
+      return;
+    }
+    const previousById = new Map(cached.rows.map((row) => [row.id, row]));
+    const nextIds = new Set(rows.map((row) => row.id));
+    const upserts = rows.filter((row) => previousById.get(row.id) !== row);
+    const removedIds = cached.rows.filter((row) => !nextIds.has(row.id)).map((row) => row.id);
+    engineSessionRef.current = { ...cached, rows };
+    if (upserts.length === 0 && removedIds.length === 0) return;
+    setCardEngineResult(cached.session.apply({ upserts, removedIds }));
+  }, [left, right, settings, monthStr, priorLimitUsage]);
   const hasOvertimeData = React.useMemo(
     () => right.some((row) =>
       !!calcTotal(row) ||
@@ -321,6 +373,8 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
   const renderTimeCell = (entry: TimeEntry, side: 'left' | 'right', field: TimeField, bordered?: boolean) => {
     const isEditing = editingCell?.side === side && editingCell?.id === entry.id && editingCell?.field === field;
     const value = entry[field] || '';
+    const roundedValue = roundPunchClock(value, field.startsWith('entry') ? 'entry' : 'exit', punchRounding);
+    const showRounded = !!punchRounding && !!roundedValue && roundedValue !== value;
 
     return (
       <td className={cn("px-0 py-0.5 text-center", bordered && "border-r border-zinc-100")}>
@@ -357,9 +411,10 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                 ? "border-transparent text-zinc-900 hover:border-zinc-200 hover:bg-zinc-100 focus:border-zinc-200 focus:bg-zinc-100"
                 : "border-transparent text-zinc-400 hover:border-zinc-200 hover:bg-zinc-100 focus:border-zinc-200 focus:bg-zinc-100"
             )}
-            title="Clique para editar"
+            title={showRounded ? `Marcacao ${value}, calculada como ${roundedValue}. Clique para editar` : 'Clique para editar'}
           >
             {value || '--:--'}
+            {showRounded && <span className="ml-0.5 text-[8px] font-black text-sky-600">{roundedValue}</span>}
           </button>
         )}
       </td>
@@ -370,6 +425,40 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
     setLeft((prev) => prev.map((e) => (e.id === id ? { ...e, isDPAnnotation: !e.isDPAnnotation } : e)));
   };
 
+  // A situacao vale para o dia: vai para a linha dos dois cartoes. Vazio volta a deduzir da anotacao.
+  const setDayStatus = (day: string, value: string) => {
+    const dayStatus = isDayStatus(value) ? value : undefined;
+    const apply = (prev: TimeEntry[]) => prev.map((e) => (e.day === day ? { ...e, dayStatus } : e));
+    setLeft(apply);
+    setRight(apply);
+  };
+
+  // Texto vazio tira as janelas do cartao e o sobreaviso volta a ser lido da anotacao.
+  const saveOnCall = (id: string, text: string) => {
+    setOnCallEditingId(null);
+    const periods = parseOnCallText(text);
+    if (text.trim() && periods.length === 0) {
+      toast.error('Use o formato SOBREAVISO 18:00-08:00 ou PRONTIDAO 22:00-06:00.');
+      return;
+    }
+    setLeft((prev) => prev.map((e) => (e.id === id ? { ...e, onCall: periods.length > 0 ? periods : undefined } : e)));
+  };
+
+  // Shift+clique aplica a mesma marcacao em todos os dias entre o ultimo clicado e o atual.
+  const toggleOvertimeAuthorization = (id: string, extendRange: boolean) => {
+    const anchorId = extendRange ? lastAuthorizationIdRef.current : null;
+    lastAuthorizationIdRef.current = id;
+    setRight((prev) => {
+      const targetIndex = prev.findIndex((e) => e.id === id);
+      if (targetIndex < 0) return prev;
+      const anchorIndex = anchorId ? prev.findIndex((e) => e.id === anchorId) : -1;
+      const from = anchorIndex >= 0 ? Math.min(anchorIndex, targetIndex) : targetIndex;
+      const to = anchorIndex >= 0 ? Math.max(anchorIndex, targetIndex) : targetIndex;
+      const authorized = !prev[targetIndex].overtimeAuthorized;
+      return prev.map((e, index) => (index >= from && index <= to ? { ...e, overtimeAuthorized: authorized } : e));
+    });
+  };
+
   const applyStandardSchedule = () => {
     const baseEntry1 = normalizeTimeInput(settings.workStart || '12:00', true);
     const baseExit1 = normalizeTimeInput(settings.lunchStart || '17:00', true);
@@ -498,6 +587,18 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                 const isWeekend = validDate && (dayOfWeek === 0 || dayOfWeek === 6);
                 const passiveDayLabel = normalizePassiveDayLabel(e.annotationText);
                 const showAnnotationIcon = !!String(e.annotationText || '').trim() && !passiveDayLabel;
+                const onCallLabel = formatOnCallPeriods(resolveEntryOnCallPeriods(e));
+                const interjornadaViolation = interjornadaByDate.get(e.date);
+                const interjornadaLabel = interjornadaViolation
+                  ? `Interjornada: descanso de ${minutesToHHMM(interjornadaViolation.restMinutes)} desde ${interjornadaViolation.previousDate.split('-').reverse().join('/')} (faltaram ${minutesToHHMM(interjornadaViolation.missingMinutes)})`
+                  : '';
+                const intrajornadaViolation = intrajornadaByDate.get(e.date);
+                const intrajornadaLabel = intrajornadaViolation
+                  ? `Intrajornada: intervalo de ${minutesToHHMM(intrajornadaViolation.breakMinutes)} (faltaram ${minutesToHHMM(intrajornadaViolation.missingMinutes)})`
+                  : '';
+                const toleranceLabel = overtimePreview.toleranceRealMinutes > 0
+                  ? `Tolerancia art. 58 §1: ${overtimePreview.toleranceRealMinutes} min de variacao nao computados`
+                  : '';
                 const dayDisplayName = validDate ? WEEKDAY_ABBR[dayOfWeek] : '';
                 const monthDisplayName = validDate ? MONTH_ABBR[date.getMonth()] : '';
                 const isMonToSat = validDate && dayOfWeek >= 1 && dayOfWeek <= 6;
@@ -507,7 +608,7 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                   weekStartLabel = WEEKDAY_ABBR[dayOfWeek];
                 }
                 if (isMonToSat) {
-                  weekTotalMinutes += sumEntryWorkedMinutes(normalizedEntry);
+                  weekTotalMinutes += overtimePreview.workedMinutes;
                 }
 
                 rows.push(
@@ -518,6 +619,21 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                           <span className="text-[13px] font-black text-zinc-950">{e.day}</span>
                           <span className="text-[8px] font-extrabold uppercase tracking-[0.08em] text-zinc-500">{dayDisplayName || '--'}</span>
                           <span className="text-[8px] font-bold uppercase text-zinc-400">{monthDisplayName}</span>
+                          <select
+                            value={e.dayStatus || ''}
+                            onChange={(ev) => setDayStatus(e.day || '', ev.target.value)}
+                            className={cn(
+                              'w-[34px] rounded border bg-white px-0 py-0 text-[8px] font-bold outline-none',
+                              e.dayStatus ? 'border-sky-200 text-sky-700' : 'border-zinc-200 text-zinc-400'
+                            )}
+                            title={e.dayStatus ? `Situacao do dia: ${DAY_STATUS_LABELS[e.dayStatus]}` : 'Situacao do dia deduzida da anotacao'}
+                            aria-label="Situacao do dia"
+                          >
+                            <option value="">Auto</option>
+                            {DAY_STATUSES.map((status) => (
+                              <option key={status} value={status}>{DAY_STATUS_LABELS[status]}</option>
+                            ))}
+                          </select>
                         </div>
                         <div className="mt-0.5 flex flex-col items-center gap-1">
                           {showAnnotationIcon && (
@@ -535,6 +651,33 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                               </div>
                             </div>
                           )}
+                          {interjornadaViolation && (
+                            <span
+                              className="inline-flex h-4.5 w-4.5 items-center justify-center rounded-md border border-red-200 bg-red-50 text-red-600"
+                              title={interjornadaLabel}
+                              aria-label={interjornadaLabel}
+                            >
+                              <BedDouble className="h-3 w-3" />
+                            </span>
+                          )}
+                          {intrajornadaLabel && (
+                            <span
+                              className="inline-flex h-4.5 w-4.5 items-center justify-center rounded-md border border-red-200 bg-red-50 text-red-600"
+                              title={intrajornadaLabel}
+                              aria-label={intrajornadaLabel}
+                            >
+                              <Utensils className="h-3 w-3" />
+                            </span>
+                          )}
+                          {toleranceLabel && (
+                            <span
+                              className="inline-flex h-4.5 w-4.5 items-center justify-center rounded-md border border-sky-200 bg-sky-50 text-sky-600"
+                              title={toleranceLabel}
+                              aria-label={toleranceLabel}
+                            >
+                              <Timer className="h-3 w-3" />
+                            </span>
+                          )}
                           {side === 'left' && (
                             <button
                               type="button"
@@ -551,6 +694,38 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                               <Clock className="h-3 w-3" />
                             </button>
                           )}
+                          {side === 'left' && (
+                            <button
+                              type="button"
+                              onClick={() => setOnCallEditingId(onCallEditingId === e.id ? null : e.id)}
+                              className={cn(
+                                'inline-flex h-4.5 w-4.5 items-center justify-center rounded-md border transition-colors',
+                                onCallLabel
+                                  ? 'border-sky-200 bg-sky-50 text-sky-600'
+                                  : 'border-zinc-200 bg-white text-zinc-300 hover:border-zinc-300 hover:text-zinc-500'
+                              )}
+                              title={onCallLabel ? `Sobreaviso/prontidao: ${onCallLabel}` : 'Lancar sobreaviso/prontidao'}
+                              aria-label={onCallLabel ? `Sobreaviso/prontidao: ${onCallLabel}` : 'Lancar sobreaviso/prontidao'}
+                            >
+                              <PhoneCall className="h-3 w-3" />
+                            </button>
+                          )}
+                          {side === 'right' && requiresOvertimeAuthorization && (
+                            <button
+                              type="button"
+                              onClick={(ev) => toggleOvertimeAuthorization(e.id, ev.shiftKey)}
+                              className={cn(
+                                'inline-flex h-4.5 w-4.5 items-center justify-center rounded-md border transition-colors',
+                                e.overtimeAuthorized
+                                  ? 'border-emerald-200 bg-emerald-50 text-emerald-600'
+                                  : 'border-zinc-200 bg-white text-zinc-300 hover:border-zinc-300 hover:text-zinc-500'
+                              )}
+                              title={e.overtimeAuthorized ? 'HE autorizada (Shift+clique marca o intervalo)' : 'HE sem autorizacao vai para o banco. Clique para autorizar (Shift+clique marca o intervalo)'}
+                              aria-label={e.overtimeAuthorized ? 'HE autorizada' : 'Autorizar HE'}
+                            >
+                              <ShieldCheck className="h-3 w-3" />
+                            </button>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -580,6 +755,26 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
                     </td>
                   </tr>
                 );
+                if (side === 'left' && onCallEditingId === e.id) {
+                  rows.push(
+                    <tr key={`${side}-${e.day}-on-call`} className="border-b border-zinc-100 bg-sky-50/40">
+                      <td colSpan={8} className="px-2 py-1">
+                        <input
+                          autoFocus
+                          defaultValue={formatOnCallPeriods(e.onCall)}
+                          onBlur={(ev) => saveOnCall(e.id, ev.target.value)}
+                          onKeyDown={(ev) => {
+                            if (ev.key === 'Enter') saveOnCall(e.id, (ev.target as HTMLInputElement).value);
+                            if (ev.key === 'Escape') setOnCallEditingId(null);
+                          }}
+                          className="h-6 w-full rounded-md border border-zinc-300 bg-white px-2 text-[10px] font-bold text-zinc-900 outline-none focus:border-zinc-900"
+                          placeholder="SOBREAVISO 18:00-08:00; PRONTIDAO 22:00-06:00 (vazio usa a anotacao)"
+                          aria-label="Sobreaviso e prontidao do dia"
+                        />
+                      </td>
+                    </tr>
+                  );
+                }
 
                 const isEndOfWeek = dayOfWeek === 6;
                 const isLastRow = idx === list.length - 1;
@@ -639,7 +834,19 @@ export default function DualCardView({ entries, onSave, onBack, month, onUploadC
           <Upload className="h-3 w-3" />
           Subir imagens
         </button>
-        <span className="font-medium italic text-zinc-400">Edição manual habilitada</span>
+        <div className="flex items-center gap-3">
+          {side === 'right' && requiresOvertimeAuthorization && (cardEngineResult?.grandTotalUnauthorizedBancoHoras || 0) > 0 && (
+            <span className="font-bold uppercase tracking-widest text-amber-600">
+              Sem autorizacao (banco): {minutesToHHMM(Math.round(cardEngineResult?.grandTotalUnauthorizedBancoHoras || 0))}
+            </span>
+          )}
+          {side === 'right' && (
+            <span className="font-bold uppercase tracking-widest text-zinc-500">
+              HE apurada: {formatCurrency(cardEngineResult?.grandTotalValue || 0)}
+            </span>
+          )}
+          <span className="font-medium italic text-zinc-400">Edição manual habilitada</span>
+        </div>
       </div>
     </div>
   );
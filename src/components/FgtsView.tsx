@@ -0,0 +1,120 @@
+import React from 'react';
+import { ArrowUpCircle, Landmark, TrendingUp } from 'lucide-react';
+import { format, parseISO, isValid } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { buildFgtsProjection, FGTS_JUROS_ANUAIS, type FgtsCompetencia } from '../lib/fgts';
+import { cn, formatCurrency } from '../lib/utils';
+
+interface Props {
+  competencias: FgtsCompetencia[];
+}
+
+function formatCompetencia(competencia: string): string {
+  const date = parseISO(`${competencia}-01`);
+  return isValid(date) ? format(date, 'MMM/yyyy', { locale: ptBR }) : competencia;
+}
+
+export default function FgtsView({ competencias }: Props) {
+  const [saldoInicial, setSaldoInicial] = React.useState(0);
+  const [trMensalPercent, setTrMensalPercent] = React.useState(0);
+
+  const byCompetencia = React.useMemo(
+    () => new Map(competencias.map((item) => [item.competencia, item])),
+    [competencias]
+  );
+  const projecao = React.useMemo(
+    () => buildFgtsProjection(competencias, { saldoInicial, trMensal: trMensalPercent / 100 }),
+    [competencias, saldoInicial, trMensalPercent]
+  );
+
+  const cards = [
+    { label: 'Saldo projetado', value: formatCurrency(projecao.saldo), icon: Landmark, tone: 'text-emerald-700' },
+    { label: 'Depositos', value: formatCurrency(projecao.totalDepositos), icon: ArrowUpCircle, tone: 'text-zinc-900' },
+    { label: 'Rendimentos', value: formatCurrency(projecao.totalRendimentos), icon: TrendingUp, tone: 'text-zinc-900' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3 sm:gap-4">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-3xl border border-zinc-100 bg-white p-4 shadow-sm sm:p-6">
+            <div className="mb-2 flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+              <card.icon className="h-4 w-4" />
+              {card.label}
+            </div>
+            <div className={cn('text-2xl font-black tracking-tighter', card.tone)}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 rounded-3xl border border-zinc-100 bg-white p-4 shadow-sm sm:grid-cols-2 sm:p-6">
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">Saldo anterior a primeira competencia (R$)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={saldoInicial || ''}
+            onChange={(e) => setSaldoInicial(Number(e.target.value || 0))}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+            placeholder="Ex: saldo do extrato da Caixa"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">TR mensal (%)</label>
+          <input
+            type="number"
+            step="0.0001"
+            min="0"
+            value={trMensalPercent || ''}
+            onChange={(e) => setTrMensalPercent(Number(e.target.value || 0))}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-100 bg-white shadow-sm">
+        <div className="border-b border-zinc-100 px-4 py-3 sm:px-6">
+          <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">Extrato projetado</h3>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+            {`Juros de ${(FGTS_JUROS_ANUAIS * 100).toFixed(0)}% a.a. creditados mes a mes, sem distribuicao de lucros`}
+          </p>
+        </div>
+        {projecao.lines.length === 0 ? (
+          <div className="px-6 py-10 text-center text-sm text-zinc-500">Nenhuma competencia lancada para apurar o FGTS.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] text-xs">
+              <thead>
+                <tr className="bg-zinc-50 text-left text-[10px] font-black uppercase tracking-widest text-zinc-500">
+                  <th className="px-4 py-2">Competencia</th>
+                  <th className="px-4 py-2 text-right">Base</th>
+                  <th className="px-4 py-2 text-right">Aliquota</th>
+                  <th className="px-4 py-2 text-right">Deposito</th>
+                  <th className="px-4 py-2 text-right">Rendimento</th>
+                  <th className="px-4 py-2 text-right">Saldo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projecao.lines.map((line) => {
+                  const competencia = byCompetencia.get(line.competencia);
+                  return (
+                    <tr key={line.competencia} className="border-t border-zinc-100">
+                      <td className="px-4 py-2 font-bold capitalize text-zinc-900">{formatCompetencia(line.competencia)}</td>
+                      <td className="px-4 py-2 text-right text-zinc-500">{competencia ? formatCurrency(competencia.base) : '-'}</td>
+                      <td className="px-4 py-2 text-right text-zinc-500">{competencia ? `${(competencia.aliquota * 100).toFixed(0)}%` : '-'}</td>
+                      <td className="px-4 py-2 text-right font-bold text-emerald-700">{formatCurrency(line.deposito)}</td>
+                      <td className="px-4 py-2 text-right text-zinc-600">{formatCurrency(line.rendimento)}</td>
+                      <td className="px-4 py-2 text-right font-black text-zinc-900">{formatCurrency(line.saldo)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
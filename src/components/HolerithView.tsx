@@ -3,15 +3,11 @@ import { Printer } from 'lucide-react';
 import { format, parseISO, isValid } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
-  calculateOvertime,
-  normalizeOvernightEntries,
-  resolveDailyShortfallMinutes,
-  resolveDailyJourneyMinutes,
-  resolveEffectiveCalculationConfig,
+  type OvertimeLimitUsage,
   type Settings,
   type TimeEntry
 } from '../lib/calculations';
-import { calcularHoleriteCompleto } from '../lib/payroll';
+import { calcularHoleriteDaCompetencia } from '../lib/payroll';
 import { formatCurrency } from '../lib/utils';
 
 interface MetaData {
@@ -33,6 +29,8 @@ interface Props {
   settings: Settings;
   metadata?: MetaData;
   selectedMonth?: string;
+  hourBankExpiredMinutes?: number;
+  priorLimitUsage?: OvertimeLimitUsage[];
 }
 
 export default function HolerithView({
@@ -41,44 +39,12 @@ export default function HolerithView({
   overtimeEntries,
   settings,
   metadata,
-  selectedMonth
+  selectedMonth,
+  hourBankExpiredMinutes = 0,
+  priorLimitUsage
 }: Props) {
   const data = React.useMemo(() => {
     if (!entries || entries.length === 0) return null;
-    const effectiveConfig = resolveEffectiveCalculationConfig(settings);
-
-    const effectiveEntries = normalizeOvernightEntries(entries);
-    const normals = normalizeOvernightEntries(normalEntries ?? effectiveEntries.filter(e => !e.isOvertimeCard));
-    const overs = normalizeOvernightEntries(overtimeEntries ?? effectiveEntries.filter(e => !!e.isOvertimeCard));
-    const calc = calculateOvertime(effectiveEntries, settings);
-    if (!calc) return null;
-
-    let totalAtrasoMinutes = 0;
-    normals.forEach((entry) => {
-      const date = parseISO(entry.date);
-      if (!isValid(date)) return;
-      if (date.getDay() === 0) return;
-
-      const journey = resolveDailyJourneyMinutes(
-        effectiveConfig.dailyJourney,
-        !!entry.isOvertimeCard,
-        date.getDay(),
-        !!settings.saturdayCompensation,
-        settings.compDays
-      );
-
-      if (entry.isDPAnnotation) return;
-      totalAtrasoMinutes += resolveDailyShortfallMinutes(entry, {
-        dailyJourneyHours: effectiveConfig.dailyJourney,
-        isOvertimeCardEntry: false,
-        dayOfWeek: date.getDay(),
-        saturdayCompensation: !!settings.saturdayCompensation,
-        compDaysRaw: settings.compDays,
-      });
-    });
-
-    const valorHora = (settings.baseSalary || 0) / (settings.monthlyHours || 1);
-    const atrasoValor = (totalAtrasoMinutes / 60) * valorHora;
 
     const selectedRef = selectedMonth && /^\d{4}-\d{2}$/.test(selectedMonth) ? selectedMonth : null;
     let month: number;
@@ -93,32 +59,21 @@ export default function HolerithView({
       year = isValid(sampleDate) ? sampleDate.getFullYear() : (metadata?.year || new Date().getFullYear());
     }
 
-    const payroll = calcularHoleriteCompleto({
-      salarioBase: settings.baseSalary || 0,
-      horasMensais: settings.monthlyHours || 220,
-      he50: calc.grandTotal50,
-      he75: calc.grandTotal75,
-      he100: calc.grandTotal100,
-      he125: calc.grandTotal125,
-      perc50: effectiveConfig.percent50 || 50,
-      perc100: effectiveConfig.percent100 || 100,
-      percNight: effectiveConfig.percentNight || 25,
+    const competencia = calcularHoleriteDaCompetencia({
+      entries,
+      normalEntries,
+      overtimeEntries,
+      settings,
       mes: month,
       ano: year,
-      atraso: atrasoValor,
-      dependentes: settings.dependentes || 0,
-      adiantamentoPercent: settings.adiantamentoPercent || 45,
-      adiantamentoPago: settings.adiantamentoIR ? { bruto: 0, irRetido: settings.adiantamentoIR } : null,
-      cycleStartDay: effectiveConfig.cycleStartDay || 15,
-      rubrics: settings.companySettings?.rubrics,
-      companyConfig: settings.companySettings?.config,
-      normalEntries: normals,
-      overtimeBuckets: calc.overtimeBuckets,
-      discountBuckets: calc.discountBuckets,
+      competencia: selectedMonth,
+      priorLimitUsage,
+      hourBankExpiredMinutes,
     });
+    if (!competencia) return null;
 
-    return { calc, payroll, atrasoValor, month, year, normals, overs };
-  }, [entries, normalEntries, overtimeEntries, settings, metadata, selectedMonth]);
+    return { ...competencia, month, year };
+  }, [entries, normalEntries, overtimeEntries, settings, metadata, selectedMonth, hourBankExpiredMinutes, priorLimitUsage]);
 
   if (!data) {
     return (
@@ -146,8 +101,8 @@ export default function HolerithView({
     { code: '930', desc: 'ARREDONDAMENTO', hours: null, value: Math.abs(data.payroll.valores.arredondamento) }
   ].filter((r) => r.value > 0);
 
-  const fgtsBase = data.payroll.valores.totalProventos;
-  const fgtsValue = fgtsBase * 0.08;
+  const fgtsBase = data.payroll.valores.fgtsBase;
+  const fgtsValue = data.payroll.valores.fgts;
 
   return (
     <div className="space-y-6">
@@ -250,11 +205,21 @@ export default function HolerithView({
 
         <div className="grid grid-cols-3 gap-4 mt-6 text-sm">
           <div><span className="font-bold">Base FGTS:</span> {formatCurrency(fgtsBase)}</div>
-          <div><span className="font-bold">FGTS:</span> {formatCurrency(fgtsValue)}</div>
+          <div><span className="font-bold">FGTS ({(data.payroll.valores.fgtsAliquota * 100).toFixed(0)}%):</span> {formatCurrency(fgtsValue)}</div>
           <div><span className="font-bold">Base IR:</span> {formatCurrency(data.payroll.valores.baseIR)}</div>
           <div><span className="font-bold">Base INSS:</span> {formatCurrency(data.payroll.valores.baseINSS || data.payroll.valores.totalProventos)}</div>
           <div><span className="font-bold">Salário:</span> {formatCurrency(data.payroll.valores.salarioBase)}</div>
           <div><span className="font-bold">Carga Horária:</span> {(settings.monthlyHours || 220).toFixed(2)}</div>
+          <div className={data.payroll.valores.deducaoIRAplicada === 'legal' ? 'font-bold' : 'text-zinc-500'}>
+            <span className="font-bold">Base IR deducoes legais:</span> {formatCurrency(data.payroll.valores.baseIRDeducoesLegais)} (IR {formatCurrency(data.payroll.valores.irDeducoesLegais)})
+          </div>
+          {data.payroll.valores.baseIRDescontoSimplificado != null && (
+            <div className={data.payroll.valores.deducaoIRAplicada === 'simplificado' ? 'font-bold' : 'text-zinc-500'}>
+              <span className="font-bold">Base IR desconto simplificado:</span> {formatCurrency(data.payroll.valores.baseIRDescontoSimplificado)} (IR {formatCurrency(data.payroll.valores.irDescontoSimplificado ?? 0)})
+            </div>
+          )}
+          <div><span className="font-bold">Deducao aplicada:</span> {data.payroll.valores.deducaoIRAplicada === 'simplificado' ? 'Desconto simplificado' : 'Deducoes legais'}</div>
+          <div className="col-span-3 text-xs text-zinc-500"><span className="font-bold">Tabela INSS/IRRF:</span> {data.payroll.tabelaFiscal.descricao}</div>
         </div>
 
         <div className="mt-10 text-xs text-zinc-500">
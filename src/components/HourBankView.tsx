@@ -0,0 +1,126 @@
+import React from 'react';
+import { ArrowDownCircle, ArrowUpCircle, Hourglass, PiggyBank } from 'lucide-react';
+import { format, parseISO, isValid } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import type { HourBankLedger, HourBankLedgerLine } from '../lib/hourBank';
+import { cn, formatMinutesAsHoursClock } from '../lib/utils';
+
+interface Props {
+  ledger: HourBankLedger;
+  expiryMonths: number;
+}
+
+const LINE_TYPE_LABELS: Record<HourBankLedgerLine['type'], string> = {
+  credito: 'Credito',
+  debito: 'Debito',
+  vencimento: 'Vencido / pago',
+};
+
+function formatSignedMinutes(minutes: number): string {
+  const sign = minutes < 0 ? '-' : minutes > 0 ? '+' : '';
+  return `${sign}${formatMinutesAsHoursClock(Math.abs(minutes))}`;
+}
+
+function formatDate(isoDate?: string): string {
+  if (!isoDate) return '-';
+  const date = parseISO(isoDate);
+  return isValid(date) ? format(date, 'dd/MM/yyyy') : isoDate;
+}
+
+function formatCompetencia(competencia: string): string {
+  const date = parseISO(`${competencia}-01`);
+  return isValid(date) ? format(date, 'MMM/yyyy', { locale: ptBR }) : competencia;
+}
+
+export default function HourBankView({ ledger, expiryMonths }: Props) {
+  const totals = React.useMemo(() => ledger.lines.reduce(
+    (acc, line) => {
+      if (line.type === 'credito') acc.credits += line.minutes;
+      if (line.type === 'debito') acc.debits += Math.abs(line.minutes);
+      return acc;
+    },
+    { credits: 0, debits: 0 }
+  ), [ledger]);
+
+  const cards = [
+    { label: 'Saldo atual', value: formatSignedMinutes(ledger.balanceMinutes), icon: PiggyBank, tone: ledger.balanceMinutes < 0 ? 'text-red-600' : 'text-emerald-700' },
+    { label: 'Creditos', value: formatMinutesAsHoursClock(totals.credits), icon: ArrowUpCircle, tone: 'text-zinc-900' },
+    { label: 'Debitos', value: formatMinutesAsHoursClock(totals.debits), icon: ArrowDownCircle, tone: 'text-zinc-900' },
+    { label: 'Vencido e pago', value: formatMinutesAsHoursClock(ledger.expiredMinutes), icon: Hourglass, tone: 'text-amber-600' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4 sm:gap-4">
+        {cards.map((card) => (
+          <div key={card.label} className="rounded-3xl border border-zinc-100 bg-white p-4 shadow-sm sm:p-6">
+            <div className="mb-2 flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+              <card.icon className="h-4 w-4" />
+              {card.label}
+            </div>
+            <div className={cn('text-2xl font-black tracking-tighter', card.tone)}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-zinc-100 bg-white shadow-sm">
+        <div className="border-b border-zinc-100 px-4 py-3 sm:px-6">
+          <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">Movimentacoes</h3>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+            {expiryMonths > 0
+              ? `Creditos vencem em ${expiryMonths} meses e o saldo nao compensado vai para o holerite como HE`
+              : 'Creditos sem prazo de vencimento'}
+          </p>
+        </div>
+        {ledger.lines.length === 0 ? (
+          <div className="px-6 py-10 text-center text-sm text-zinc-500">Nenhuma movimentacao no banco de horas.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] text-xs">
+              <thead>
+                <tr className="bg-zinc-50 text-left text-[10px] font-black uppercase tracking-widest text-zinc-500">
+                  <th className="px-4 py-2">Data</th>
+                  <th className="px-4 py-2">Competencia</th>
+                  <th className="px-4 py-2">Tipo</th>
+                  <th className="px-4 py-2">Descricao</th>
+                  <th className="px-4 py-2 text-right">Horas</th>
+                  <th className="px-4 py-2 text-right">Saldo</th>
+                  <th className="px-4 py-2">Vence em</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.lines.map((line, index) => (
+                  <tr key={`${line.id || line.type}-${line.date}-${index}`} className="border-t border-zinc-100">
+                    <td className="px-4 py-2 font-bold text-zinc-900">{formatDate(line.date)}</td>
+                    <td className="px-4 py-2 capitalize text-zinc-500">{formatCompetencia(line.competencia)}</td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={cn(
+                          'rounded-full px-2 py-0.5 text-[10px] font-black uppercase',
+                          line.type === 'credito' && 'bg-emerald-50 text-emerald-700',
+                          line.type === 'debito' && 'bg-zinc-100 text-zinc-700',
+                          line.type === 'vencimento' && 'bg-amber-50 text-amber-700'
+                        )}
+                      >
+                        {LINE_TYPE_LABELS[line.type]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-zinc-600">{line.description || '-'}</td>
+                    <td className={cn('px-4 py-2 text-right font-bold', line.minutes < 0 ? 'text-red-600' : 'text-emerald-700')}>
+                      {formatSignedMinutes(line.minutes)}
+                      {line.rawMinutes != null && (
+                        <span className="block text-[10px] font-semibold text-zinc-400">{formatSignedMinutes(line.rawMinutes)} trabalhadas</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right font-black text-zinc-900">{formatSignedMinutes(line.balanceAfter)}</td>
+                    <td className="px-4 py-2 text-zinc-500">{line.expiresAt ? formatDate(line.expiresAt) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
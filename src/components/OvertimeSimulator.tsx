@@ -3,7 +3,8 @@ import { parseISO, isValid } from 'date-fns';
 import { Calculator, Loader2, Save, WandSparkles } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Settings, TimeEntry } from '../lib/calculations';
-import { resolveEffectiveCalculationConfig, resolveWorkDateByCompetenciaDay, timeToMinutes } from '../lib/calculations';
+import { buildNightWindow, isNightMinute, resolveEffectiveCalculationConfig, resolveWorkDateByCompetenciaDay, timeToMinutes } from '../lib/calculations';
+import { resolveShiftScheduleDay } from '../lib/shiftSchedule';
 import { isSupabaseConfigured } from '../lib/supabase';
 import { getSimulatorPlan, saveSimulatorPlan } from '../lib/supabaseData';
 import { formatCurrency, cn } from '../lib/utils';
@@ -158,11 +159,15 @@ function monthKeyToReference(monthKey: string): string {
 }
 
 function getEffectiveScheduleForDay(
+  date: string,
   dayOfWeek: number,
   baseSchedule: BaseSchedule,
   settings: Settings,
   parsedCompDays: number[]
 ): { start: string; end: string } {
+  const scheduleDay = resolveShiftScheduleDay(date, settings);
+  if (scheduleDay) return { start: scheduleDay.expectedStart, end: scheduleDay.expectedEnd };
+
   if (dayOfWeek === 6 && !settings.saturdayCompensation) {
     const satStart = normalizeTime(settings.saturdayWorkStart || settings.workStart || '12:00', true);
     const satEnd = normalizeTime(settings.saturdayWorkEnd || settings.workEnd || '16:00', true);
@@ -270,7 +275,10 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
       const date = resolveWorkDateByCompetenciaDay(day, refMonth, refYear, cycle);
       const src = byDay[dayStr];
       const d = parseISO(date);
-      const selected = isValid(d) ? d.getDay() >= 1 && d.getDay() <= 6 : false;
+      const scheduleDay = resolveShiftScheduleDay(date, settings);
+      const selected = scheduleDay
+        ? !scheduleDay.isRestDay
+        : isValid(d) ? d.getDay() >= 1 && d.getDay() <= 6 : false;
       out.push({
         key: `${date}-${dayStr}`,
         day: dayStr,
@@ -286,7 +294,7 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
       });
     }
     return out;
-  }, [entries, referenceMonth, effectiveConfig.cycleStartDay]);
+  }, [entries, referenceMonth, effectiveConfig.cycleStartDay, settings]);
 
   const [rows, setRows] = React.useState<PlanRow[]>(initialRows);
 
@@ -333,7 +341,7 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
     return () => { cancelled = true; };
   }, [initialRows, reference]);
 
-  const nightCutoffMinutes = timeToMinutes(effectiveConfig.nightCutoff || '22:00');
+  const nightWindow = React.useMemo(() => buildNightWindow(effectiveConfig), [effectiveConfig]);
   const targetValue = parseMoneyInput(targetValueInput);
   const parsedCompDays = React.useMemo(
     () => (settings.compDays || '1,2,3,4')
@@ -358,10 +366,10 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
     const d = parseISO(dateStr);
     const day = isValid(d) ? d.getDay() : 1;
     if (day === 6 && settings.saturdayCompensation) return rates['100'];
-    const isNight = minuteOfDay >= nightCutoffMinutes || minuteOfDay < 5 * 60;
+    const isNight = isNightMinute(minuteOfDay, nightWindow.startMinutes, nightWindow.endMinutes);
     if (day === 0) return isNight ? rates['125'] : rates['100'];
     return isNight ? rates['75'] : rates['50'];
-  }, [rateMode, rates, fixedRateType, settings.saturdayCompensation, nightCutoffMinutes]);
+  }, [rateMode, rates, fixedRateType, settings.saturdayCompensation, nightWindow]);
 
   const dayResults = React.useMemo<DayResult[]>(() => rows.map((row) => {
     if (!row.selected) {
@@ -376,7 +384,10 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
 
     const dateObj = parseISO(row.date);
     const dayOfWeek = isValid(dateObj) ? dateObj.getDay() : -1;
-    const { start: scheduleStart, end: scheduleEnd } = getEffectiveScheduleForDay(dayOfWeek, baseSchedule, settings, parsedCompDays);
+    const { start: scheduleStart, end: scheduleEnd } = getEffectiveScheduleForDay(row.date, dayOfWeek, baseSchedule, settings, parsedCompDays);
+    const scheduleDay = resolveShiftScheduleDay(row.date, settings);
+    // Na escala, toda hora na folga e extra; domingo dentro do turno segue o horario como qualquer dia.
+    const isRestDay = scheduleDay ? scheduleDay.isRestDay : dayOfWeek === 0;
     const periods: Array<[string, string]> = [
       [normalizeTime(row.entry1, true), normalizeTime(row.exit1, true)],
       [normalizeTime(row.entry2, true), normalizeTime(row.exit2, true)],
@@ -412,7 +423,7 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
         continue;
       }
 
-      if (dayOfWeek !== 0 && !(dayOfWeek === 6 && settings.saturdayCompensation)) {
+      if (!isRestDay && !(dayOfWeek === 6 && settings.saturdayCompensation)) {
         const outsideSchedule = isExtraOutsideSchedule(start, end, scheduleStart, scheduleEnd);
         if (!outsideSchedule) {
           invalidInsideSchedule = true;
@@ -548,7 +559,7 @@ export default function OvertimeSimulator({ entries, settings, month }: Props) {
         continue;
       }
 
-      const effective = getEffectiveScheduleForDay(dayOfWeek, baseSchedule, settings, parsedCompDays);
+      const effective = getEffectiveScheduleForDay(row.date, dayOfWeek, baseSchedule, settings, parsedCompDays);
       const scheduleStart = normalizeTime(effective.start, true);
       const scheduleEnd = normalizeTime(effective.end, true);
       if (!scheduleStart.includes(':') || !scheduleEnd.includes(':')) continue;
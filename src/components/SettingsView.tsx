@@ -11,12 +11,18 @@ import {
 } from 'lucide-react';
 import type {
   CompanyDailyOvertimeDiscountRule,
+  CompanyDayStatusPattern,
   CompanyOvertimeRule,
   CompanyRubricMap,
   CompanySettingsProfile,
+  OvertimeLimitWindowKind,
+  PunchRoundingMode,
+  PunchRoundingPolicy,
   Settings,
 } from '../lib/calculations';
 import { buildSuggestedCompanyRubrics, buildSuggestedDailyOvertimeDiscountRules, buildSuggestedOvertimeRules } from '../lib/calculations';
+import { DAY_STATUSES, DAY_STATUS_LABELS, DEFAULT_DAY_STATUS_PATTERNS } from '../lib/dayStatus';
+import { SHIFT_SCHEDULE_KINDS, SHIFT_SCHEDULE_LABELS, type CompanyShiftSchedule, type ShiftScheduleKind } from '../lib/shiftSchedule';
 import { listGeminiModels, listOpenAIModels } from '../services/aiService';
 import { toast } from 'sonner';
 import { cn } from '../lib/utils';
@@ -51,6 +57,17 @@ function cloneCompanySettings(settings: Settings, company?: CompanySettingsProfi
       customHolidays: Array.isArray(company?.config?.customHolidays)
         ? company.config.customHolidays.map((holiday) => String(holiday))
         : [],
+      dayStatusPatterns: Array.isArray(company?.config?.dayStatusPatterns)
+        ? company.config.dayStatusPatterns.map((item) => ({ ...item }))
+        : [],
+      shiftSchedule: company?.config?.shiftSchedule
+        ? {
+          ...company.config.shiftSchedule,
+          turns: (company.config.shiftSchedule.turns || []).map((turn) => ({ ...turn })),
+          restWeekdays: company.config.shiftSchedule.restWeekdays?.slice(),
+        }
+        : undefined,
+      punchRounding: company?.config?.punchRounding ? { ...company.config.punchRounding } : undefined,
       overtimeRules: Array.isArray(company?.config?.overtimeRules)
         ? company.config.overtimeRules.map((rule) => ({ ...rule }))
         : suggestedRules,
@@ -69,6 +86,7 @@ export default function SettingsView({ settings, onSave }: Props) {
     { value: '4', label: 'Qui' },
     { value: '5', label: 'Sex' },
   ] as const;
+  const scheduleWeekdays = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sab'] as const;
   const [activeTab, setActiveTab] = useState<TabId>('funcionario');
   const [localSettings, setLocalSettings] = React.useState(settings);
   const [geminiModels, setGeminiModels] = useState<{ id: string; name: string }[]>([]);
@@ -242,6 +260,39 @@ export default function SettingsView({ settings, onSave }: Props) {
     }));
   }, [updateCompanySettings]);
 
+  const updateDayStatusPatterns = React.useCallback((updater: (patterns: CompanyDayStatusPattern[]) => CompanyDayStatusPattern[]) => {
+    updateCompanySettings((current) => ({
+      ...current,
+      config: {
+        ...current.config,
+        dayStatusPatterns: updater((current.config.dayStatusPatterns || []).map((item) => ({ ...item }))),
+      },
+    }));
+  }, [updateCompanySettings]);
+
+  const updateShiftSchedule = React.useCallback((updater: (schedule: CompanyShiftSchedule) => CompanyShiftSchedule) => {
+    updateCompanySettings((current) => {
+      const schedule = current.config.shiftSchedule || { kind: 'fixed' as ShiftScheduleKind, turns: [] };
+      return {
+        ...current,
+        config: {
+          ...current.config,
+          shiftSchedule: updater({ ...schedule, turns: schedule.turns.map((turn) => ({ ...turn })) }),
+        },
+      };
+    });
+  }, [updateCompanySettings]);
+
+  const updatePunchRounding = React.useCallback((patch: Partial<PunchRoundingPolicy>) => {
+    updateCompanySettings((current) => ({
+      ...current,
+      config: {
+        ...current.config,
+        punchRounding: { mode: 'off', intervalMinutes: 5, ...current.config.punchRounding, ...patch },
+      },
+    }));
+  }, [updateCompanySettings]);
+
   const handleRubricChange = React.useCallback((rubricKey: string, field: 'code' | 'label', value: string) => {
     updateCompanySettings((current) => ({
       ...current,
@@ -391,6 +442,7 @@ export default function SettingsView({ settings, onSave }: Props) {
   }, [closeRuleEditor, editingRuleId, ruleDraft, updateCompanySettings]);
 
   const companySettings = cloneCompanySettings(localSettings, localSettings.companySettings);
+  const shiftSchedule = companySettings.config.shiftSchedule;
   const overtimeRules = companySettings.config.overtimeRules || [];
   const discountRules = (companySettings.config.dailyOvertimeDiscountRules || []).slice().sort((a, b) => Number(a.priority || 0) - Number(b.priority || 0));
   const rubricEntries = Object.entries(companySettings.rubrics || {});
@@ -669,6 +721,17 @@ export default function SettingsView({ settings, onSave }: Props) {
                   <label className="text-sm font-semibold text-zinc-700">Jornada Diaria (horas)</label>
                   <input type="number" value={companySettings.config.dailyJourney ?? localSettings.dailyJourney} onChange={(e) => handleCompanyConfigChange('dailyJourney', Number(e.target.value))} className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500" />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-semibold text-zinc-700">Contrato (FGTS)</label>
+                  <select
+                    value={localSettings.jovemAprendiz ? 'aprendiz' : 'clt'}
+                    onChange={(e) => handleChange('jovemAprendiz', e.target.value === 'aprendiz' ? 1 : 0)}
+                    className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="clt">CLT (8%)</option>
+                    <option value="aprendiz">Jovem aprendiz (2%)</option>
+                  </select>
+                </div>
               </div>
 
               <h4 className="text-xs font-black uppercase tracking-widest text-zinc-500">Jornada Padrao</h4>
@@ -804,12 +867,91 @@ export default function SettingsView({ settings, onSave }: Props) {
                   <label className="text-xs font-bold uppercase text-zinc-500">Inicio adicional noturno</label>
                   <input type="text" value={companySettings.config.nightCutoff ?? localSettings.nightCutoff ?? ''} onChange={(e) => handleCompanyConfigChange('nightCutoff', e.target.value)} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="Ex: 22:00" />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Fim adicional noturno</label>
+                  <input type="text" value={companySettings.config.nightEnd ?? ''} onChange={(e) => handleCompanyConfigChange('nightEnd', e.target.value)} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="Ex: 05:00 (rural: 05:00 ou 04:00)" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Hora noturna (min)</label>
+                  <input type="number" min="1" step="0.5" value={companySettings.config.nightHourMinutes ?? ''} onChange={(e) => handleCompanyConfigChange('nightHourMinutes', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="52.5 (60 = sem hora reduzida)" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Prorrogacao noturna</label>
+                  <select value={companySettings.config.nightExtensionMode || 'off'} onChange={(e) => handleCompanyConfigChange('nightExtensionMode', e.target.value)} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm">
+                    <option value="off">Nao aplicar</option>
+                    <option value="fullWindow">Jornada noturna integral (Sum. 60)</option>
+                    <option value="partialWindow">Qualquer jornada noturna prorrogada</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Interjornada minima (h)</label>
+                  <input type="number" min="0" step="0.5" value={companySettings.config.interjornadaMinimumHours ?? ''} onChange={(e) => handleCompanyConfigChange('interjornadaMinimumHours', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="11" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Interjornada (%)</label>
+                  <input type="number" value={companySettings.config.interjornadaPercent ?? ''} onChange={(e) => handleCompanyConfigChange('interjornadaPercent', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="Igual HE 50" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Intervalo exigido acima de (h)</label>
+                  <input type="number" min="0" step="0.5" value={companySettings.config.intrajornadaThresholdHours ?? ''} onChange={(e) => handleCompanyConfigChange('intrajornadaThresholdHours', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="6" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Intervalo minimo (min)</label>
+                  <input type="number" min="0" value={companySettings.config.intrajornadaMinimumMinutes ?? ''} onChange={(e) => handleCompanyConfigChange('intrajornadaMinimumMinutes', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="60" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Intrajornada (%)</label>
+                  <input type="number" value={companySettings.config.intrajornadaPercent ?? ''} onChange={(e) => handleCompanyConfigChange('intrajornadaPercent', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="Igual HE 50" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Tolerancia por marcacao (min)</label>
+                  <input type="number" min="0" value={companySettings.config.markingToleranceMinutes ?? ''} onChange={(e) => handleCompanyConfigChange('markingToleranceMinutes', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="5 (art. 58 §1)" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Tolerancia diaria (min)</label>
+                  <input type="number" min="0" value={companySettings.config.dailyMarkingToleranceMinutes ?? ''} onChange={(e) => handleCompanyConfigChange('dailyMarkingToleranceMinutes', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder="10" />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Arredondamento do ponto</label>
+                  <select value={companySettings.config.punchRounding?.mode || 'off'} onChange={(e) => updatePunchRounding({ mode: e.target.value as PunchRoundingMode })} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm">
+                    <option value="off">Sem arredondamento</option>
+                    <option value="nearest">Ao intervalo mais proximo</option>
+                    <option value="entryUpExitDown">Entrada para cima, saida para baixo</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Intervalo de arredondamento</label>
+                  <select value={String(companySettings.config.punchRounding?.intervalMinutes ?? 5)} onChange={(e) => updatePunchRounding({ intervalMinutes: Number(e.target.value) })} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm">
+                    <option value="5">5 min</option>
+                    <option value="10">10 min</option>
+                    <option value="15">15 min</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Acordo banco de horas</label>
+                  <select value={companySettings.config.hourBankAgreement || 'individual'} onChange={(e) => handleCompanyConfigChange('hourBankAgreement', e.target.value)} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm">
+                    <option value="individual">Individual (6 meses)</option>
+                    <option value="coletivo">Coletivo (12 meses)</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Validade banco (meses)</label>
+                  <input type="number" min="0" value={companySettings.config.hourBankExpiryMonths ?? ''} onChange={(e) => handleCompanyConfigChange('hourBankExpiryMonths', Number(e.target.value))} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm" placeholder={companySettings.config.hourBankAgreement === 'coletivo' ? '12' : '6'} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase text-zinc-500">Autorizacao de HE</label>
+                  <select value={companySettings.config.overtimeAuthorizationPolicy || 'payAll'} onChange={(e) => handleCompanyConfigChange('overtimeAuthorizationPolicy', e.target.value)} className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm">
+                    <option value="payAll">Paga toda HE do cartao extra</option>
+                    <option value="authorizedOnly">So paga HE autorizada (resto vai ao banco)</option>
+                  </select>
+                </div>
               </div>
 
               <div className="space-y-3 rounded-[2rem] border border-zinc-100 bg-zinc-50/50 p-6">
                 <div>
                   <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">Feriados do DSR</h3>
                   <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Use MM-DD ou YYYY-MM-DD. Ponto facultativo nao deve entrar aqui.</p>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Trabalho nessas datas segue as regras de HE do tipo feriado.</p>
                 </div>
                 <textarea
                   value={(companySettings.config.customHolidays || []).join('\n')}
@@ -819,6 +961,241 @@ export default function SettingsView({ settings, onSave }: Props) {
                 />
               </div>
 
+              <div className="space-y-4 rounded-[2rem] border border-zinc-100 bg-zinc-50/50 p-6">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">Situacao do dia</h3>
+                    <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Texto da anotacao que define falta, atestado, ferias, banco etc. O primeiro padrao encontrado vale.</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => updateDayStatusPatterns((patterns) => [...patterns, { pattern: '', status: 'falta' }])}
+                    className="inline-flex items-center gap-2 rounded-xl bg-zinc-900 px-4 py-2 text-xs font-bold text-white"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Novo padrao
+                  </button>
+                </div>
+
+                {(companySettings.config.dayStatusPatterns || []).map((item, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] items-end gap-3 rounded-2xl border border-zinc-200 bg-white p-4">
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold uppercase text-zinc-500">Texto contem</label>
+                      <input
+                        type="text"
+                        value={item.pattern}
+                        onChange={(e) => updateDayStatusPatterns((patterns) => patterns.map((current, currentIndex) => (
+                          currentIndex === index ? { ...current, pattern: e.target.value } : current
+                        )))}
+                        className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                        placeholder="Ex: LIC MEDICA"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold uppercase text-zinc-500">Situacao</label>
+                      <select
+                        value={item.status}
+                        onChange={(e) => updateDayStatusPatterns((patterns) => patterns.map((current, currentIndex) => (
+                          currentIndex === index ? { ...current, status: e.target.value as CompanyDayStatusPattern['status'] } : current
+                        )))}
+                        className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                      >
+                        {DAY_STATUSES.map((status) => (
+                          <option key={status} value={status}>{DAY_STATUS_LABELS[status]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => updateDayStatusPatterns((patterns) => patterns.filter((_, currentIndex) => currentIndex !== index))}
+                      className="rounded-lg border border-zinc-200 p-2 text-zinc-500 hover:text-red-600"
+                      aria-label="Remover padrao"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+
+                <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+                  Padroes do sistema: {DEFAULT_DAY_STATUS_PATTERNS.map((item) => `${item.pattern} = ${DAY_STATUS_LABELS[item.status]}`).join(' | ')}
+                </p>
+              </div>
+
+              <div className="space-y-4 rounded-[2rem] border border-zinc-100 bg-zinc-50/50 p-6">
+                <div>
+                  <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">Escala de trabalho</h3>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">Define jornada, entrada prevista e folgas de cada data. No horario fixo valem os horarios do funcionario.</p>
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <label className="text-xs font-bold uppercase text-zinc-500">Tipo de escala</label>
+                    <select
+                      value={shiftSchedule?.kind || 'fixed'}
+                      onChange={(e) => updateShiftSchedule((schedule) => ({
+                        ...schedule,
+                        kind: e.target.value as ShiftScheduleKind,
+                        turns: schedule.turns.length > 0
+                          ? schedule.turns
+                          : [{ start: localSettings.workStart || '08:00', end: localSettings.workEnd || '17:00', breakMinutes: 60 }],
+                      }))}
+                      className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                    >
+                      {SHIFT_SCHEDULE_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>{SHIFT_SCHEDULE_LABELS[kind]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {shiftSchedule && shiftSchedule.kind !== 'fixed' && (
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold uppercase text-zinc-500">
+                        {shiftSchedule.kind === '12x36' ? 'Um dia trabalhado' : 'Inicio do ciclo'}
+                      </label>
+                      <input
+                        type="date"
+                        value={shiftSchedule.anchorDate || ''}
+                        onChange={(e) => updateShiftSchedule((schedule) => ({ ...schedule, anchorDate: e.target.value }))}
+                        className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                      />
+                    </div>
+                  )}
+                  {shiftSchedule?.kind === 'rotating' && (
+                    <div className="space-y-2">
+                      <label className="text-xs font-bold uppercase text-zinc-500">Dias em cada turno</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={shiftSchedule.rotationDays ?? ''}
+                        onChange={(e) => updateShiftSchedule((schedule) => ({ ...schedule, rotationDays: Number(e.target.value) }))}
+                        className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                        placeholder="7"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {shiftSchedule && shiftSchedule.kind !== 'fixed' && shiftSchedule.kind !== '12x36' && (
+                  <div className="space-y-3">
+                    <label className="text-xs font-bold uppercase text-zinc-500">
+                      {shiftSchedule.kind === '6x1' ? 'Folga semanal (gira uma posicao por semana)' : 'Dias de folga'}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {scheduleWeekdays.map((label, weekday) => {
+                        const active = (shiftSchedule.restWeekdays || []).includes(weekday);
+                        return (
+                          <button
+                            key={label}
+                            type="button"
+                            onClick={() => updateShiftSchedule((schedule) => {
+                              const current = schedule.restWeekdays || [];
+                              return {
+                                ...schedule,
+                                restWeekdays: current.includes(weekday)
+                                  ? current.filter((day) => day !== weekday)
+                                  : [...current, weekday],
+                              };
+                            })}
+                            className={cn(
+                              'rounded-xl border px-4 py-2 text-xs font-bold transition-colors',
+                              active ? 'border-zinc-900 bg-zinc-900 text-white' : 'border-zinc-200 bg-white text-zinc-600 hover:bg-zinc-50'
+                            )}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {shiftSchedule && shiftSchedule.kind !== 'fixed' && (
+                  <div className="space-y-3">
+                    {shiftSchedule.turns.map((turn, index) => (
+                      <div key={index} className="grid grid-cols-2 items-end gap-3 rounded-2xl border border-zinc-200 bg-white p-4 md:grid-cols-[1fr_1fr_1fr_1fr_auto]">
+                        <div className="space-y-2">
+                          <label className="text-xs font-bold uppercase text-zinc-500">Turno</label>
+                          <input
+                            type="text"
+                            value={turn.label || ''}
+                            onChange={(e) => updateShiftSchedule((schedule) => ({
+                              ...schedule,
+                              turns: schedule.turns.map((current, currentIndex) => (currentIndex === index ? { ...current, label: e.target.value } : current)),
+                            }))}
+                            className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                            placeholder={`Turno ${index + 1}`}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-xs font-bold uppercase text-zinc-500">Entrada</label>
+                          <input
+                            type="text"
+                            value={turn.start}
+                            onChange={(e) => updateShiftSchedule((schedule) => ({
+                              ...schedule,
+                              turns: schedule.turns.map((current, currentIndex) => (currentIndex === index ? { ...current, start: e.target.value } : current)),
+                            }))}
+                            className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                            placeholder="Ex: 07:00"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-xs font-bold uppercase text-zinc-500">Saida</label>
+                          <input
+                            type="text"
+                            value={turn.end}
+                            onChange={(e) => updateShiftSchedule((schedule) => ({
+                              ...schedule,
+                              turns: schedule.turns.map((current, currentIndex) => (currentIndex === index ? { ...current, end: e.target.value } : current)),
+                            }))}
+                            className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                            placeholder="Ex: 19:00"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-xs font-bold uppercase text-zinc-500">Intervalo (min)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={turn.breakMinutes ?? ''}
+                            onChange={(e) => updateShiftSchedule((schedule) => ({
+                              ...schedule,
+                              turns: schedule.turns.map((current, currentIndex) => (currentIndex === index ? { ...current, breakMinutes: Number(e.target.value) } : current)),
+                            }))}
+                            className="w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm"
+                            placeholder="60"
+                          />
+                        </div>
+                        <button
+                          type="button"
+                          disabled={shiftSchedule.turns.length <= 1}
+                          onClick={() => updateShiftSchedule((schedule) => ({
+                            ...schedule,
+                            turns: schedule.turns.filter((_, currentIndex) => currentIndex !== index),
+                          }))}
+                          className="rounded-lg border border-zinc-200 p-2 text-zinc-500 hover:text-red-600 disabled:opacity-40"
+                          aria-label="Remover turno"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    {shiftSchedule.kind === 'rotating' && (
+                      <button
+                        type="button"
+                        onClick={() => updateShiftSchedule((schedule) => ({
+                          ...schedule,
+                          turns: [...schedule.turns, { start: '', end: '', breakMinutes: 60 }],
+                        }))}
+                        className="inline-flex items-center gap-2 rounded-xl bg-zinc-900 px-4 py-2 text-xs font-bold text-white"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Novo turno
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-4 rounded-[2rem] border border-zinc-100 bg-zinc-50/50 p-6">
                 <div>
                   <div>
@@ -1098,6 +1475,19 @@ export default function SettingsView({ settings, onSave }: Props) {
                 />
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Conversao no banco (x)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={ruleDraft.bankMultiplier ?? ''}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, bankMultiplier: e.target.value ? Number(e.target.value) : undefined }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder="Ex: 2 (vazio = 1)"
+                />
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-zinc-700">Prioridade</label>
                 <input
@@ -1129,12 +1519,38 @@ export default function SettingsView({ settings, onSave }: Props) {
                   onChange={(e) => setRuleDraft((prev) => ({ ...prev, dayType: e.target.value as typeof prev.dayType }))}
                   className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
                 >
-                  <option value="weekday">Dia util / sabado</option>
-                  <option value="sunday">Domingo / feriado</option>
+                  <option value="weekday">Dia util</option>
+                  <option value="saturday">Sabado trabalhado</option>
+                  <option value="compensatedSaturday">Sabado compensado</option>
+                  <option value="sunday">Domingo</option>
+                  <option value="holiday">Feriado</option>
                   <option value="any">Qualquer</option>
                 </select>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Grupo limite diario</label>
+                <input
+                  type="text"
+                  value={ruleDraft.dailyLimitGroup || ''}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, dailyLimitGroup: e.target.value || undefined }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder="Ex: first-hours"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Limite diario (min)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={ruleDraft.dailyLimitMinutes ?? ''}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, dailyLimitMinutes: e.target.value ? Number(e.target.value) : undefined }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder="Ex: 120"
+                />
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-zinc-700">Grupo limite semanal</label>
                 <input
@@ -1181,6 +1597,54 @@ export default function SettingsView({ settings, onSave }: Props) {
                 />
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Grupo limite acumulado</label>
+                <input
+                  type="text"
+                  value={ruleDraft.cumulativeLimitGroup || ''}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, cumulativeLimitGroup: e.target.value || undefined }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder="Ex: he50-semestre"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Limite acumulado (min)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={ruleDraft.cumulativeLimitMinutes ?? ''}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, cumulativeLimitMinutes: e.target.value ? Number(e.target.value) : undefined }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder="Ex: 7200"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Janela do limite acumulado</label>
+                <select
+                  value={ruleDraft.cumulativeWindowKind || 'calendar'}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, cumulativeWindowKind: e.target.value as OvertimeLimitWindowKind }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  <option value="calendar">Calendario (semestre, ano)</option>
+                  <option value="rolling">Movel (ultimas competencias)</option>
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-zinc-700">Meses da janela</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="24"
+                  value={ruleDraft.cumulativeWindowMonths ?? ''}
+                  onChange={(e) => setRuleDraft((prev) => ({ ...prev, cumulativeWindowMonths: e.target.value ? Number(e.target.value) : undefined }))}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+                  placeholder="Ex: 6"
+                />
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-zinc-700">Status</label>
                 <select
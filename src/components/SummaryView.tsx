@@ -6,16 +6,20 @@ import { ptBR } from 'date-fns/locale';
 import {
   analyzeDailyOvertimePreview,
   calculateOvertime,
+  groupOvertimeTraceSlices,
+  minutesToTime,
   normalizeOvernightEntries,
-  resolveDailyShortfallMinutes,
-  resolveDailyJourneyMinutes,
   resolveEffectiveCalculationConfig,
+  roundEntryPunches,
   sumEntryWorkedMinutes,
+  type OvertimeLimitUsage,
+  type OvertimeTraceDay,
   type Settings,
   type TimeEntry
 } from '../lib/calculations';
 import { formatCurrency, cn, formatMinutesAsHoursClock } from '../lib/utils';
-import { calcularHoleriteCompleto } from '../lib/payroll';
+import { calcularHoleriteCompleto, detalharMinutosAtraso, detectarFaltasInjustificadas } from '../lib/payroll';
+import { resolveScheduledJourneyMinutes } from '../lib/shiftSchedule';
 import DualCardView from './DualCardView';
 import OvertimeSimulator from './OvertimeSimulator';
 
@@ -28,6 +32,8 @@ interface Props {
   onSaveEntries: (entries: TimeEntry[]) => void;
   onUploadClick?: (isOvertime: boolean) => void;
   disableSave?: boolean;
+  hourBankExpiredMinutes?: number;
+  priorLimitUsage?: OvertimeLimitUsage[];
 }
 
 const WEEKDAY_ABBR = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sab'] as const;
@@ -42,9 +48,89 @@ function formatRubricBadge(code?: string, label?: string): string {
   return 'Rubrica nao configurada';
 }
 
-export default function SummaryView({ entries, normalEntries, overtimeEntries, settings, month, onSaveEntries, onUploadClick, disableSave }: Props) {
+const TRACE_DAY_TYPE_LABELS: Record<OvertimeTraceDay['dayType'], string> = {
+  weekday: 'Dia util',
+  saturday: 'Sabado trabalhado',
+  compensatedSaturday: 'Sabado compensado',
+  sunday: 'Domingo',
+  holiday: 'Feriado',
+};
+
+function formatTraceCapacity(capacity: { group: string; remainingBefore: number; remainingAfter: number } | null): string {
+  if (!capacity) return 'sem limite';
+  return `${capacity.group}: ${formatMinutesAsHoursClock(capacity.remainingBefore)} → ${formatMinutesAsHoursClock(capacity.remainingAfter)}`;
+}
+
+function OvertimeTracePanel({ trace }: { trace: OvertimeTraceDay }) {
+  const runs = groupOvertimeTraceSlices(trace.slices);
+  return (
+    <div className="rounded-2xl border border-zinc-100 bg-zinc-50/60 p-4 space-y-3">
+      <div className="flex flex-wrap gap-2 text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+        <span className="px-2 py-0.5 rounded-md bg-white border border-zinc-200">Tipo de dia: {TRACE_DAY_TYPE_LABELS[trace.dayType]}</span>
+        {trace.ruleDayType !== trace.dayType && (
+          <span className="px-2 py-0.5 rounded-md bg-white border border-zinc-200">Regras de: {TRACE_DAY_TYPE_LABELS[trace.ruleDayType]}</span>
+        )}
+        <span className="px-2 py-0.5 rounded-md bg-white border border-zinc-200">Jornada: {formatMinutesAsHoursClock(trace.dailyJourneyMinutes)}</span>
+        <span className="px-2 py-0.5 rounded-md bg-white border border-zinc-200">Extra bruta: {formatMinutesAsHoursClock(trace.rawOvertimeRealMinutes)}</span>
+        {trace.toleranceRealMinutes > 0 && (
+          <span className="px-2 py-0.5 rounded-md bg-sky-50 border border-sky-200 text-sky-700">
+            Tolerancia art. 58: {trace.toleranceRealMinutes} min
+          </span>
+        )}
+        {trace.discount && (
+          <span className="px-2 py-0.5 rounded-md bg-red-50 border border-red-200 text-red-600">
+            Desconto {trace.discount.rubricKey}: {formatMinutesAsHoursClock(trace.discount.minutes)} ({formatCurrency(trace.discount.amount)})
+          </span>
+        )}
+      </div>
+      {runs.length === 0 ? (
+        <div className="text-xs font-medium text-zinc-500">Nenhum minuto pago em rubrica neste dia.</div>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left">
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Horario</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Periodo</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Destino</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest text-right">Min. reais / fin.</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Saldo diario</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Saldo semanal</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Saldo mensal</th>
+              <th className="pb-2 text-[9px] font-black text-zinc-400 uppercase tracking-widest">Saldo acumulado</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100">
+            {runs.map((run, index) => (
+              <tr key={`${run.startMinuteOfDay}-${index}`} className="text-xs text-zinc-600">
+                <td className="py-2 font-bold text-zinc-900">{minutesToTime(run.startMinuteOfDay)} - {minutesToTime((run.endMinuteOfDay + 1) % (24 * 60))}</td>
+                <td className="py-2">{run.isNight ? 'Noturno' : 'Diurno'}</td>
+                <td className="py-2">
+                  {run.outcome === 'tolerance'
+                    ? <span className="font-bold text-sky-700">Tolerancia (art. 58 §1)</span>
+                    : run.outcome === 'discount'
+                      ? <span className="font-bold text-red-600">Desconto diario</span>
+                      : run.outcome === 'unmatched'
+                        ? <span className="font-bold text-amber-600">Sem regra aplicavel</span>
+                        : run.allocations.map((allocation) => `${allocation.rubricKey} (${allocation.ruleLabel})`).join(' + ')}
+                </td>
+                <td className="py-2 text-right">{run.realMinutes} / {run.financialMinutes.toFixed(1)}</td>
+                <td className="py-2">{run.allocations.map((allocation) => formatTraceCapacity(allocation.daily)).join(' | ') || '-'}</td>
+                <td className="py-2">{run.allocations.map((allocation) => formatTraceCapacity(allocation.weekly)).join(' | ') || '-'}</td>
+                <td className="py-2">{run.allocations.map((allocation) => formatTraceCapacity(allocation.monthly)).join(' | ') || '-'}</td>
+                <td className="py-2">{run.allocations.map((allocation) => formatTraceCapacity(allocation.cumulative)).join(' | ') || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function SummaryView({ entries, normalEntries, overtimeEntries, settings, month, onSaveEntries, onUploadClick, disableSave, hourBankExpiredMinutes = 0, priorLimitUsage }: Props) {
   const [activeView, setActiveView] = React.useState<'financeiro' | 'extras' | 'simulador' | 'lancamentos'>('financeiro');
   const [showDetails, setShowDetails] = React.useState(false);
+  const [expandedTraceEntryId, setExpandedTraceEntryId] = React.useState<string | null>(null);
   const cardEntries = React.useMemo(() => [...(normalEntries || []), ...(overtimeEntries || [])], [normalEntries, overtimeEntries]);
   const rubrics = settings.companySettings?.rubrics;
   const effectiveConfig = React.useMemo(() => resolveEffectiveCalculationConfig(settings), [settings]);
@@ -56,14 +142,21 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
       const effectiveEntries = normalizeOvernightEntries(entries);
       const effectiveNormalEntries = normalizeOvernightEntries(normalEntries ?? effectiveEntries.filter((entry) => !entry.isOvertimeCard));
       // 1) Calcula horas extras base (jornada, domingo, adicional noturno)
-      const res = calculateOvertime(effectiveEntries, settings);
+      const res = calculateOvertime(effectiveEntries, settings, { trace: true, competencia: month, priorLimitUsage });
       if (!res) return null;
+      const traceByEntryId = new Map((res.trace || []).map((traceDay) => [traceDay.entryId, traceDay]));
 
       // Extra: mapear detalhes dia a dia para a aba de HE
       const dailyDetails: any[] = [];
       
-      // 2) Calcula descontos de atraso/falta (baseado no dailyJourney)
-      let totalAtrasoMinutes = 0;
+      // 2) Calcula descontos de atraso/falta (baseado no dailyJourney e na situacao do dia)
+      // Dias sem marcacao viram falta injustificada (dia + DSR da semana) e saem do atraso.
+      const faltasInjustificadas = detectarFaltasInjustificadas(effectiveEntries, settings, res.holidayDates);
+      const diasFalta = faltasInjustificadas.flatMap((semana) => semana.faltas);
+      const atrasoDetalhado = detalharMinutosAtraso(effectiveEntries, settings, res.holidayDates, diasFalta);
+      const totalAtrasoMinutes = atrasoDetalhado.atrasoMinutes;
+      const totalSaidaAntecipadaMinutes = atrasoDetalhado.saidaAntecipadaMinutes;
+      const holidayDates = new Set(res.holidayDates);
       effectiveEntries.forEach(entry => {
         // Ignora se for cartão de apenas extras ou se não houver registros
         const isOvertimeCard = !!entry.isOvertimeCard;
@@ -71,29 +164,13 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
         const date = parseISO(entry.date);
         if (!isValid(date)) return;
         const isSunday = date.getDay() === 0;
+        const isHoliday = holidayDates.has(entry.date);
 
-        const dailyMinutes = sumEntryWorkedMinutes(entry);
-        const journeyMin = resolveDailyJourneyMinutes(
-          effectiveConfig.dailyJourney,
-          isOvertimeCard,
-          date.getDay(),
-          !!settings.saturdayCompensation,
-          settings.compDays
-        );
+        const dailyMinutes = sumEntryWorkedMinutes(roundEntryPunches(entry, settings));
+        const journeyMin = resolveScheduledJourneyMinutes(entry.date, isOvertimeCard, settings);
         
-        if (!isOvertimeCard && !isSunday) {
-          if (entry.isDPAnnotation) return;
-          totalAtrasoMinutes += resolveDailyShortfallMinutes(entry, {
-            dailyJourneyHours: effectiveConfig.dailyJourney,
-            isOvertimeCardEntry: false,
-            dayOfWeek: date.getDay(),
-            saturdayCompensation: !!settings.saturdayCompensation,
-            compDaysRaw: settings.compDays,
-          });
-        }
-
         // Armazenar para o gráfico/lista de HE detalhado
-        if ((dailyMinutes > 0 || isSunday) && isOvertimeCard) {
+        if ((dailyMinutes > 0 || isSunday || isHoliday) && isOvertimeCard) {
            const overtimePreview = analyzeDailyOvertimePreview(entry, settings);
            dailyDetails.push({
              date: entry.date,
@@ -103,6 +180,8 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
              overtimeMinutes: overtimePreview.dayOvertimeMinutes,
              discountMinutes: overtimePreview.discountRealMinutes,
              isSunday,
+             isHoliday,
+             trace: traceByEntryId.get(entry.id),
              entry
            });
         }
@@ -110,6 +189,7 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
 
       const valorHora = (settings.baseSalary || 0) / (settings.monthlyHours || 1);
       const totalAtrasoValue = (totalAtrasoMinutes / 60) * valorHora;
+      const totalSaidaAntecipadaValue = (totalSaidaAntecipadaMinutes / 60) * valorHora;
 
       // 3) Calcula Holerite Completo (INSS, IRRF, DSR, etc)
       const selectedRef = month && /^\d{4}-\d{2}$/.test(month) ? month : null;
@@ -143,28 +223,44 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
         mes: payrollMonth,
         ano: payrollYear,
         atraso: totalAtrasoValue,
+        saidaAntecipada: totalSaidaAntecipadaValue,
+        faltasInjustificadas,
         dependentes: settings.dependentes || 0,
+        jovemAprendiz: !!settings.jovemAprendiz,
         adiantamentoPercent: settings.adiantamentoPercent || 45,
         adiantamentoPago: settings.adiantamentoIR ? { bruto: 0, irRetido: settings.adiantamentoIR } : null,
         cycleStartDay: effectiveConfig.cycleStartDay || 15,
         rubrics: settings.companySettings?.rubrics,
         companyConfig: settings.companySettings?.config,
         normalEntries: effectiveNormalEntries,
+        bancoHorasVencidoMinutos: hourBankExpiredMinutes,
         overtimeBuckets: res.overtimeBuckets,
         discountBuckets: res.discountBuckets,
+        onCallBuckets: res.onCallBuckets,
       });
 
-      return { ...res, payroll, totalAtrasoValue, totalAtrasoMinutes, dailyDetails };
+      return {
+        ...res,
+        payroll,
+        totalAtrasoValue,
+        totalAtrasoMinutes,
+        totalSaidaAntecipadaMinutes,
+        diasSaidaAntecipada: atrasoDetalhado.diasSaidaAntecipada,
+        faltasInjustificadas,
+        dailyDetails,
+      };
     } catch (err) {
       console.error("Error in Summary calculations", err);
       return null;
     }
-  }, [entries, normalEntries, settings, month, effectiveConfig]);
+  }, [entries, normalEntries, settings, month, effectiveConfig, hourBankExpiredMinutes, priorLimitUsage]);
 
   const bancoHorasHours = React.useMemo(() => {
     if (!results) return '0h00';
     const m = (results as any).grandTotalBancoHoras || 0;
-    return formatMinutesAsHoursClock(m);
+    const weighted = (results as any).grandTotalWeightedBancoHoras ?? m;
+    if (Math.round(weighted) === Math.round(m)) return formatMinutesAsHoursClock(m);
+    return `${formatMinutesAsHoursClock(weighted)} (${formatMinutesAsHoursClock(m)} trabalhadas)`;
   }, [results]);
 
   if (!results) {
@@ -320,10 +416,19 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
               <div className="flex justify-between items-center p-3 bg-red-50 rounded-xl">
                 <span className="text-xs font-bold text-red-500 uppercase flex items-center gap-1">
                   <AlertTriangle className="w-3 h-3" />
-                  Atrasos/Faltas
+                  Atrasos
                 </span>
                 <span className="text-lg font-black text-red-600">{formatMinutesAsHoursClock(results.totalAtrasoMinutes)}</span>
               </div>
+              {results.totalSaidaAntecipadaMinutes > 0 && (
+                <div className="flex justify-between items-center p-3 bg-red-50 rounded-xl">
+                  <span className="text-xs font-bold text-red-500 uppercase flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    Saidas Antecipadas
+                  </span>
+                  <span className="text-lg font-black text-red-600">{formatMinutesAsHoursClock(results.totalSaidaAntecipadaMinutes)}</span>
+                </div>
+              )}
             </div>
           </div>
           <button 
@@ -391,15 +496,64 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
                 <span className="font-bold text-rose-500">-{formatCurrency(payroll.valores.irRetidoNoFechamento)}</span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm text-zinc-500 font-medium italic">Atrasos / Faltas</span>
+                <span className="text-sm text-zinc-500 font-medium italic">Atrasos</span>
                 <span className="font-bold text-rose-500">-{formatCurrency(results.totalAtrasoValue)}</span>
               </div>
               {payroll.valores.descontoDSRAtraso > 0 && (
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-zinc-500 font-medium italic">DSR s/ Atrasos / Faltas</span>
+                  <span className="text-sm text-zinc-500 font-medium italic">DSR s/ Atrasos</span>
                   <span className="font-bold text-rose-500">-{formatCurrency(payroll.valores.descontoDSRAtraso)}</span>
                 </div>
               )}
+              {payroll.valores.saidaAntecipada > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-zinc-500 font-medium italic">Saidas antecipadas</span>
+                  <span className="font-bold text-rose-500">-{formatCurrency(payroll.valores.saidaAntecipada)}</span>
+                </div>
+              )}
+              {payroll.valores.descontoDSRSaidaAntecipada > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-zinc-500 font-medium italic">DSR s/ Saidas antecipadas</span>
+                  <span className="font-bold text-rose-500">-{formatCurrency(payroll.valores.descontoDSRSaidaAntecipada)}</span>
+                </div>
+              )}
+              {results.diasSaidaAntecipada.length > 0 && (
+                <div className="space-y-1 rounded-xl bg-rose-50 p-3 text-[11px] text-rose-700">
+                  <div className="font-bold uppercase">Dias com saida antecipada</div>
+                  {results.diasSaidaAntecipada.map((dia) => (
+                    <div key={dia.date} className="flex justify-between gap-2">
+                      <span>{format(parseISO(dia.date), 'dd/MM (EEE)', { locale: ptBR })}</span>
+                      <span>{formatMinutesAsHoursClock(dia.minutes)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {payroll.valores.faltas > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-zinc-500 font-medium italic">Faltas injustificadas ({payroll.valores.diasFalta} dia(s))</span>
+                  <span className="font-bold text-rose-500">-{formatCurrency(payroll.valores.faltas)}</span>
+                </div>
+              )}
+              {payroll.valores.descontoDSRFaltas > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-zinc-500 font-medium italic">DSR perdido por faltas ({payroll.valores.descansosPerdidosFalta} dia(s))</span>
+                  <span className="font-bold text-rose-500">-{formatCurrency(payroll.valores.descontoDSRFaltas)}</span>
+                </div>
+              )}
+              {results.faltasInjustificadas.length > 0 && (
+                <div className="space-y-1 rounded-xl bg-rose-50 p-3 text-[11px] text-rose-700">
+                  <div className="font-bold uppercase">Semanas com falta</div>
+                  {results.faltasInjustificadas.map((semana) => (
+                    <div key={semana.weekStart} className="flex justify-between gap-2">
+                      <span>{format(parseISO(semana.weekStart), 'dd/MM')} a {format(parseISO(semana.weekEnd), 'dd/MM')}</span>
+                      <span>
+                        Faltas: {semana.faltas.map((dia) => format(parseISO(dia), 'dd/MM')).join(', ')}
+                        {' | '}DSR: {semana.descansosPerdidos.map((dia) => format(parseISO(dia), 'dd/MM')).join(', ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-zinc-500 font-medium">Adiantamento Bruto</span>
                 <span className="font-bold text-zinc-900">-{formatCurrency(payroll.valores.adiantamentoBruto)}</span>
@@ -467,6 +621,11 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
                     <div className="text-[10px] font-bold text-zinc-400 uppercase tracking-tighter">
                       {formatMinutesAsHoursClock((week as any).total50Minutes ?? hoursToMinutes(week.total50))} | {formatMinutesAsHoursClock((week as any).total100Minutes ?? hoursToMinutes(week.total100))} | {formatMinutesAsHoursClock((week as any).total125Minutes ?? hoursToMinutes(week.total125))}
                     </div>
+                    {week.unauthorizedBancoHoras > 0 && (
+                      <div className="text-[10px] font-bold text-amber-600 uppercase tracking-tighter">
+                        Sem autorizacao (banco): {formatMinutesAsHoursClock(week.unauthorizedBancoHoras)}
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -520,8 +679,18 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
             <div className="lg:col-span-3 space-y-6">
               <div className="bg-white p-5 sm:p-8 rounded-3xl md:rounded-[2rem] border border-zinc-100 shadow-sm">
                 <h3 className="text-lg font-black text-zinc-900 italic tracking-tight mb-6">Detalhamento Diário de Horas Extras</h3>
+                {results.holidayDates.length > 0 && (
+                  <div className="mb-6 flex flex-wrap items-center gap-2 rounded-2xl border border-amber-100 bg-amber-50/60 px-4 py-3">
+                    <span className="text-[10px] font-black text-amber-700 uppercase tracking-widest">Tratados como feriado:</span>
+                    {results.holidayDates.map((holiday) => (
+                      <span key={holiday} className="px-2 py-0.5 bg-white text-amber-700 text-[10px] font-bold rounded-md border border-amber-200">
+                        {format(parseISO(holiday), 'dd/MM/yyyy')}
+                      </span>
+                    ))}
+                  </div>
+                )}
                 <div className="overflow-x-auto">
-                  <table className="w-full min-w-[760px]">
+                  <table className="w-full min-w-[840px]">
                     <thead>
                       <tr className="text-left border-b border-zinc-100">
                         <th className="pb-4 text-[10px] font-black text-zinc-400 uppercase tracking-widest">Data</th>
@@ -530,6 +699,7 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
                         <th className="pb-4 text-[10px] font-black text-zinc-400 uppercase tracking-widest text-center">Jornada</th>
                         <th className="pb-4 text-[10px] font-black text-zinc-400 uppercase tracking-widest text-right">Extra (h)</th>
                         <th className="pb-4 text-[10px] font-black text-zinc-400 uppercase tracking-widest text-right">Valor Est.</th>
+                        <th className="pb-4 text-[10px] font-black text-zinc-400 uppercase tracking-widest text-right">Por quê</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-zinc-50">
@@ -542,15 +712,20 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
                         if (!day.entry?.isOvertimeCard) return null;
                         if (overtimeMin <= 0) return null;
 
+                        const isTraceOpen = !!day.trace && expandedTraceEntryId === day.entry.id;
+
                         return (
-                          <tr key={i} className="group hover:bg-zinc-50/50 transition-all">
+                          <React.Fragment key={i}>
+                          <tr className="group hover:bg-zinc-50/50 transition-all">
                             <td className="py-4">
                               <div className="font-bold text-zinc-900">{format(date, 'dd/MM/yyyy')}</div>
                               <div className="text-[10px] font-medium text-zinc-400">{WEEKDAY_ABBR[date.getDay()]}</div>
                             </td>
                             <td className="py-4 text-center">
-                              {isSunday ? (
-                                <span className="px-2 py-0.5 bg-amber-100 text-amber-700 text-[8px] font-black uppercase rounded-md border border-amber-200">DSR/Feriado</span>
+                              {day.isHoliday ? (
+                                <span className="px-2 py-0.5 bg-amber-100 text-amber-700 text-[8px] font-black uppercase rounded-md border border-amber-200">Feriado</span>
+                              ) : isSunday ? (
+                                <span className="px-2 py-0.5 bg-amber-100 text-amber-700 text-[8px] font-black uppercase rounded-md border border-amber-200">DSR/Domingo</span>
                               ) : day.entry.isOvertimeCard ? (
                                 <span className="px-2 py-0.5 bg-red-100 text-red-600 text-[8px] font-black uppercase rounded-md border border-red-200">Cartão Extras</span>
                               ) : (
@@ -564,7 +739,27 @@ export default function SummaryView({ entries, normalEntries, overtimeEntries, s
                               <div className="font-black text-emerald-600">{formatCurrency((overtimeMin / 60) * results.hourlyRate * 1.5)}*</div>
                               <div className="text-[8px] text-zinc-400 font-medium">*Base 1.5x ref.</div>
                             </td>
+                            <td className="py-4 text-right">
+                              {day.trace && (
+                                <button
+                                  type="button"
+                                  onClick={() => setExpandedTraceEntryId(isTraceOpen ? null : day.entry.id)}
+                                  className="inline-flex items-center gap-1 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[10px] font-bold text-zinc-600 hover:bg-zinc-50"
+                                >
+                                  {isTraceOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                                  {isTraceOpen ? 'Ocultar' : 'Ver'}
+                                </button>
+                              )}
+                            </td>
                           </tr>
+                          {isTraceOpen && (
+                            <tr>
+                              <td colSpan={7} className="pb-4">
+                                <OvertimeTracePanel trace={day.trace} />
+                              </td>
+                            </tr>
+                          )}
+                          </React.Fragment>
                         );
                       })}
                     </tbody>
@@ -0,0 +1,132 @@
+import React from 'react';
+import type { Settings, TimeEntry } from '../lib/calculations';
+import type { PayrollLine } from '../lib/payroll';
+import { calcularDecimoTerceiro, contarDiasTrabalhadosPorMes, type CompetenciaMedias, type DecimoTerceiroParcela } from '../lib/thirteenthSalary';
+import { formatCurrency } from '../lib/utils';
+
+interface Props {
+  // Competencias ja apuradas pelo App, cada uma com as regras gravadas no mes.
+  competencias: Array<CompetenciaMedias & { entries: TimeEntry[] }>;
+  settings: Settings;
+}
+
+function formatReference(reference: PayrollLine['reference']): string {
+  if (reference == null) return '-';
+  return typeof reference === 'number' ? reference.toFixed(2) : reference;
+}
+
+function ParcelaTable({ title, subtitle, parcela }: { title: string; subtitle: string; parcela: DecimoTerceiroParcela }) {
+  return (
+    <div className="bg-white border border-zinc-200 rounded-2xl p-6 space-y-4">
+      <div>
+        <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">{title}</h3>
+        <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">{subtitle}</p>
+      </div>
+      <table className="w-full text-sm border border-zinc-300">
+        <thead className="bg-zinc-100">
+          <tr>
+            <th className="text-left px-2 py-1">Cód.</th>
+            <th className="text-left px-2 py-1">Descrição</th>
+            <th className="text-right px-2 py-1">Ref.</th>
+            <th className="text-right px-2 py-1">Proventos</th>
+            <th className="text-right px-2 py-1">Descontos</th>
+          </tr>
+        </thead>
+        <tbody>
+          {parcela.lines.map((line) => (
+            <tr key={`${line.code}-${line.description}`} className="border-t border-zinc-200">
+              <td className="px-2 py-1">{line.code || '-'}</td>
+              <td className="px-2 py-1">{line.description}</td>
+              <td className="px-2 py-1 text-right">{formatReference(line.reference)}</td>
+              <td className="px-2 py-1 text-right font-semibold">{line.amount > 0 ? formatCurrency(line.amount) : ''}</td>
+              <td className="px-2 py-1 text-right font-semibold text-rose-700">{line.amount < 0 ? formatCurrency(Math.abs(line.amount)) : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div className="border border-zinc-300 p-3 rounded">
+          <div className="text-xs uppercase tracking-widest text-zinc-500">Total Proventos</div>
+          <div className="text-lg font-black text-emerald-700">{formatCurrency(parcela.totalProventos)}</div>
+        </div>
+        <div className="border border-zinc-300 p-3 rounded">
+          <div className="text-xs uppercase tracking-widest text-zinc-500">Total Descontos</div>
+          <div className="text-lg font-black text-rose-700">{formatCurrency(parcela.totalDescontos)}</div>
+        </div>
+        <div className="border border-zinc-900 bg-zinc-900 text-white p-3 rounded">
+          <div className="text-xs uppercase tracking-widest text-zinc-300">Líquido</div>
+          <div className="text-lg font-black">{formatCurrency(parcela.liquido)}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ThirteenthSalaryView({ competencias, settings }: Props) {
+  const years = React.useMemo(
+    () => [...new Set(competencias.map((item) => Number(item.competencia.slice(0, 4))).filter(Number.isFinite))].sort((a, b) => b - a),
+    [competencias]
+  );
+  const [selectedYear, setSelectedYear] = React.useState<number | null>(null);
+  const ano = selectedYear ?? years[0] ?? new Date().getFullYear();
+
+  const resultado = React.useMemo(() => {
+    // O mes civil cruza duas competencias quando ha virada; os dias saem de todos os cartoes lancados.
+    const diasPorMes = contarDiasTrabalhadosPorMes(competencias.flatMap((item) => item.entries), settings);
+    const doAno = competencias
+      .filter((item) => item.competencia.startsWith(`${ano}-`) && item.entries.length > 0)
+      .map((item) => ({ ...item, diasTrabalhados: diasPorMes[item.competencia] ?? 0 }));
+    return calcularDecimoTerceiro({
+      ano,
+      salarioBase: settings.baseSalary || 0,
+      horasMensais: settings.monthlyHours || 220,
+      competencias: doAno,
+      settings,
+      dependentes: settings.dependentes || 0,
+    });
+  }, [competencias, settings, ano]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4 bg-white border border-zinc-200 rounded-2xl p-6">
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">Ano</label>
+          <select
+            value={ano}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            {(years.length > 0 ? years : [ano]).map((year) => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4 text-sm sm:grid-cols-4">
+          <div><span className="font-bold">Avos:</span> {resultado.avos}/12</div>
+          <div><span className="font-bold">Media HE:</span> {resultado.medias.horasExtrasHoras.toFixed(2)}h/mes</div>
+          <div><span className="font-bold">Media noturno:</span> {resultado.medias.adicionalNoturnoHoras.toFixed(2)}h/mes</div>
+          <div><span className="font-bold">13o bruto:</span> {formatCurrency(resultado.totalBruto)}</div>
+        </div>
+      </div>
+
+      {resultado.avos === 0 ? (
+        <div className="bg-white border border-zinc-100 rounded-3xl p-10 text-center text-zinc-500">
+          Nenhuma competencia lancada em {ano} para estimar o 13o salario.
+        </div>
+      ) : (
+        <>
+          <ParcelaTable
+            title="1a parcela"
+            subtitle="Paga ate 30 de novembro, sem INSS nem IRRF"
+            parcela={resultado.primeiraParcela}
+          />
+          <ParcelaTable
+            title="2a parcela"
+            subtitle={`Paga ate 20 de dezembro; INSS e IRRF exclusivo pela tabela ${resultado.segundaParcela.tabelaFiscal.descricao}`}
+            parcela={resultado.segundaParcela}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import React from 'react';
+import { CalendarCheck } from 'lucide-react';
+import { format, parseISO, isValid } from 'date-fns';
+import type { Settings, TimeEntry } from '../lib/calculations';
+import type { PayrollLine } from '../lib/payroll';
+import type { CompetenciaMedias } from '../lib/thirteenthSalary';
+import { calcularFerias, DIAS_ABONO_PECUNIARIO, DIAS_DIREITO_FERIAS, MESES_MEDIA_FERIAS } from '../lib/vacation';
+import { formatCurrency } from '../lib/utils';
+
+interface Props {
+  // Competencias ja apuradas pelo App, as mesmas das medias do 13o.
+  competencias: Array<CompetenciaMedias & { entries: TimeEntry[] }>;
+  settings: Settings;
+  onMarkVacationDays: (inicio: string, fim: string) => Promise<void>;
+}
+
+function formatReference(reference: PayrollLine['reference']): string {
+  if (reference == null) return '-';
+  return typeof reference === 'number' ? reference.toFixed(2) : reference;
+}
+
+function formatDay(value: string): string {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'dd/MM/yyyy') : value;
+}
+
+export default function VacationView({ competencias, settings, onMarkVacationDays }: Props) {
+  const [periodoAquisitivoInicio, setPeriodoAquisitivoInicio] = React.useState('');
+  const [inicio, setInicio] = React.useState('');
+  const [abonoPecuniario, setAbonoPecuniario] = React.useState(false);
+  const [diasGozo, setDiasGozo] = React.useState(DIAS_DIREITO_FERIAS);
+  const [marking, setMarking] = React.useState(false);
+  const diasDisponiveis = DIAS_DIREITO_FERIAS - (abonoPecuniario ? DIAS_ABONO_PECUNIARIO : 0);
+
+  const resultado = React.useMemo(() => {
+    if (!isValid(parseISO(periodoAquisitivoInicio)) || !isValid(parseISO(inicio))) return null;
+    const historico = competencias.filter((item) => item.entries.length > 0);
+    return calcularFerias({
+      periodoAquisitivoInicio,
+      inicio,
+      diasGozo: Math.min(diasGozo, diasDisponiveis),
+      abonoPecuniario,
+      salarioBase: settings.baseSalary || 0,
+      horasMensais: settings.monthlyHours || 220,
+      competencias: historico,
+      settings,
+      dependentes: settings.dependentes || 0,
+    });
+  }, [competencias, settings, periodoAquisitivoInicio, inicio, diasGozo, diasDisponiveis, abonoPecuniario]);
+
+  const handleMark = async () => {
+    if (!resultado) return;
+    setMarking(true);
+    try {
+      await onMarkVacationDays(resultado.gozo.inicio, resultado.gozo.fim);
+    } finally {
+      setMarking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 bg-white border border-zinc-200 rounded-2xl p-6 sm:grid-cols-4">
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">Inicio do periodo aquisitivo</label>
+          <input
+            type="date"
+            value={periodoAquisitivoInicio}
+            onChange={(e) => setPeriodoAquisitivoInicio(e.target.value)}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">Inicio do gozo</label>
+          <input
+            type="date"
+            value={inicio}
+            onChange={(e) => setInicio(e.target.value)}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">Dias de gozo</label>
+          <input
+            type="number"
+            min="1"
+            max={diasDisponiveis}
+            value={Math.min(diasGozo, diasDisponiveis)}
+            onChange={(e) => setDiasGozo(Number(e.target.value || diasDisponiveis))}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-zinc-700">Abono pecuniario</label>
+          <select
+            value={abonoPecuniario ? 1 : 0}
+            onChange={(e) => setAbonoPecuniario(Number(e.target.value) === 1)}
+            className="w-full rounded-xl border border-zinc-200 px-4 py-2 outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value={0}>Nao vender dias</option>
+            <option value={1}>{`Vender ${DIAS_ABONO_PECUNIARIO} dias`}</option>
+          </select>
+        </div>
+      </div>
+
+      {!resultado ? (
+        <div className="bg-white border border-zinc-100 rounded-3xl p-10 text-center text-zinc-500">
+          Informe o inicio do periodo aquisitivo e a data de saida para calcular as ferias.
+        </div>
+      ) : (
+        <div className="bg-white border border-zinc-200 rounded-2xl p-6 space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h3 className="text-sm font-black uppercase tracking-tight text-zinc-900">Recibo de ferias</h3>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+                {`Gozo de ${formatDay(resultado.gozo.inicio)} a ${formatDay(resultado.gozo.fim)} - pagamento ate ${formatDay(resultado.dataPagamento)}`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleMark}
+              disabled={marking}
+              className="flex items-center gap-2 rounded-xl bg-zinc-900 px-4 py-2 text-sm font-bold text-white disabled:opacity-50"
+            >
+              <CalendarCheck className="h-4 w-4" />
+              {marking ? 'Marcando...' : 'Marcar ferias no cartao'}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-2 text-sm sm:grid-cols-2">
+            <div><span className="font-bold">Periodo aquisitivo:</span> {formatDay(resultado.periodoAquisitivo.inicio)} a {formatDay(resultado.periodoAquisitivo.fim)}</div>
+            <div><span className="font-bold">Limite do periodo concessivo:</span> {formatDay(resultado.periodoConcessivoFim)}</div>
+            <div><span className="font-bold">Remuneracao mensal com medias:</span> {formatCurrency(resultado.remuneracaoMensal)}</div>
+            <div><span className="font-bold">Medias:</span> {`${resultado.mesesConsiderados.length} de ${MESES_MEDIA_FERIAS} competencias`}</div>
+          </div>
+
+          {resultado.avisos.map((aviso) => (
+            <div key={aviso} className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">{aviso}</div>
+          ))}
+
+          <table className="w-full text-sm border border-zinc-300">
+            <thead className="bg-zinc-100">
+              <tr>
+                <th className="text-left px-2 py-1">Cód.</th>
+                <th className="text-left px-2 py-1">Descrição</th>
+                <th className="text-right px-2 py-1">Ref.</th>
+                <th className="text-right px-2 py-1">Proventos</th>
+                <th className="text-right px-2 py-1">Descontos</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resultado.lines.map((line) => (
+                <tr key={`${line.code}-${line.description}`} className="border-t border-zinc-200">
+                  <td className="px-2 py-1">{line.code || '-'}</td>
+                  <td className="px-2 py-1">{line.description}</td>
+                  <td className="px-2 py-1 text-right">{formatReference(line.reference)}</td>
+                  <td className="px-2 py-1 text-right font-semibold">{line.amount > 0 ? formatCurrency(line.amount) : ''}</td>
+                  <td className="px-2 py-1 text-right font-semibold text-rose-700">{line.amount < 0 ? formatCurrency(Math.abs(line.amount)) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div className="border border-zinc-300 p-3 rounded">
+              <div className="text-xs uppercase tracking-widest text-zinc-500">Total Proventos</div>
+              <div className="text-lg font-black text-emerald-700">{formatCurrency(resultado.totalProventos)}</div>
+            </div>
+            <div className="border border-zinc-300 p-3 rounded">
+              <div className="text-xs uppercase tracking-widest text-zinc-500">Total Descontos</div>
+              <div className="text-lg font-black text-rose-700">{formatCurrency(resultado.totalDescontos)}</div>
+            </div>
+            <div className="border border-zinc-900 bg-zinc-900 text-white p-3 rounded">
+              <div className="text-xs uppercase tracking-widest text-zinc-300">Líquido</div>
+              <div className="text-lg font-black">{formatCurrency(resultado.liquido)}</div>
+            </div>
+          </div>
+
+          <p className="text-xs text-zinc-500">
+            {`INSS sobre ${formatCurrency(resultado.baseINSS)} e IRRF sobre ${formatCurrency(resultado.baseIR)} (${resultado.deducaoIRAplicada === 'simplificado' ? 'desconto simplificado' : 'deducoes legais'}), separados do salario do mes, pela tabela ${resultado.tabelaFiscal.descricao}. Abono pecuniario e seu 1/3 nao sofrem desconto.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
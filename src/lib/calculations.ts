@@ -1,27 +1,59 @@
 import {
   analyzeDailyOvertimePreview,
+  buildPriorOvertimeLimitUsage,
+  createOvertimeEngineSession,
+  detectInterjornadaViolations,
+  detectIntrajornadaViolations,
+  groupOvertimeTraceSlices,
   runOvertimeEngine,
   resolveDailyOvertimeDiscountMinutes,
   type DailyOvertimePreview,
-  type OvertimeComputationResult
+  type InterjornadaViolation,
+  type IntrajornadaViolation,
+  type OvertimeComputationResult,
+  type OvertimeEngineOptions,
+  type OvertimeEnginePatch,
+  type OvertimeEngineSession,
+  type OvertimeLimitUsage,
+  type OvertimeTraceDay,
+  type OvertimeTraceRun
 } from './overtimeEngine';
+import type { CompanyDayStatusPattern, DayStatus } from './dayStatus';
+import type { CompanyShiftSchedule } from './shiftSchedule';
+import type { OnCallKind, OnCallPeriod } from './onCall';
 import {
+  applyPunchRounding,
+  buildNightWindow,
   convertNightRealMinutesToFinancial,
   convertWorkedMinutesToFinancial,
+  DEFAULT_MARKING_TOLERANCE,
   getFirstEntryMinutes,
   getLastExitInfo,
   getWorkedMinuteSlices,
+  isCompensatedSaturday,
   isNightMinute,
   minutesToTime,
   normalizeOvernightEntries,
   parseCompDays,
   resolveDelayMinutes,
   resolveDailyShortfallMinutes,
+  resolveEarlyLeaveMinutes,
   resolveDailyJourneyMinutes,
+  resolveExpectedEndMinutes,
   resolveExpectedStartMinutes,
+  resolveMarkingVariations,
+  resolveToleratedMinutes,
+  roundPunchClock,
   summarizeNightWorkedMinutes,
+  sumEntryBreakMinutes,
   sumEntryWorkedMinutes,
-  timeToMinutes
+  timeToMinutes,
+  type MarkingToleranceOptions,
+  type NightExtensionMode,
+  type NightWindow,
+  type PunchEntryLike,
+  type PunchRoundingMode,
+  type PunchRoundingPolicy
 } from './timeMath';
 
 export type CompanyRubricKey = string;
@@ -33,13 +65,24 @@ export interface CompanyRubricEntry {
 
 export type CompanyRubricMap = Record<CompanyRubricKey, CompanyRubricEntry>;
 
+export type OvertimeLimitWindowKind = 'calendar' | 'rolling';
+
 export interface CompanyOvertimeRule {
   id: string;
   label: string;
   rubricKey: string;
   multiplier: number;
+  // Fator de conversao no banco de horas (1.5 = 1h30 de saldo por hora extra); sem valor credita 1:1.
+  bankMultiplier?: number;
   period?: 'day' | 'night' | 'any';
-  dayType?: 'weekday' | 'sunday' | 'any';
+  dayType?: 'weekday' | 'saturday' | 'compensatedSaturday' | 'sunday' | 'holiday' | 'any';
+  dailyLimitMinutes?: number;
+  dailyLimitGroup?: string;
+  // Limite acumulado alem do mes (ex.: 120h de 50% por semestre), com saldo carregado das competencias anteriores.
+  cumulativeLimitMinutes?: number;
+  cumulativeLimitGroup?: string;
+  cumulativeWindowKind?: OvertimeLimitWindowKind;
+  cumulativeWindowMonths?: number;
   weeklyLimitMinutes?: number;
   weeklyLimitGroup?: string;
   monthlyLimitMinutes?: number;
@@ -58,17 +101,38 @@ export interface CompanyDailyOvertimeDiscountRule {
   active?: boolean;
 }
 
+export type OvertimeAuthorizationPolicy = 'payAll' | 'authorizedOnly';
+
 export interface CompanyCalculationConfig {
   dailyJourney?: number;
   weeklyLimit?: number;
   monthlyLimitHE?: number;
   nightCutoff?: string;
+  nightEnd?: string;
+  // Duracao da hora noturna em minutos (52.5 urbano; 60 quando nao ha hora reduzida).
+  nightHourMinutes?: number;
+  nightExtensionMode?: NightExtensionMode;
   percent50?: number;
   percent100?: number;
   percentNight?: number;
   cycleStartDay?: number;
   roundingCarryover?: number;
+  interjornadaMinimumHours?: number;
+  interjornadaPercent?: number;
+  intrajornadaThresholdHours?: number;
+  intrajornadaMinimumMinutes?: number;
+  intrajornadaPercent?: number;
+  // Tolerancia do art. 58 §1 da CLT para atraso, falta de jornada e HE (0 desativa).
+  markingToleranceMinutes?: number;
+  dailyMarkingToleranceMinutes?: number;
+  punchRounding?: PunchRoundingPolicy;
+  hourBankAgreement?: 'individual' | 'coletivo';
+  hourBankExpiryMonths?: number;
+  // 'authorizedOnly': so paga HE de dias autorizados no cartao; o restante vai para o banco de horas.
+  overtimeAuthorizationPolicy?: OvertimeAuthorizationPolicy;
   customHolidays?: string[];
+  dayStatusPatterns?: CompanyDayStatusPattern[];
+  shiftSchedule?: CompanyShiftSchedule;
   overtimeRules?: CompanyOvertimeRule[];
   dailyOvertimeDiscountRules?: CompanyDailyOvertimeDiscountRule[];
 }
@@ -95,6 +159,9 @@ export function buildSuggestedCompanyRubrics(): CompanyRubricMap {
     DESC_HE_2: { code: '9192', label: 'Desconto HE Faixa 2' },
     ATRASO: { code: '5142', label: 'Atrasos' },
     DSR_ATRASO: { code: '5312', label: 'Perda DSR s/ Atraso' },
+    INTERJORNADA: { code: '3955', label: 'Horas Interjornada' },
+    INTRAJORNADA: { code: '3956', label: 'Horas Intrajornada' },
+    BANCO_HORAS_VENCIDO: { code: '3961', label: 'Banco de Horas Vencido' },
   };
 }
 
@@ -170,6 +237,26 @@ export function buildSuggestedOvertimeRules(config?: CompanyCalculationConfig):
       priority: 6,
       active: true,
     },
+    {
+      id: 'holiday-day',
+      label: 'Feriado diurno',
+      rubricKey: 'HE_100',
+      multiplier: 2,
+      period: 'day',
+      dayType: 'holiday',
+      priority: 7,
+      active: true,
+    },
+    {
+      id: 'holiday-night',
+      label: 'Feriado noturno',
+      rubricKey: 'HE_125',
+      multiplier: 2.5,
+      period: 'night',
+      dayType: 'holiday',
+      priority: 8,
+      active: true,
+    },
   ];
 }
 
@@ -228,6 +315,8 @@ export interface Settings {
   cardNumber?: string;
   isOvertimeCard?: boolean;
   dependentes?: number;
+  // Contrato de aprendizagem: FGTS de 2% em vez de 8%.
+  jovemAprendiz?: boolean;
   adiantamentoPercent?: number;
   adiantamentoIR?: number;
   saturdayCompensation?: boolean;
@@ -252,11 +341,21 @@ export interface EffectiveCalculationConfig {
   weeklyLimit: number;
   monthlyLimitHE?: number;
   nightCutoff: string;
+  nightEnd: string;
+  nightHourMinutes: number;
+  nightExtensionMode: NightExtensionMode;
   percent50: number;
   percent100: number;
   percentNight: number;
   cycleStartDay: number;
   roundingCarryover: number;
+  interjornadaMinimumHours: number;
+  interjornadaPercent: number;
+  intrajornadaThresholdHours: number;
+  intrajornadaMinimumMinutes: number;
+  intrajornadaPercent: number;
+  markingToleranceMinutes: number;
+  dailyMarkingToleranceMinutes: number;
 }
 
 export interface TimeEntry {
@@ -273,6 +372,7 @@ export interface TimeEntry {
   totalHours: string;
   isDPAnnotation?: boolean;
   annotationText?: string;
+  dayStatus?: DayStatus;
   employeeName?: string;
   employeeCode?: string;
   role?: string;
@@ -281,6 +381,10 @@ export interface TimeEntry {
   companyCnpj?: string;
   cardNumber?: string;
   isOvertimeCard?: boolean;
+  // HE do dia autorizada previamente (usada quando a empresa exige autorizacao).
+  overtimeAuthorized?: boolean;
+  // Janelas de sobreaviso/prontidao do dia; sem elas, sao lidas da anotacao (ver onCall.ts).
+  onCall?: OnCallPeriod[];
   month?: string;
   year?: number;
   frontImage?: string;
@@ -300,29 +404,67 @@ export interface WeeklySummary {
   total125Minutes: number;
   totalValue: number;
   totalBancoHoras: number;
+  // Parte de totalBancoHoras que seria HE paga, mas nao tinha autorizacao previa.
+  unauthorizedBancoHoras: number;
+  // Saldo creditado no banco apos o fator de conversao das regras.
+  weightedBancoHoras: number;
   bucketTotals?: Record<string, { minutes: number; amount: number; label: string; code: string }>;
 }
 
 export type OvertimeCalculationResult = OvertimeComputationResult;
 export type DailyOvertimeAnalysis = DailyOvertimePreview;
+export type {
+  CompanyDayStatusPattern,
+  CompanyShiftSchedule,
+  DayStatus,
+  InterjornadaViolation,
+  IntrajornadaViolation,
+  MarkingToleranceOptions,
+  NightExtensionMode,
+  NightWindow,
+  OnCallKind,
+  OnCallPeriod,
+  OvertimeEngineOptions,
+  OvertimeEnginePatch,
+  OvertimeEngineSession,
+  OvertimeLimitUsage,
+  OvertimeTraceDay,
+  OvertimeTraceRun,
+  PunchRoundingMode,
+  PunchRoundingPolicy
+};
 
 export {
   analyzeDailyOvertimePreview,
+  applyPunchRounding,
+  buildNightWindow,
+  buildPriorOvertimeLimitUsage,
   convertNightRealMinutesToFinancial,
+  createOvertimeEngineSession,
   convertWorkedMinutesToFinancial,
+  detectInterjornadaViolations,
+  detectIntrajornadaViolations,
   getFirstEntryMinutes,
   getLastExitInfo,
   getWorkedMinuteSlices,
+  groupOvertimeTraceSlices,
+  isCompensatedSaturday,
   isNightMinute,
   minutesToTime,
   normalizeOvernightEntries,
   parseCompDays,
   resolveDelayMinutes,
   resolveDailyShortfallMinutes,
+  resolveEarlyLeaveMinutes,
   resolveDailyOvertimeDiscountMinutes,
   resolveDailyJourneyMinutes,
+  resolveExpectedEndMinutes,
   resolveExpectedStartMinutes,
+  resolveMarkingVariations,
+  resolveToleratedMinutes,
+  roundPunchClock,
   summarizeNightWorkedMinutes,
+  sumEntryBreakMinutes,
   sumEntryWorkedMinutes,
   timeToMinutes
 };
@@ -345,6 +487,14 @@ export function resolveWorkDateByCompetenciaDay(
   return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
 }
 
+// Inverso de resolveWorkDateByCompetenciaDay: dia depois da virada pertence a competencia do mes seguinte.
+export function resolveCompetenciaByWorkDate(date: string, cycleStartDay: number): string {
+  const [year, month, day] = String(date || '').split('-').map(Number);
+  if (!year || !month || !day) return String(date || '').slice(0, 7);
+  if (cycleStartDay <= 1 || day <= cycleStartDay) return `${year}-${month.toString().padStart(2, '0')}`;
+  return month === 12 ? `${year + 1}-01` : `${year}-${(month + 1).toString().padStart(2, '0')}`;
+}
+
 export function resolveEffectiveCalculationConfig(settings: Settings): EffectiveCalculationConfig {
   const config = settings.companySettings?.config;
   return {
@@ -352,16 +502,52 @@ export function resolveEffectiveCalculationConfig(settings: Settings): Effective
     weeklyLimit: Number(config?.weeklyLimit ?? settings.weeklyLimit ?? 0),
     monthlyLimitHE: config?.monthlyLimitHE == null ? undefined : Number(config.monthlyLimitHE),
     nightCutoff: String(config?.nightCutoff ?? settings.nightCutoff ?? '22:00'),
+    nightEnd: String(config?.nightEnd ?? '05:00'),
+    nightHourMinutes: Number(config?.nightHourMinutes ?? 52.5),
+    nightExtensionMode: config?.nightExtensionMode ?? 'off',
     percent50: Number(config?.percent50 ?? settings.percent50 ?? 0),
     percent100: Number(config?.percent100 ?? settings.percent100 ?? 0),
     percentNight: Number(config?.percentNight ?? settings.percentNight ?? 0),
     cycleStartDay: Number(config?.cycleStartDay ?? settings.cycleStartDay ?? 15),
     roundingCarryover: Number(config?.roundingCarryover ?? 0),
+    interjornadaMinimumHours: Number(config?.interjornadaMinimumHours ?? 11),
+    interjornadaPercent: Number(config?.interjornadaPercent ?? config?.percent50 ?? settings.percent50 ?? 0),
+    intrajornadaThresholdHours: Number(config?.intrajornadaThresholdHours ?? 6),
+    intrajornadaMinimumMinutes: Number(config?.intrajornadaMinimumMinutes ?? 60),
+    intrajornadaPercent: Number(config?.intrajornadaPercent ?? config?.percent50 ?? settings.percent50 ?? 0),
+    markingToleranceMinutes: Number(config?.markingToleranceMinutes ?? DEFAULT_MARKING_TOLERANCE.perMarkingMinutes),
+    dailyMarkingToleranceMinutes: Number(config?.dailyMarkingToleranceMinutes ?? DEFAULT_MARKING_TOLERANCE.dailyMinutes),
+  };
+}
+
+export function resolveNightWindow(settings: Settings): NightWindow {
+  return buildNightWindow(resolveEffectiveCalculationConfig(settings));
+}
+
+export function resolveMarkingTolerance(settings: Settings): MarkingToleranceOptions {
+  const effectiveConfig = resolveEffectiveCalculationConfig(settings);
+  return {
+    perMarkingMinutes: Math.max(0, effectiveConfig.markingToleranceMinutes),
+    dailyMinutes: Math.max(0, effectiveConfig.dailyMarkingToleranceMinutes),
   };
 }
 
-export function calculateOvertime(entries: TimeEntry[], settings: Settings): OvertimeCalculationResult | null {
+export function resolvePunchRounding(settings: Settings): PunchRoundingPolicy | null {
+  const policy = settings.companySettings?.config?.punchRounding;
+  if (!policy || policy.mode === 'off' || !(Number(policy.intervalMinutes) > 1)) return null;
+  return policy;
+}
+
+export function roundEntryPunches<T extends PunchEntryLike>(entry: T, settings: Settings): T {
+  return applyPunchRounding(entry, resolvePunchRounding(settings));
+}
+
+export function calculateOvertime(
+  entries: TimeEntry[],
+  settings: Settings,
+  options?: OvertimeEngineOptions
+): OvertimeCalculationResult | null {
   if (!settings) throw new Error('Settings are required');
   if (!entries) return null;
-  return runOvertimeEngine(entries, settings);
+  return runOvertimeEngine(entries, settings, options);
 }
@@ -0,0 +1,138 @@
+import type { Settings, TimeEntry } from './calculations';
+
+// ---------------------------------------------------------
+//  SITUACAO DO DIA (falta, atestado, ferias, banco...)
+// ---------------------------------------------------------
+export type DayStatus =
+  | 'normal'
+  | 'falta'
+  | 'faltaAbonada'
+  | 'atestado'
+  | 'ferias'
+  | 'folga'
+  | 'feriado'
+  | 'descanso'
+  | 'banco'
+  | 'compensacao'
+  | 'suspensao';
+
+export interface CompanyDayStatusPattern {
+  pattern: string;
+  status: DayStatus;
+}
+
+export interface DayStatusEffects {
+  // Horas marcadas no dia nao entram na apuracao (dia abonado, afastado ou em ferias).
+  ignoresWorkedTime: boolean;
+  // Nao gera desconto de atraso/falta nem reflexo no DSR.
+  excusesShortfall: boolean;
+  // Todo o tempo do dia vai para o banco de horas.
+  bankOnly: boolean;
+  // Folga compensada: a jornada nao cumprida sai do saldo do banco de horas.
+  debitsBank: boolean;
+  // Trabalho no dia segue as regras de HE de feriado.
+  treatsAsHoliday: boolean;
+}
+
+export const DAY_STATUSES: DayStatus[] = [
+  'normal',
+  'falta',
+  'faltaAbonada',
+  'atestado',
+  'ferias',
+  'folga',
+  'feriado',
+  'descanso',
+  'banco',
+  'compensacao',
+  'suspensao',
+];
+
+export const DAY_STATUS_LABELS: Record<DayStatus, string> = {
+  normal: 'Normal',
+  falta: 'Falta',
+  faltaAbonada: 'Falta abonada',
+  atestado: 'Atestado',
+  ferias: 'Ferias',
+  folga: 'Folga',
+  feriado: 'Feriado',
+  descanso: 'Descanso / DSR',
+  banco: 'Banco de horas',
+  compensacao: 'Compensacao (banco)',
+  suspensao: 'Suspensao',
+};
+
+export const DAY_STATUS_EFFECTS: Record<DayStatus, DayStatusEffects> = {
+  normal: { ignoresWorkedTime: false, excusesShortfall: false, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  falta: { ignoresWorkedTime: false, excusesShortfall: false, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  faltaAbonada: { ignoresWorkedTime: true, excusesShortfall: true, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  atestado: { ignoresWorkedTime: true, excusesShortfall: true, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  ferias: { ignoresWorkedTime: true, excusesShortfall: true, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  folga: { ignoresWorkedTime: false, excusesShortfall: true, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  feriado: { ignoresWorkedTime: false, excusesShortfall: true, bankOnly: false, debitsBank: false, treatsAsHoliday: true },
+  descanso: { ignoresWorkedTime: false, excusesShortfall: true, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+  banco: { ignoresWorkedTime: false, excusesShortfall: false, bankOnly: true, debitsBank: false, treatsAsHoliday: false },
+  compensacao: { ignoresWorkedTime: false, excusesShortfall: true, bankOnly: false, debitsBank: true, treatsAsHoliday: false },
+  suspensao: { ignoresWorkedTime: false, excusesShortfall: false, bankOnly: false, debitsBank: false, treatsAsHoliday: false },
+};
+
+// Ordem importa: o primeiro padrao contido na anotacao define a situacao do dia.
+export const DEFAULT_DAY_STATUS_PATTERNS: CompanyDayStatusPattern[] = [
+  { pattern: 'FALTA ABONADA', status: 'faltaAbonada' },
+  { pattern: 'ABONAD', status: 'faltaAbonada' },
+  { pattern: 'ATESTADO', status: 'atestado' },
+  { pattern: 'FERIAS', status: 'ferias' },
+  { pattern: 'FOLGA BCO', status: 'compensacao' },
+  { pattern: 'FOLGA BANCO', status: 'compensacao' },
+  { pattern: 'COMP BCO', status: 'compensacao' },
+  { pattern: 'COMPENSACAO', status: 'compensacao' },
+  { pattern: 'FOLGA', status: 'folga' },
+  { pattern: 'FERIADO', status: 'feriado' },
+  { pattern: 'DOMINGO', status: 'descanso' },
+  { pattern: 'DSR', status: 'descanso' },
+  { pattern: 'BCO', status: 'banco' },
+  { pattern: 'BANCO', status: 'banco' },
+  { pattern: 'SUSPENS', status: 'suspensao' },
+  { pattern: 'FALTA', status: 'falta' },
+];
+
+export function isDayStatus(value: unknown): value is DayStatus {
+  return typeof value === 'string' && (DAY_STATUSES as string[]).includes(value);
+}
+
+// Remove acentos, pontuacao e espacos repetidos para tolerar grafias do OCR e do DP.
+export function normalizeDayStatusText(value?: string): string {
+  return String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+export function resolveDayStatusPatterns(settings: Settings): CompanyDayStatusPattern[] {
+  const companyPatterns = settings.companySettings?.config?.dayStatusPatterns || [];
+  return [...companyPatterns, ...DEFAULT_DAY_STATUS_PATTERNS];
+}
+
+export function resolveDayStatusFromText(annotationText: string | undefined, patterns: CompanyDayStatusPattern[]): DayStatus {
+  const normalizedText = normalizeDayStatusText(annotationText);
+  if (!normalizedText) return 'normal';
+  const match = patterns.find((item) => {
+    const normalizedPattern = normalizeDayStatusText(item.pattern);
+    return !!normalizedPattern && normalizedText.includes(normalizedPattern);
+  });
+  return match ? match.status : 'normal';
+}
+
+export function resolveEntryDayStatus(entry: Pick<TimeEntry, 'dayStatus' | 'annotationText'>, settings: Settings): DayStatus {
+  if (isDayStatus(entry.dayStatus)) return entry.dayStatus;
+  return resolveDayStatusFromText(entry.annotationText, resolveDayStatusPatterns(settings));
+}
+
+export function resolveEntryDayStatusEffects(
+  entry: Pick<TimeEntry, 'dayStatus' | 'annotationText'>,
+  settings: Settings
+): DayStatusEffects {
+  return DAY_STATUS_EFFECTS[resolveEntryDayStatus(entry, settings)];
+}
@@ -0,0 +1,82 @@
+import { addMonths, format, isValid, parseISO } from 'date-fns';
+
+// ---------------------------------------------------------
+//  FGTS (Lei 8.036/1990)
+// ---------------------------------------------------------
+export const FGTS_ALIQUOTA = 0.08;
+// Contrato de aprendizagem recolhe 2% (art. 15 §7).
+export const FGTS_ALIQUOTA_APRENDIZ = 0.02;
+// Juros legais de 3% a.a. (art. 13), creditados mes a mes; a TR varia todo mes e entra como opcao da projecao.
+export const FGTS_JUROS_ANUAIS = 0.03;
+
+export interface FgtsCompetencia {
+  competencia: string;
+  base: number;
+  aliquota: number;
+  valor: number;
+}
+
+export interface FgtsProjecaoLinha {
+  competencia: string;
+  deposito: number;
+  rendimento: number;
+  saldo: number;
+}
+
+export interface FgtsProjecao {
+  lines: FgtsProjecaoLinha[];
+  saldo: number;
+  totalDepositos: number;
+  totalRendimentos: number;
+}
+
+export function resolveFgtsAliquota(jovemAprendiz?: boolean): number {
+  return jovemAprendiz ? FGTS_ALIQUOTA_APRENDIZ : FGTS_ALIQUOTA;
+}
+
+export function resolveFgtsJurosMensais(trMensal = 0): number {
+  return Math.pow(1 + FGTS_JUROS_ANUAIS, 1 / 12) - 1 + trMensal;
+}
+
+function parseCompetencia(competencia: string): Date | null {
+  const date = parseISO(`${competencia}-01`);
+  return isValid(date) ? date : null;
+}
+
+// O rendimento incide sobre o saldo do mes anterior, antes do deposito da competencia; meses sem deposito
+// (afastamento, competencia nao lancada) continuam rendendo ate `asOf`.
+export function buildFgtsProjection(
+  competencias: FgtsCompetencia[],
+  options: { saldoInicial?: number; trMensal?: number; asOf?: string } = {}
+): FgtsProjecao {
+  const depositos = new Map<string, number>();
+  competencias.forEach((item) => {
+    if (!parseCompetencia(item.competencia)) return;
+    depositos.set(item.competencia, (depositos.get(item.competencia) || 0) + Math.max(0, Number(item.valor) || 0));
+  });
+  const ordered = [...depositos.keys()].sort();
+  const lines: FgtsProjecaoLinha[] = [];
+  let saldo = Math.max(0, options.saldoInicial || 0);
+  let totalDepositos = 0;
+  let totalRendimentos = 0;
+  if (ordered.length === 0) return { lines, saldo, totalDepositos, totalRendimentos };
+
+  const jurosMensais = resolveFgtsJurosMensais(options.trMensal);
+  const last = options.asOf && options.asOf > ordered[ordered.length - 1] ? options.asOf : ordered[ordered.length - 1];
+  for (let cursor = parseCompetencia(ordered[0]) as Date; format(cursor, 'yyyy-MM') <= last; cursor = addMonths(cursor, 1)) {
+    const competencia = format(cursor, 'yyyy-MM');
+    const rendimento = Number((saldo * jurosMensais).toFixed(2));
+    const deposito = Number((depositos.get(competencia) || 0).toFixed(2));
+    saldo = Number((saldo + rendimento + deposito).toFixed(2));
+    totalDepositos += deposito;
+    totalRendimentos += rendimento;
+    lines.push({ competencia, deposito, rendimento, saldo });
+  }
+
+  return {
+    lines,
+    saldo,
+    totalDepositos: Number(totalDepositos.toFixed(2)),
+    totalRendimentos: Number(totalRendimentos.toFixed(2)),
+  };
+}
@@ -1,10 +1,13 @@
 import { isValid, parseISO } from 'date-fns';
 import {
+  isNightMinute,
   minutesToTime,
   resolveEffectiveCalculationConfig,
+  resolveNightWindow,
   resolveWorkDateByCompetenciaDay,
   sumEntryWorkedMinutes,
   timeToMinutes,
+  type NightWindow,
   type Settings
 } from './calculations';
 import type { ParsedHolerithPdfData } from './holerithPdf';
@@ -113,19 +116,15 @@ function getRealWeekKey(date: Date): string {
   return `${base.getFullYear()}-${String(base.getMonth() + 1).padStart(2, '0')}-${String(base.getDate()).padStart(2, '0')}`;
 }
 
-function isNightMinute(minuteOfDay: number, nightCutoffMinutes: number): boolean {
-  return minuteOfDay >= nightCutoffMinutes || minuteOfDay < 5 * 60;
-}
-
 function classifyMinuteRateType(params: {
   dayOfWeek: number;
   minuteOfDay: number;
   weekAccumulator: number;
   weeklyLimitMinutes: number;
-  nightCutoffMinutes: number;
+  nightWindow: NightWindow;
 }): RateType {
-  const { dayOfWeek, minuteOfDay, weekAccumulator, weeklyLimitMinutes, nightCutoffMinutes } = params;
-  const night = isNightMinute(minuteOfDay, nightCutoffMinutes);
+  const { dayOfWeek, minuteOfDay, weekAccumulator, weeklyLimitMinutes, nightWindow } = params;
+  const night = isNightMinute(minuteOfDay, nightWindow.startMinutes, nightWindow.endMinutes);
 
   if (dayOfWeek === 0) {
     return night ? '125' : '100';
@@ -225,7 +224,7 @@ function allocateTypeMinutes(params: {
   targetMinutes: number;
   weekAccumulator: Map<string, number>;
   weeklyLimitMinutes: number;
-  nightCutoffMinutes: number;
+  nightWindow: NightWindow;
   sundayOnly?: boolean;
   nonSundayOnly?: boolean;
 }): number {
@@ -235,7 +234,7 @@ function allocateTypeMinutes(params: {
     targetMinutes,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     sundayOnly,
     nonSundayOnly
   } = params;
@@ -258,7 +257,7 @@ function allocateTypeMinutes(params: {
           minuteOfDay,
           weekAccumulator: currentWeekAcc,
           weeklyLimitMinutes,
-          nightCutoffMinutes
+          nightWindow
         });
 
         if (predictedType !== targetType) break;
@@ -397,7 +396,7 @@ export function buildProjectedCardFromHolerith(params: {
   const weekAccumulator = new Map<string, number>();
   const effectiveConfig = resolveEffectiveCalculationConfig(settings);
   const weeklyLimitMinutes = Math.max(0, Math.round((effectiveConfig.weeklyLimit || 0) * 60));
-  const nightCutoffMinutes = Math.max(0, timeToMinutes(effectiveConfig.nightCutoff || '22:00'));
+  const nightWindow = resolveNightWindow(settings);
 
   // Sunday minutes do not consume weekly limit in the current overtime rules.
   const sunday125 = allocateTypeMinutes({
@@ -406,7 +405,7 @@ export function buildProjectedCardFromHolerith(params: {
     targetMinutes: parsed.he125Minutes,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     sundayOnly: true
   });
   const sunday100 = allocateTypeMinutes({
@@ -415,7 +414,7 @@ export function buildProjectedCardFromHolerith(params: {
     targetMinutes: parsed.he100Minutes,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     sundayOnly: true
   });
 
@@ -426,7 +425,7 @@ export function buildProjectedCardFromHolerith(params: {
     targetMinutes: parsed.he75Minutes,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     nonSundayOnly: true
   });
   const he50MinutesApplied = allocateTypeMinutes({
@@ -435,7 +434,7 @@ export function buildProjectedCardFromHolerith(params: {
     targetMinutes: parsed.he50Minutes,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     nonSundayOnly: true
   });
   const nonSunday125Needed = Math.max(0, parsed.he125Minutes - sunday125);
@@ -446,7 +445,7 @@ export function buildProjectedCardFromHolerith(params: {
     targetMinutes: nonSunday125Needed,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     nonSundayOnly: true
   });
   const nonSunday100Applied = allocateTypeMinutes({
@@ -455,7 +454,7 @@ export function buildProjectedCardFromHolerith(params: {
     targetMinutes: nonSunday100Needed,
     weekAccumulator,
     weeklyLimitMinutes,
-    nightCutoffMinutes,
+    nightWindow,
     nonSundayOnly: true
   });
 
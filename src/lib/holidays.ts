@@ -0,0 +1,46 @@
+// ---------------------------------------------------------
+//  FERIADOS FIXOS DO BRASIL
+// ---------------------------------------------------------
+export const FERIADOS_NACIONAIS_FIXOS = [
+  '01-01', '04-21', '05-01', '09-07',
+  '10-12', '11-02', '11-15', '11-20', '12-25',
+];
+
+export interface HolidayMatchers {
+  monthDayHolidays: Set<string>;
+  exactDateHolidays: Set<string>;
+}
+
+export function normalizeHolidayToken(value: string): string | null {
+  const normalized = String(value || '').trim();
+  if (/^\d{2}-\d{2}$/.test(normalized)) return normalized;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(normalized)) return normalized;
+  return null;
+}
+
+// ---------------------------------------------------------
+//  FERIADOS DA EMPRESA (MM-DD recorrente ou YYYY-MM-DD)
+// ---------------------------------------------------------
+export function resolveHolidayMatchers(customHolidays: string[] = []): HolidayMatchers {
+  const monthDayHolidays = new Set(FERIADOS_NACIONAIS_FIXOS);
+  const exactDateHolidays = new Set<string>();
+
+  for (const rawHoliday of customHolidays) {
+    const normalized = normalizeHolidayToken(rawHoliday);
+    if (!normalized) continue;
+    if (normalized.length === 5) monthDayHolidays.add(normalized);
+    else exactDateHolidays.add(normalized);
+  }
+
+  return { monthDayHolidays, exactDateHolidays };
+}
+
+export function matchesHoliday(isoDate: string, matchers: HolidayMatchers): boolean {
+  const normalized = String(isoDate || '').slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(normalized)) return false;
+  return matchers.monthDayHolidays.has(normalized.slice(5, 10)) || matchers.exactDateHolidays.has(normalized);
+}
+
+export function isHolidayDate(isoDate: string, customHolidays: string[] = []): boolean {
+  return matchesHoliday(isoDate, resolveHolidayMatchers(customHolidays));
+}
@@ -0,0 +1,227 @@
+import { addMonths, format, isValid, parseISO } from 'date-fns';
+import {
+  analyzeDailyOvertimePreview,
+  normalizeOvernightEntries,
+  resolveCompetenciaByWorkDate,
+  roundEntryPunches,
+  sumEntryWorkedMinutes,
+  type Settings,
+  type TimeEntry,
+} from './calculations';
+import { DAY_STATUS_EFFECTS, resolveEntryDayStatus } from './dayStatus';
+import { resolveScheduledJourneyMinutes } from './shiftSchedule';
+
+// ---------------------------------------------------------
+//  BANCO DE HORAS (art. 59 §2 e §5 da CLT)
+// ---------------------------------------------------------
+export type HourBankAgreement = 'individual' | 'coletivo';
+export type HourBankMovementKind = 'credito' | 'debito';
+
+export const HOUR_BANK_EXPIRY_MONTHS: Record<HourBankAgreement, number> = {
+  individual: 6,
+  coletivo: 12,
+};
+
+export interface HourBankMovement {
+  id?: string;
+  date: string;
+  minutes: number;
+  // Minutos trabalhados antes do fator de conversao do banco; ausente quando o credito e 1:1.
+  rawMinutes?: number;
+  kind: HourBankMovementKind;
+  description: string;
+}
+
+export interface HourBankLedgerLine {
+  id?: string;
+  date: string;
+  competencia: string;
+  type: HourBankMovementKind | 'vencimento';
+  minutes: number;
+  rawMinutes?: number;
+  balanceAfter: number;
+  description: string;
+  expiresAt?: string;
+}
+
+export interface HourBankLedger {
+  lines: HourBankLedgerLine[];
+  balanceMinutes: number;
+  expiredMinutes: number;
+  expiredByCompetencia: Record<string, number>;
+}
+
+interface HourBankLot {
+  date: string;
+  expiresAt: string | null;
+  remaining: number;
+}
+
+export function resolveHourBankExpiryMonths(settings: Settings): number {
+  const config = settings.companySettings?.config;
+  if (config?.hourBankExpiryMonths != null) return Math.max(0, Number(config.hourBankExpiryMonths) || 0);
+  return HOUR_BANK_EXPIRY_MONTHS[config?.hourBankAgreement === 'coletivo' ? 'coletivo' : 'individual'];
+}
+
+// Linhas gravadas antes do razao ('extra'/'atraso') guardavam a HE e o atraso brutos do cartao, nao o saldo do
+// banco: ficam fora dos saldos ate o proximo salvamento da competencia, que as troca por credito/debito.
+export const LEGACY_HOUR_BANK_TYPES = ['extra', 'atraso'];
+
+export function isLegacyHourBankType(type?: string): boolean {
+  return LEGACY_HOUR_BANK_TYPES.includes(String(type || '').trim().toLowerCase());
+}
+
+export function resolveHourBankMovementKind(type?: string): HourBankMovementKind {
+  const normalized = String(type || '').trim().toLowerCase();
+  return normalized === 'debito' || normalized === 'compensacao' ? 'debito' : 'credito';
+}
+
+// Credita os dias lancados em banco (BCO) e a HE sem autorizacao previa (politica `authorizedOnly`), que o motor
+// tira da folha; debita os dias de compensacao com folga.
+export function buildHourBankMovements(entries: TimeEntry[], settings: Settings): HourBankMovement[] {
+  const movements: HourBankMovement[] = [];
+  const requiresAuthorization = settings.companySettings?.config?.overtimeAuthorizationPolicy === 'authorizedOnly';
+
+  for (const entry of normalizeOvernightEntries(entries).map((item) => roundEntryPunches(item, settings))) {
+    const date = parseISO(entry.date);
+    if (!isValid(date)) continue;
+    const effects = DAY_STATUS_EFFECTS[resolveEntryDayStatus(entry, settings)];
+    const isOvertimeCard = !!entry.isOvertimeCard;
+    const unauthorized = requiresAuthorization && isOvertimeCard && !entry.overtimeAuthorized && !effects.ignoresWorkedTime;
+
+    if (effects.bankOnly || unauthorized) {
+      const preview = analyzeDailyOvertimePreview({ ...entry, isOvertimeCard }, settings);
+      const rawMinutes = isOvertimeCard
+        ? preview.dayOvertimeMinutes
+        : date.getDay() === 0 || preview.isHoliday
+          ? preview.workedMinutes
+          : Math.max(0, preview.workedMinutes - preview.dailyJourneyMinutes);
+      // So a HE do cartao passa pelo fator de conversao das regras (ex.: 1h30 por hora no dia util, 2h no domingo).
+      const minutes = isOvertimeCard ? preview.bankWeightedMinutes : rawMinutes;
+      if (minutes > 0) {
+        movements.push({
+          date: entry.date,
+          minutes: Math.round(minutes),
+          ...(Math.round(minutes) !== Math.round(rawMinutes) ? { rawMinutes: Math.round(rawMinutes) } : {}),
+          kind: 'credito',
+          description: !isOvertimeCard
+            ? 'Excedente lancado no banco de horas'
+            : effects.bankOnly ? 'HE lancada no banco de horas' : 'HE sem autorizacao lancada no banco de horas',
+        });
+      }
+      continue;
+    }
+
+    if (effects.debitsBank && !isOvertimeCard) {
+      const journeyMinutes = resolveScheduledJourneyMinutes(entry.date, false, settings);
+      const minutes = Math.max(0, journeyMinutes - sumEntryWorkedMinutes(entry));
+      if (minutes > 0) {
+        movements.push({
+          date: entry.date,
+          minutes,
+          kind: 'debito',
+          description: 'Compensacao com banco de horas',
+        });
+      }
+    }
+  }
+
+  return movements;
+}
+
+function toIsoDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Razao FIFO: debitos consomem os creditos mais antigos; credito nao compensado ate o vencimento vira HE paga.
+// As linhas caem na competencia do cartao (virada em `cycleStartDay`), que e a chave usada pela folha.
+export function buildHourBankLedger(
+  movements: HourBankMovement[],
+  options: { expiryMonths: number; asOf?: string; cycleStartDay?: number }
+): HourBankLedger {
+  const toCompetencia = (date: string) => resolveCompetenciaByWorkDate(date, options.cycleStartDay ?? 1);
+  const sorted = movements
+    .filter((movement) => isValid(parseISO(movement.date)) && movement.minutes > 0)
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.kind === b.kind ? 0 : a.kind === 'credito' ? -1 : 1));
+  const lots: HourBankLot[] = [];
+  const lines: HourBankLedgerLine[] = [];
+  const expiredByCompetencia: Record<string, number> = {};
+  let debtMinutes = 0;
+  let expiredMinutes = 0;
+
+  const currentBalance = () => lots.reduce((sum, lot) => sum + lot.remaining, 0) - debtMinutes;
+
+  // Os lotes entram em ordem de data e todos tem o mesmo prazo, entao ja estao em ordem de vencimento.
+  const expireLotsUntil = (date: string) => {
+    for (const lot of lots) {
+      if (!lot.expiresAt || lot.remaining <= 0 || lot.expiresAt > date) continue;
+      const minutes = lot.remaining;
+      lot.remaining = 0;
+      const competencia = toCompetencia(lot.expiresAt);
+      expiredMinutes += minutes;
+      expiredByCompetencia[competencia] = (expiredByCompetencia[competencia] || 0) + minutes;
+      lines.push({
+        date: lot.expiresAt,
+        competencia,
+        type: 'vencimento',
+        minutes: -minutes,
+        balanceAfter: currentBalance(),
+        description: `Saldo de ${lot.date.split('-').reverse().join('/')} vencido e pago como HE`,
+      });
+    }
+  };
+
+  for (const movement of sorted) {
+    expireLotsUntil(movement.date);
+
+    if (movement.kind === 'credito') {
+      const offset = Math.min(debtMinutes, movement.minutes);
+      debtMinutes -= offset;
+      const remaining = movement.minutes - offset;
+      const expiresAt = options.expiryMonths > 0
+        ? toIsoDate(addMonths(parseISO(movement.date), options.expiryMonths))
+        : null;
+      if (remaining > 0) lots.push({ date: movement.date, expiresAt, remaining });
+      lines.push({
+        id: movement.id,
+        date: movement.date,
+        competencia: toCompetencia(movement.date),
+        type: 'credito',
+        minutes: movement.minutes,
+        ...(movement.rawMinutes != null ? { rawMinutes: movement.rawMinutes } : {}),
+        balanceAfter: currentBalance(),
+        description: movement.description,
+        ...(remaining > 0 && expiresAt ? { expiresAt } : {}),
+      });
+      continue;
+    }
+
+    let pending = movement.minutes;
+    for (const lot of lots) {
+      if (pending <= 0) break;
+      const consumed = Math.min(lot.remaining, pending);
+      lot.remaining -= consumed;
+      pending -= consumed;
+    }
+    debtMinutes += pending;
+    lines.push({
+      id: movement.id,
+      date: movement.date,
+      competencia: toCompetencia(movement.date),
+      type: 'debito',
+      minutes: -movement.minutes,
+      balanceAfter: currentBalance(),
+      description: movement.description,
+    });
+  }
+
+  if (options.asOf) expireLotsUntil(options.asOf);
+
+  return {
+    lines,
+    balanceMinutes: currentBalance(),
+    expiredMinutes,
+    expiredByCompetencia,
+  };
+}
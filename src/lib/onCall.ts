@@ -0,0 +1,173 @@
+import { isValid, parseISO } from 'date-fns';
+import type { TimeEntry } from './calculations';
+import { normalizeClock, periodsFromEntry, timeToMinutes } from './timeMath';
+
+// ---------------------------------------------------------
+//  SOBREAVISO E PRONTIDAO (art. 244 CLT)
+// ---------------------------------------------------------
+export type OnCallKind = 'sobreaviso' | 'prontidao';
+
+// Janela em que o empregado fica a disposicao; `end` menor ou igual a `start` vira o dia.
+export interface OnCallPeriod {
+  kind: OnCallKind;
+  start: string;
+  end: string;
+}
+
+export interface OnCallMinutes {
+  windowMinutes: number;
+  // Minutos da janela em que houve acionamento; sao pagos como trabalho (normal/HE), nao como sobreaviso.
+  callOutMinutes: number;
+  paidMinutes: number;
+}
+
+export const ON_CALL_KINDS: OnCallKind[] = ['sobreaviso', 'prontidao'];
+
+export const ON_CALL_LABELS: Record<OnCallKind, string> = {
+  sobreaviso: 'Sobreaviso',
+  prontidao: 'Prontidao',
+};
+
+export const ON_CALL_RUBRIC_KEYS: Record<OnCallKind, string> = {
+  sobreaviso: 'SOBREAVISO',
+  prontidao: 'PRONTIDAO',
+};
+
+// Fracao da hora normal: 1/3 no sobreaviso (§2) e 2/3 na prontidao (§3).
+export const ON_CALL_HOUR_FRACTIONS: Record<OnCallKind, number> = {
+  sobreaviso: 1 / 3,
+  prontidao: 2 / 3,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+const ANNOTATION_PATTERN = /(SOBREAVISO|PRONTIDAO)\D*?(\d{1,2})[:H](\d{2})\D+?(\d{1,2})[:H](\d{2})/g;
+
+export function isOnCallKind(value: unknown): value is OnCallKind {
+  return typeof value === 'string' && (ON_CALL_KINDS as string[]).includes(value);
+}
+
+// Periodos gravados no cartao (coluna on_call); descarta o que nao tiver tipo e horarios validos.
+export function normalizeOnCallPeriods(value: unknown): OnCallPeriod[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((period) => isOnCallKind(period?.kind) && normalizeClock(period?.start) && normalizeClock(period?.end))
+    .map((period) => ({ kind: period.kind, start: normalizeClock(period.start), end: normalizeClock(period.end) }));
+}
+
+// Le "SOBREAVISO 18:00-08:00" / "PRONTIDAO 22:00 AS 06:00", no mesmo formato da anotacao do DP.
+export function parseOnCallText(value: string): OnCallPeriod[] {
+  const text = String(value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase();
+  const periods: OnCallPeriod[] = [];
+  for (const match of text.matchAll(ANNOTATION_PATTERN)) {
+    const start = normalizeClock(`${match[2]}:${match[3]}`);
+    const end = normalizeClock(`${match[4]}:${match[5]}`);
+    if (!start || !end) continue;
+    periods.push({ kind: match[1] === 'PRONTIDAO' ? 'prontidao' : 'sobreaviso', start, end });
+  }
+  return periods;
+}
+
+export function formatOnCallPeriods(periods: OnCallPeriod[] | undefined): string {
+  return (periods || []).map((period) => `${period.kind.toUpperCase()} ${period.start}-${period.end}`).join('; ');
+}
+
+// Sem periodos explicitos, aceita a anotacao do DP.
+export function resolveEntryOnCallPeriods(entry: Pick<TimeEntry, 'onCall' | 'annotationText'>): OnCallPeriod[] {
+  if (Array.isArray(entry.onCall)) return normalizeOnCallPeriods(entry.onCall);
+  return parseOnCallText(String(entry.annotationText || ''));
+}
+
+function resolveDayIndex(dateKey: string): number | null {
+  const date = parseISO(dateKey);
+  if (!isValid(date)) return null;
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000);
+}
+
+function toAbsoluteInterval(dayIndex: number, start: string, end: string): [number, number] | null {
+  if (!normalizeClock(start) || !normalizeClock(end)) return null;
+  const startMinutes = timeToMinutes(start);
+  let endMinutes = timeToMinutes(end);
+  if (endMinutes <= startMinutes) endMinutes += MINUTES_PER_DAY;
+  const offset = dayIndex * MINUTES_PER_DAY;
+  return [offset + startMinutes, offset + endMinutes];
+}
+
+function resolveWorkedIntervals(entries: TimeEntry[]): Array<[number, number]> {
+  const intervals: Array<[number, number]> = [];
+  entries.forEach((entry) => {
+    const dayIndex = resolveDayIndex(entry.date);
+    if (dayIndex == null) return;
+    periodsFromEntry(entry).forEach(([start, end]) => {
+      const interval = toAbsoluteInterval(dayIndex, start, end);
+      if (interval) intervals.push(interval);
+    });
+  });
+  return intervals;
+}
+
+function overlapMinutes(window: [number, number], intervals: Array<[number, number]>): number {
+  // Une os intervalos trabalhados para nao contar duas vezes marcacoes repetidas nos dois cartoes.
+  const clipped = intervals
+    .map(([start, end]) => [Math.max(start, window[0]), Math.min(end, window[1])] as [number, number])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let cursor = window[0];
+  clipped.forEach(([start, end]) => {
+    const from = Math.max(start, cursor);
+    if (end > from) total += end - from;
+    cursor = Math.max(cursor, end);
+  });
+  return total;
+}
+
+function mergeIntervals(intervals: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+  [...intervals].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+// `dayEntries` sao as linhas do mesmo dia nos dois cartoes: a mesma anotacao repetida no cartao normal e no de HE
+// une as janelas e e paga uma vez. `workedEntries` sao as marcacoes do periodo usadas para achar os acionamentos.
+export function summarizeDayOnCallMinutes(dayEntries: TimeEntry[], workedEntries: TimeEntry[]): Record<OnCallKind, OnCallMinutes> {
+  const summary: Record<OnCallKind, OnCallMinutes> = {
+    sobreaviso: { windowMinutes: 0, callOutMinutes: 0, paidMinutes: 0 },
+    prontidao: { windowMinutes: 0, callOutMinutes: 0, paidMinutes: 0 },
+  };
+  const windowsByKind: Record<OnCallKind, Array<[number, number]>> = { sobreaviso: [], prontidao: [] };
+  dayEntries.forEach((entry) => {
+    const dayIndex = resolveDayIndex(entry.date);
+    if (dayIndex == null) return;
+    resolveEntryOnCallPeriods(entry).forEach((period) => {
+      const window = toAbsoluteInterval(dayIndex, period.start, period.end);
+      if (window) windowsByKind[period.kind].push(window);
+    });
+  });
+  if (ON_CALL_KINDS.every((kind) => windowsByKind[kind].length === 0)) return summary;
+  const worked = resolveWorkedIntervals(workedEntries);
+  ON_CALL_KINDS.forEach((kind) => {
+    mergeIntervals(windowsByKind[kind]).forEach((window) => {
+      const windowMinutes = window[1] - window[0];
+      const callOutMinutes = overlapMinutes(window, worked);
+      const target = summary[kind];
+      target.windowMinutes += windowMinutes;
+      target.callOutMinutes += callOutMinutes;
+      target.paidMinutes += windowMinutes - callOutMinutes;
+    });
+  });
+  return summary;
+}
+
+export function summarizeEntryOnCallMinutes(entry: TimeEntry, workedEntries: TimeEntry[]): Record<OnCallKind, OnCallMinutes> {
+  return summarizeDayOnCallMinutes([entry], workedEntries);
+}
@@ -2,20 +2,33 @@ import { isValid, parseISO } from 'date-fns';
 import type {
   CompanyDailyOvertimeDiscountRule,
   CompanyOvertimeRule,
+  OvertimeLimitWindowKind,
   Settings,
   TimeEntry,
   WeeklySummary
 } from './calculations';
-import { resolveEffectiveCalculationConfig } from './calculations';
+import { resolveEffectiveCalculationConfig, resolveMarkingTolerance, resolvePunchRounding } from './calculations';
+import { DAY_STATUS_EFFECTS, resolveEntryDayStatus, type DayStatus } from './dayStatus';
+import { matchesHoliday, resolveHolidayMatchers, type HolidayMatchers } from './holidays';
+import { ON_CALL_HOUR_FRACTIONS, ON_CALL_KINDS, ON_CALL_LABELS, ON_CALL_RUBRIC_KEYS, summarizeDayOnCallMinutes } from './onCall';
+import { resolveScheduledJourneyMinutes, resolveScheduledMarkings, resolveShiftScheduleDay } from './shiftSchedule';
 import {
+  applyPunchRounding,
   getFirstEntryMinutes,
   getLastExitInfo,
+  buildNightWindow,
+  diffMinutes,
   getWorkedMinuteSlices,
-  NIGHT_END_MINUTES,
+  isCompensatedSaturday,
+  normalizeClock,
   normalizeOvernightEntries,
-  resolveDailyJourneyMinutes,
+  periodsFromEntry,
+  resolveMarkingVariations,
+  resolveToleratedMinutes,
   sumEntryWorkedMinutes,
-  timeToMinutes
+  timeToMinutes,
+  type NightWindow,
+  type PunchRoundingPolicy
 } from './timeMath';
 
 interface RatePack {
@@ -61,11 +74,16 @@ interface MutableTotals {
   total100Minutes: number;
   total125Minutes: number;
   totalBancoHoras: number;
+  // HE sem autorizacao previa desviada para o banco (ja somada em totalBancoHoras).
+  unauthorizedBancoHoras: number;
+  // Saldo do banco ja convertido pelo `bankMultiplier` das regras (igual a totalBancoHoras quando tudo e 1:1).
+  weightedBancoHoras: number;
   buckets: Map<string, OvertimeBucket>;
   discountBuckets: Map<string, DiscountBucket>;
-  weekDayMinutesAcc: number;
-  weekNightMinutesAcc: number;
+  weekUsage: Record<string, number>;
   monthUsage: Record<string, number>;
+  // Uso das faixas diarias do dia corrente; zerado a cada nova data dentro da semana.
+  dayUsage: Record<string, number>;
 }
 
 interface WeekContext extends MutableTotals {
@@ -78,26 +96,138 @@ interface DayRuleContext {
   settings: Settings;
   rules: CompanyOvertimeRule[];
   rates: RatePack;
-  nightCutoffMinutes: number;
+  nightWindow: NightWindow;
   week: WeekContext;
   grand: MutableTotals;
+  dayStatus: DayStatus;
   isSunday: boolean;
+  isHoliday: boolean;
+  ruleDayType: RuleDayType;
   isOvertimeCardEntry: boolean;
   dailyJourneyMinutesEntry: number;
   dailyTotalMinutes: number;
-  overtimeSlices: Array<{ isNight: boolean; financialMinutes: number }>;
+  // Violacao do dia inteiro (todos os cartoes), entregue so a primeira linha do dia para ser paga uma vez.
+  dayIntrajornada: IntrajornadaViolation | null;
+  intrajornada: IntrajornadaViolation | null;
+  overtimeSlices: OvertimeSlice[];
   rawOvertimeRealMinutes: number;
   rawOvertimeMinutes: number;
+  toleranceRealMinutes: number;
   dayOvertimeMinutes: number;
   ignoreDay: boolean;
   bankOnlyDay: boolean;
-  weekDayMinutesAccBefore: number;
-  weekNightMinutesAccBefore: number;
+  unauthorizedDay: boolean;
+  weekUsageBefore: Record<string, number>;
   monthUsageBefore: Record<string, number>;
+  dayUsageBefore: Record<string, number>;
+  trace: OvertimeTraceDay | null;
+}
+
+interface OvertimeSlice {
+  minuteOfDay: number;
+  isNight: boolean;
+  financialMinutes: number;
 }
 
 type DayRule = (ctx: DayRuleContext, next: () => void) => void;
 
+export type RuleDayType = 'weekday' | 'saturday' | 'compensatedSaturday' | 'sunday' | 'holiday';
+
+// Ordem de fallback quando a empresa nao cadastrou regra para o tipo de dia.
+const RULE_DAY_TYPE_FALLBACKS: Record<RuleDayType, RuleDayType[]> = {
+  weekday: ['weekday'],
+  saturday: ['saturday', 'weekday'],
+  compensatedSaturday: ['compensatedSaturday', 'saturday', 'weekday'],
+  sunday: ['sunday'],
+  holiday: ['holiday', 'sunday'],
+};
+
+export interface OvertimeEngineOptions {
+  trace?: boolean;
+  // Competencia apurada (yyyy-MM); necessaria para saber quais competencias anteriores entram nas janelas acumuladas.
+  competencia?: string;
+  priorLimitUsage?: OvertimeLimitUsage[];
+}
+
+// Minutos financeiros consumidos por grupo de limite acumulado em uma competencia ja apurada.
+export interface OvertimeLimitUsage {
+  competencia: string;
+  usage: Record<string, number>;
+}
+
+export interface OvertimeTraceCapacity {
+  group: string;
+  limitMinutes: number;
+  remainingBefore: number;
+  remainingAfter: number;
+}
+
+export interface OvertimeTraceAllocation {
+  ruleId: string;
+  ruleLabel: string;
+  rubricKey: string;
+  financialMinutes: number;
+  daily: OvertimeTraceCapacity | null;
+  weekly: OvertimeTraceCapacity | null;
+  monthly: OvertimeTraceCapacity | null;
+  cumulative: OvertimeTraceCapacity | null;
+}
+
+export interface OvertimeTraceSlice {
+  minuteOfDay: number;
+  isNight: boolean;
+  financialMinutes: number;
+  outcome: 'tolerance' | 'discount' | 'paid' | 'unmatched';
+  allocations: OvertimeTraceAllocation[];
+}
+
+export interface OvertimeTraceDay {
+  entryId: string;
+  date: string;
+  dayType: RuleDayType;
+  ruleDayType: RuleDayType;
+  isOvertimeCard: boolean;
+  // 'none' quando o dia nao tem HE a destinar (cartao normal ou HE zerada por tolerancia/desconto).
+  destination: 'paid' | 'bank' | 'ignored' | 'none';
+  // Dia do cartao de HE sem autorizacao previa quando a empresa so paga HE autorizada.
+  unauthorized: boolean;
+  workedMinutes: number;
+  dailyJourneyMinutes: number;
+  rawOvertimeRealMinutes: number;
+  toleranceRealMinutes: number;
+  discountRealMinutes: number;
+  discount: { ruleId: string; rubricKey: string; minutes: number; amount: number } | null;
+  bankMinutes: number;
+  bankWeightedMinutes: number;
+  slices: OvertimeTraceSlice[];
+}
+
+export interface OvertimeTraceRun {
+  startMinuteOfDay: number;
+  endMinuteOfDay: number;
+  isNight: boolean;
+  outcome: OvertimeTraceSlice['outcome'];
+  realMinutes: number;
+  financialMinutes: number;
+  allocations: OvertimeTraceAllocation[];
+}
+
+export interface InterjornadaViolation {
+  date: string;
+  previousDate: string;
+  restMinutes: number;
+  missingMinutes: number;
+}
+
+export interface IntrajornadaViolation {
+  entryId: string;
+  date: string;
+  workedMinutes: number;
+  breakMinutes: number;
+  requiredBreakMinutes: number;
+  missingMinutes: number;
+}
+
 export interface OvertimeComputationResult {
   weeklySummaries: WeeklySummary[];
   grandTotal50: number;
@@ -110,6 +240,8 @@ export interface OvertimeComputationResult {
   grandTotal125Minutes: number;
   grandTotalValue: number;
   grandTotalBancoHoras: number;
+  grandTotalUnauthorizedBancoHoras: number;
+  grandTotalWeightedBancoHoras: number;
   hourlyRate: number;
   rate50: number;
   rate75: number;
@@ -117,16 +249,30 @@ export interface OvertimeComputationResult {
   rate125: number;
   overtimeBuckets: Array<OvertimeBucket & { hours: number }>;
   discountBuckets: Array<DiscountBucket & { hours: number }>;
+  holidayDates: string[];
+  interjornadaViolations: InterjornadaViolation[];
+  intrajornadaViolations: IntrajornadaViolation[];
+  // Sobreaviso/prontidao ficam fora das HE: nao entram em grandTotalValue nem nos resumos semanais.
+  onCallBuckets: Array<OvertimeBucket & { hours: number }>;
+  limitUsage: Record<string, number>;
+  trace?: OvertimeTraceDay[];
 }
 
 export interface DailyOvertimePreview {
   workedMinutes: number;
   dailyJourneyMinutes: number;
+  isHoliday: boolean;
   rawOvertimeRealMinutes: number;
   rawOvertimeMinutes: number;
+  // Variacao do dia absorvida pela tolerancia do art. 58 §1 (no cartao de HE, minutos que deixam de ser pagos).
+  toleranceRealMinutes: number;
   discountRealMinutes: number;
   dayOvertimeRealMinutes: number;
   dayOvertimeMinutes: number;
+  // Credito do dia no banco apos o fator de conversao das regras (no cartao normal, igual a dayOvertimeMinutes).
+  bankWeightedMinutes: number;
+  intrajornada: IntrajornadaViolation | null;
+  trace?: OvertimeTraceDay;
 }
 
 function buildRates(settings: Settings): RatePack {
@@ -140,12 +286,30 @@ function buildRates(settings: Settings): RatePack {
   return { hourlyRate, rate50, rate75, rate100, rate125 };
 }
 
-function normalizeAnnotationText(value?: string): string {
-  return String(value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+function resolveEntryHolidayMatchers(settings: Settings): HolidayMatchers {
+  return resolveHolidayMatchers(settings.companySettings?.config?.customHolidays || []);
 }
 
-function hasAnnotationKeyword(annotationText: string | undefined, keyword: string): boolean {
-  return normalizeAnnotationText(annotationText).includes(keyword);
+// Domingo que cai em dia de trabalho da escala (12x36, revezamento) e jornada normal (Sumula 444 do TST).
+function isSundayOffSchedule(dateKey: string, dayOfWeek: number, settings: Settings): boolean {
+  if (dayOfWeek !== 0) return false;
+  const scheduleDay = resolveShiftScheduleDay(dateKey, settings);
+  return !scheduleDay || scheduleDay.isRestDay;
+}
+
+function resolveCalendarDayType(dayOfWeek: number, isHoliday: boolean, settings: Settings): RuleDayType {
+  if (isHoliday) return 'holiday';
+  if (dayOfWeek === 0) return 'sunday';
+  if (dayOfWeek === 6) {
+    return isCompensatedSaturday(dayOfWeek, !!settings.saturdayCompensation, settings.compDays) ? 'compensatedSaturday' : 'saturday';
+  }
+  return 'weekday';
+}
+
+// Feriado sem regra propria herda as regras de domingo (100%/125%) e sabado herda as de dia util.
+function resolveRuleDayType(rules: CompanyOvertimeRule[], calendarDayType: RuleDayType): RuleDayType {
+  const candidates = RULE_DAY_TYPE_FALLBACKS[calendarDayType];
+  return candidates.find((dayType) => rules.some((rule) => rule.dayType === dayType)) || candidates[candidates.length - 1];
 }
 
 function cloneBuckets(source?: Map<string, OvertimeBucket>): Map<string, OvertimeBucket> {
@@ -162,11 +326,13 @@ function createMutableTotals(): MutableTotals {
     total100Minutes: 0,
     total125Minutes: 0,
     totalBancoHoras: 0,
+    unauthorizedBancoHoras: 0,
+    weightedBancoHoras: 0,
     buckets: new Map(),
     discountBuckets: new Map(),
-    weekDayMinutesAcc: 0,
-    weekNightMinutesAcc: 0,
+    weekUsage: {},
     monthUsage: {},
+    dayUsage: {},
   };
 }
 
@@ -357,6 +523,26 @@ function resolveCompanyRules(settings: Settings, rates: RatePack): CompanyOverti
       priority: 6,
       active: true,
     },
+    {
+      id: 'holiday-day',
+      label: 'Extra feriado diurna',
+      rubricKey: 'HE_100',
+      multiplier: rates.rate100 / (rates.hourlyRate || 1),
+      period: 'day',
+      dayType: 'holiday',
+      priority: 7,
+      active: true,
+    },
+    {
+      id: 'holiday-night',
+      label: 'Extra feriado noturna',
+      rubricKey: 'HE_125',
+      multiplier: rates.rate125 / (rates.hourlyRate || 1),
+      period: 'night',
+      dayType: 'holiday',
+      priority: 8,
+      active: true,
+    },
   ];
 }
 
@@ -428,22 +614,116 @@ function recordRuleMinute(
   incrementLegacyBuckets(totals, rates.hourlyRate * rule.multiplier, rates, financialMinutes);
 }
 
-function ruleMatches(rule: CompanyOvertimeRule, isNight: boolean, isSunday: boolean): boolean {
+function resolveBankMultiplier(rule: CompanyOvertimeRule | undefined): number {
+  const value = Number(rule?.bankMultiplier);
+  return Number.isFinite(value) && value > 0 ? value : 1;
+}
+
+// Cada minuto creditado no banco vale o fator da primeira regra que o pagaria; limites de HE nao se aplicam ao banco.
+function weighBankMinutes(
+  slices: OvertimeSlice[],
+  skipRealMinutes: number,
+  rules: CompanyOvertimeRule[],
+  ruleDayType: RuleDayType
+): number {
+  const weighted = slices.slice(skipRealMinutes).reduce((sum, slice) => {
+    const rule = rules.find((candidate) => ruleMatches(candidate, slice.isNight, ruleDayType));
+    return sum + slice.financialMinutes * resolveBankMultiplier(rule);
+  }, 0);
+  return Number(weighted.toFixed(4));
+}
+
+function ruleMatches(rule: CompanyOvertimeRule, isNight: boolean, ruleDayType: RuleDayType): boolean {
   const period = rule.period || 'any';
   const dayType = rule.dayType || 'weekday';
   const periodMatch = period === 'any' || (isNight ? period === 'night' : period === 'day');
-  const dayMatch = dayType === 'any' || (isSunday ? dayType === 'sunday' : dayType === 'weekday');
+  const dayMatch = dayType === 'any' || dayType === ruleDayType;
   return periodMatch && dayMatch;
 }
 
+// O acumulador semanal separa diurno e noturno dentro de cada grupo de limite.
+function resolveWeeklyUsageKey(rule: CompanyOvertimeRule): string {
+  const period = (rule.period || 'any') === 'night' ? 'night' : 'day';
+  return `${rule.weeklyLimitGroup || 'default'}:${period}`;
+}
+
+// A faixa diaria vale para o dia inteiro (diurno e noturno juntos), como "as 2 primeiras horas do dia".
+function resolveDailyUsageKey(rule: CompanyOvertimeRule): string {
+  return rule.dailyLimitGroup || rule.id;
+}
+
+// O uso acumulado divide o mesmo mapa do mensal, com prefixo proprio, para acompanhar as copias feitas no desconto diario.
+const CUMULATIVE_USAGE_PREFIX = 'window:';
+
+function resolveCumulativeGroup(rule: CompanyOvertimeRule): string {
+  return rule.cumulativeLimitGroup || rule.id;
+}
+
+function resolveCumulativeUsageKey(rule: CompanyOvertimeRule): string {
+  return `${CUMULATIVE_USAGE_PREFIX}${resolveCumulativeGroup(rule)}`;
+}
+
+function resolveCumulativeLimit(rule: CompanyOvertimeRule): number {
+  const months = Math.floor(Number(rule.cumulativeWindowMonths || 0));
+  if (months < 1) return 0;
+  return Math.max(0, Number(rule.cumulativeLimitMinutes || 0));
+}
+
+function competenciaIndex(competencia: string): number | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(competencia || '');
+  if (!match) return null;
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  return Number(match[1]) * 12 + month - 1;
+}
+
+// Janela "calendar" agrupa blocos fixos contados a partir de janeiro (6 = semestre, 12 = ano);
+// "rolling" considera as N competencias terminadas na atual.
+export function isCompetenciaInLimitWindow(
+  competencia: string,
+  currentCompetencia: string,
+  kind: OvertimeLimitWindowKind,
+  months: number
+): boolean {
+  const index = competenciaIndex(competencia);
+  const current = competenciaIndex(currentCompetencia);
+  const size = Math.floor(Number(months || 0));
+  if (index == null || current == null || size < 1 || index >= current) return false;
+  if (kind === 'rolling') return current - index < size;
+  return Math.floor(index / size) === Math.floor(current / size);
+}
+
+function seedCumulativeUsage(rules: CompanyOvertimeRule[], options: OvertimeEngineOptions): Record<string, number> {
+  const seeded: Record<string, number> = {};
+  const currentCompetencia = options.competencia || '';
+  rules.forEach((rule) => {
+    const key = resolveCumulativeUsageKey(rule);
+    if (resolveCumulativeLimit(rule) <= 0 || key in seeded) return;
+    const group = resolveCumulativeGroup(rule);
+    const kind = rule.cumulativeWindowKind || 'calendar';
+    seeded[key] = (options.priorLimitUsage || [])
+      .filter((record) => isCompetenciaInLimitWindow(record.competencia, currentCompetencia, kind, Number(rule.cumulativeWindowMonths)))
+      .reduce((sum, record) => sum + Math.max(0, Number(record.usage?.[group] || 0)), 0);
+  });
+  return seeded;
+}
+
 function getAvailableRuleCapacity(rule: CompanyOvertimeRule, week: MutableTotals, monthUsage: Record<string, number>): number {
+  const dailyLimit = Math.max(0, Number(rule.dailyLimitMinutes || 0));
   const weeklyLimit = Math.max(0, Number(rule.weeklyLimitMinutes || 0));
   const monthlyLimit = Math.max(0, Number(rule.monthlyLimitMinutes || 0));
   const monthlyGroup = rule.monthlyLimitGroup || rule.id;
-  const weeklyAccumulator = (rule.period || 'any') === 'night' ? week.weekNightMinutesAcc : week.weekDayMinutesAcc;
+  const dailyAvailable = dailyLimit > 0
+    ? Math.max(0, dailyLimit - (week.dayUsage[resolveDailyUsageKey(rule)] || 0))
+    : Number.POSITIVE_INFINITY;
+  const weeklyAccumulator = week.weekUsage[resolveWeeklyUsageKey(rule)] || 0;
   const weeklyAvailable = weeklyLimit > 0 ? Math.max(0, weeklyLimit - weeklyAccumulator) : Number.POSITIVE_INFINITY;
   const monthlyAvailable = monthlyLimit > 0 ? Math.max(0, monthlyLimit - (monthUsage[monthlyGroup] || 0)) : Number.POSITIVE_INFINITY;
-  return Math.min(weeklyAvailable, monthlyAvailable);
+  const cumulativeLimit = resolveCumulativeLimit(rule);
+  const cumulativeAvailable = cumulativeLimit > 0
+    ? Math.max(0, cumulativeLimit - (monthUsage[resolveCumulativeUsageKey(rule)] || 0))
+    : Number.POSITIVE_INFINITY;
+  return Math.min(dailyAvailable, weeklyAvailable, monthlyAvailable, cumulativeAvailable);
 }
 
 function canUseRule(rule: CompanyOvertimeRule, week: MutableTotals, monthUsage: Record<string, number>, financialMinutes: number): boolean {
@@ -455,20 +735,81 @@ function canUseRule(rule: CompanyOvertimeRule, week: MutableTotals, monthUsage:
 }
 
 function consumeRuleUsage(rule: CompanyOvertimeRule, week: MutableTotals, monthUsage: Record<string, number>, financialMinutes: number) {
+  const dailyLimit = Math.max(0, Number(rule.dailyLimitMinutes || 0));
   const weeklyLimit = Math.max(0, Number(rule.weeklyLimitMinutes || 0));
   const monthlyLimit = Math.max(0, Number(rule.monthlyLimitMinutes || 0));
+  if (dailyLimit > 0) {
+    const dailyKey = resolveDailyUsageKey(rule);
+    week.dayUsage[dailyKey] = (week.dayUsage[dailyKey] || 0) + financialMinutes;
+  }
   if (weeklyLimit > 0) {
-    if ((rule.period || 'any') === 'night') week.weekNightMinutesAcc += financialMinutes;
-    else week.weekDayMinutesAcc += financialMinutes;
+    const weeklyKey = resolveWeeklyUsageKey(rule);
+    week.weekUsage[weeklyKey] = (week.weekUsage[weeklyKey] || 0) + financialMinutes;
   }
   if (monthlyLimit > 0) {
     const monthlyGroup = rule.monthlyLimitGroup || rule.id;
     monthUsage[monthlyGroup] = (monthUsage[monthlyGroup] || 0) + financialMinutes;
   }
+  if (resolveCumulativeLimit(rule) > 0) {
+    const cumulativeKey = resolveCumulativeUsageKey(rule);
+    monthUsage[cumulativeKey] = (monthUsage[cumulativeKey] || 0) + financialMinutes;
+  }
+}
+
+function snapshotRuleCapacity(rule: CompanyOvertimeRule, week: MutableTotals, monthUsage: Record<string, number>) {
+  const dailyLimit = Math.max(0, Number(rule.dailyLimitMinutes || 0));
+  const weeklyLimit = Math.max(0, Number(rule.weeklyLimitMinutes || 0));
+  const monthlyLimit = Math.max(0, Number(rule.monthlyLimitMinutes || 0));
+  const dailyGroup = resolveDailyUsageKey(rule);
+  const weeklyGroup = resolveWeeklyUsageKey(rule);
+  const monthlyGroup = rule.monthlyLimitGroup || rule.id;
+  const cumulativeLimit = resolveCumulativeLimit(rule);
+  return {
+    daily: dailyLimit > 0
+      ? { group: dailyGroup, limitMinutes: dailyLimit, remaining: Math.max(0, dailyLimit - (week.dayUsage[dailyGroup] || 0)) }
+      : null,
+    weekly: weeklyLimit > 0
+      ? { group: weeklyGroup, limitMinutes: weeklyLimit, remaining: Math.max(0, weeklyLimit - (week.weekUsage[weeklyGroup] || 0)) }
+      : null,
+    monthly: monthlyLimit > 0
+      ? { group: monthlyGroup, limitMinutes: monthlyLimit, remaining: Math.max(0, monthlyLimit - (monthUsage[monthlyGroup] || 0)) }
+      : null,
+    cumulative: cumulativeLimit > 0
+      ? {
+        group: resolveCumulativeGroup(rule),
+        limitMinutes: cumulativeLimit,
+        remaining: Math.max(0, cumulativeLimit - (monthUsage[resolveCumulativeUsageKey(rule)] || 0)),
+      }
+      : null,
+  };
+}
+
+function buildTraceAllocation(
+  rule: CompanyOvertimeRule,
+  financialMinutes: number,
+  before: ReturnType<typeof snapshotRuleCapacity>,
+  after: ReturnType<typeof snapshotRuleCapacity>
+): OvertimeTraceAllocation {
+  const toCapacity = (
+    start: { group: string; limitMinutes: number; remaining: number } | null,
+    end: { remaining: number } | null
+  ): OvertimeTraceCapacity | null => start
+    ? { group: start.group, limitMinutes: start.limitMinutes, remainingBefore: start.remaining, remainingAfter: end?.remaining ?? start.remaining }
+    : null;
+  return {
+    ruleId: rule.id,
+    ruleLabel: rule.label,
+    rubricKey: rule.rubricKey,
+    financialMinutes,
+    daily: toCapacity(before.daily, after.daily),
+    weekly: toCapacity(before.weekly, after.weekly),
+    monthly: toCapacity(before.monthly, after.monthly),
+    cumulative: toCapacity(before.cumulative, after.cumulative),
+  };
 }
 
-function pickRule(rules: CompanyOvertimeRule[], isNight: boolean, isSunday: boolean, week: MutableTotals, monthUsage: Record<string, number>, financialMinutes: number) {
-  const matching = rules.filter((rule) => ruleMatches(rule, isNight, isSunday));
+function pickRule(rules: CompanyOvertimeRule[], isNight: boolean, ruleDayType: RuleDayType, week: MutableTotals, monthUsage: Record<string, number>, financialMinutes: number) {
+  const matching = rules.filter((rule) => ruleMatches(rule, isNight, ruleDayType));
   if (matching.length === 0) return null;
   for (const rule of matching) {
     if (canUseRule(rule, week, monthUsage, financialMinutes)) return rule;
@@ -479,14 +820,23 @@ function pickRule(rules: CompanyOvertimeRule[], isNight: boolean, isSunday: bool
 function allocateSliceAcrossRules(
   financialMinutes: number,
   isNight: boolean,
-  isSunday: boolean,
+  ruleDayType: RuleDayType,
   rules: CompanyOvertimeRule[],
   week: MutableTotals,
   monthUsage: Record<string, number>,
-  apply: (rule: CompanyOvertimeRule, allocatedFinancialMinutes: number) => void
+  apply: (rule: CompanyOvertimeRule, allocatedFinancialMinutes: number) => void,
+  onTrace?: (allocation: OvertimeTraceAllocation) => void
 ) {
   let remaining = financialMinutes;
-  const matching = rules.filter((rule) => ruleMatches(rule, isNight, isSunday));
+  const consume = (rule: CompanyOvertimeRule, allocatedFinancialMinutes: number) => {
+    const before = onTrace ? snapshotRuleCapacity(rule, week, monthUsage) : null;
+    consumeRuleUsage(rule, week, monthUsage, allocatedFinancialMinutes);
+    if (onTrace && before) {
+      onTrace(buildTraceAllocation(rule, allocatedFinancialMinutes, before, snapshotRuleCapacity(rule, week, monthUsage)));
+    }
+    apply(rule, allocatedFinancialMinutes);
+  };
+  const matching = rules.filter((rule) => ruleMatches(rule, isNight, ruleDayType));
   if (matching.length === 0) return;
 
   for (let index = 0; index < matching.length && remaining > 0.0001; index++) {
@@ -498,54 +848,148 @@ function allocateSliceAcrossRules(
       : remaining;
 
     if (allocatable > 0.0001) {
-      consumeRuleUsage(rule, week, monthUsage, allocatable);
-      apply(rule, allocatable);
+      consume(rule, allocatable);
       remaining -= allocatable;
       continue;
     }
 
     if (isLast) {
-      consumeRuleUsage(rule, week, monthUsage, remaining);
-      apply(rule, remaining);
+      consume(rule, remaining);
       remaining = 0;
     }
   }
 }
 
 const resolveJourneyRule: DayRule = (ctx, next) => {
-  const date = parseISO(ctx.entry.date);
-  const dayOfWeek = isValid(date) ? date.getDay() : 0;
-  ctx.dailyJourneyMinutesEntry = resolveDailyJourneyMinutes(
-    resolveEffectiveCalculationConfig(ctx.settings).dailyJourney,
-    ctx.isOvertimeCardEntry,
-    dayOfWeek,
-    !!ctx.settings.saturdayCompensation,
-    ctx.settings.compDays
-  );
+  ctx.dailyJourneyMinutesEntry = resolveScheduledJourneyMinutes(ctx.entry.date, ctx.isOvertimeCardEntry, ctx.settings);
   next();
 };
 
 const computeWorkedTimeRule: DayRule = (ctx, next) => {
-  if (hasAnnotationKeyword(ctx.entry.annotationText, 'ABONADO') || hasAnnotationKeyword(ctx.entry.annotationText, 'FALTA ABONADA')) {
+  const statusEffects = DAY_STATUS_EFFECTS[ctx.dayStatus];
+  if (statusEffects.ignoresWorkedTime) {
     ctx.ignoreDay = true;
     ctx.dailyTotalMinutes = 0;
     ctx.overtimeSlices = [];
     ctx.rawOvertimeRealMinutes = 0;
     ctx.rawOvertimeMinutes = 0;
+    ctx.toleranceRealMinutes = 0;
     ctx.dayOvertimeMinutes = 0;
     next();
     return;
   }
-  if (hasAnnotationKeyword(ctx.entry.annotationText, 'BCO')) ctx.bankOnlyDay = true;
+  if (statusEffects.bankOnly) ctx.bankOnlyDay = true;
   ctx.dailyTotalMinutes = sumEntryWorkedMinutes(ctx.entry);
   next();
 };
 
+// Politica da empresa: sem autorizacao previa, a HE do cartao extra vai para o banco em vez das rubricas pagas.
+const checkOvertimeAuthorizationRule: DayRule = (ctx, next) => {
+  const policy = ctx.settings.companySettings?.config?.overtimeAuthorizationPolicy;
+  if (policy === 'authorizedOnly' && ctx.isOvertimeCardEntry && !ctx.ignoreDay && !ctx.entry.overtimeAuthorized) {
+    ctx.bankOnlyDay = true;
+    ctx.unauthorizedDay = true;
+    if (ctx.trace) ctx.trace.unauthorized = true;
+  }
+  next();
+};
+
+// Intervalos trabalhados do dia em minutos a partir da meia-noite; periodos que viram o dia seguem depois do anterior.
+function resolveDayWorkedIntervals(entry: TimeEntry): Array<[number, number]> {
+  const intervals: Array<[number, number]> = [];
+  let offset = 0;
+  let previousEnd: number | null = null;
+  periodsFromEntry(entry).forEach(([start, end]) => {
+    const duration = diffMinutes(start, end);
+    if (!normalizeClock(start) || !normalizeClock(end) || duration <= 0) return;
+    let startMinutes = timeToMinutes(start) + offset;
+    if (previousEnd != null && startMinutes < previousEnd) {
+      startMinutes += 24 * 60;
+      offset += 24 * 60;
+    }
+    previousEnd = startMinutes + duration;
+    intervals.push([startMinutes, previousEnd]);
+  });
+  return intervals;
+}
+
+// Art. 71: acima do limite de jornada o intervalo minimo e obrigatorio; so o tempo suprimido e indenizado.
+// Cartao normal e cartao de HE do mesmo dia formam uma unica jornada (as entradas ja vem normalizadas e arredondadas).
+function resolveIntrajornadaViolations(entries: TimeEntry[], settings: Settings): IntrajornadaViolation[] {
+  const effectiveConfig = resolveEffectiveCalculationConfig(settings);
+  const requiredBreakMinutes = Math.round(effectiveConfig.intrajornadaMinimumMinutes);
+  if (requiredBreakMinutes <= 0) return [];
+
+  // A violacao aponta para a linha do cartao normal quando o dia tem as duas.
+  const byDate = new Map<string, { entryId: string; fromOvertimeCard: boolean; intervals: Array<[number, number]> }>();
+  for (const entry of entries) {
+    if (!entry.date || DAY_STATUS_EFFECTS[resolveEntryDayStatus(entry, settings)].ignoresWorkedTime) continue;
+    const intervals = resolveDayWorkedIntervals(entry);
+    if (intervals.length === 0) continue;
+    const current = byDate.get(entry.date);
+    if (!current) {
+      byDate.set(entry.date, { entryId: entry.id, fromOvertimeCard: !!entry.isOvertimeCard, intervals });
+      continue;
+    }
+    current.intervals.push(...intervals);
+    if (current.fromOvertimeCard && !entry.isOvertimeCard) {
+      current.entryId = entry.id;
+      current.fromOvertimeCard = false;
+    }
+  }
+
+  const violations: IntrajornadaViolation[] = [];
+  byDate.forEach(({ entryId, intervals }, date) => {
+    const merged: Array<[number, number]> = [];
+    intervals.sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else merged.push([start, end]);
+    });
+    const workedMinutes = merged.reduce((sum, [start, end]) => sum + end - start, 0);
+    if (workedMinutes <= effectiveConfig.intrajornadaThresholdHours * 60) return;
+    const breakMinutes = merged.slice(1).reduce((sum, [start], index) => sum + start - merged[index][1], 0);
+    if (breakMinutes >= requiredBreakMinutes) return;
+    violations.push({
+      entryId,
+      date,
+      workedMinutes,
+      breakMinutes,
+      requiredBreakMinutes,
+      missingMinutes: requiredBreakMinutes - breakMinutes,
+    });
+  });
+  return violations.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function detectIntrajornadaViolations(entries: TimeEntry[], settings: Settings): IntrajornadaViolation[] {
+  const rounding = resolvePunchRounding(settings);
+  return resolveIntrajornadaViolations(normalizeOvernightEntries(entries).map((entry) => applyPunchRounding(entry, rounding)), settings);
+}
+
+const checkIntrajornadaRule: DayRule = (ctx, next) => {
+  ctx.intrajornada = ctx.ignoreDay ? null : ctx.dayIntrajornada;
+  if (ctx.intrajornada) {
+    const multiplier = 1 + resolveEffectiveCalculationConfig(ctx.settings).intrajornadaPercent / 100;
+    for (const totals of [ctx.week, ctx.grand]) {
+      recordIndemnityMinutes(totals, ctx.settings, {
+        rubricKey: 'INTRAJORNADA',
+        labelFallback: 'Indenizacao Intrajornada',
+        multiplier,
+        minutes: ctx.intrajornada.missingMinutes,
+        hourlyRate: ctx.rates.hourlyRate,
+      });
+    }
+  }
+  next();
+};
+
 const computeDayOvertimeRule: DayRule = (ctx, next) => {
   if (ctx.ignoreDay) {
     ctx.overtimeSlices = [];
     ctx.rawOvertimeRealMinutes = 0;
     ctx.rawOvertimeMinutes = 0;
+    ctx.toleranceRealMinutes = 0;
     ctx.dayOvertimeMinutes = 0;
     next();
     return;
@@ -555,14 +999,15 @@ const computeDayOvertimeRule: DayRule = (ctx, next) => {
     { ...ctx.entry, isOvertimeCard: ctx.isOvertimeCardEntry },
     ctx.settings
   );
-  const workedSlices = getWorkedMinuteSlices(ctx.entry, ctx.nightCutoffMinutes, NIGHT_END_MINUTES);
-  const overtimeSlices: Array<{ isNight: boolean; financialMinutes: number }> = [];
+  const workedSlices = getWorkedMinuteSlices(ctx.entry, ctx.nightWindow);
+  const overtimeSlices: OvertimeSlice[] = [];
   let workedRealMinutes = 0;
   for (const slice of workedSlices) {
-    const countsAsOvertime = ctx.isSunday || workedRealMinutes >= ctx.dailyJourneyMinutesEntry;
+    const countsAsOvertime = ctx.isSunday || ctx.isHoliday || workedRealMinutes >= ctx.dailyJourneyMinutesEntry;
     workedRealMinutes += 1;
     if (!countsAsOvertime) continue;
     overtimeSlices.push({
+      minuteOfDay: slice.minuteOfDay,
       isNight: slice.isNight,
       financialMinutes: slice.financialMinutes,
     });
@@ -571,47 +1016,164 @@ const computeDayOvertimeRule: DayRule = (ctx, next) => {
   ctx.overtimeSlices = overtimeSlices;
   ctx.rawOvertimeRealMinutes = preview.rawOvertimeRealMinutes;
   ctx.rawOvertimeMinutes = preview.rawOvertimeMinutes;
+  ctx.toleranceRealMinutes = ctx.isOvertimeCardEntry ? preview.toleranceRealMinutes : 0;
   ctx.dayOvertimeMinutes = preview.dayOvertimeMinutes;
   next();
 };
 
-export function analyzeDailyOvertimePreview(entry: TimeEntry, settings: Settings): DailyOvertimePreview {
-  const normalizedEntry = normalizeOvernightEntries([entry])[0] || entry;
+function createTraceDay(
+  entry: TimeEntry,
+  dayType: RuleDayType,
+  ruleDayType: RuleDayType,
+  workedMinutes: number,
+  dailyJourneyMinutes: number
+): OvertimeTraceDay {
+  return {
+    entryId: entry.id,
+    date: entry.date,
+    dayType,
+    ruleDayType,
+    isOvertimeCard: !!entry.isOvertimeCard,
+    destination: 'paid',
+    unauthorized: false,
+    workedMinutes,
+    dailyJourneyMinutes,
+    rawOvertimeRealMinutes: 0,
+    toleranceRealMinutes: 0,
+    discountRealMinutes: 0,
+    discount: null,
+    bankMinutes: 0,
+    bankWeightedMinutes: 0,
+    slices: [],
+  };
+}
+
+// Percorre as fatias de HE do dia (pulando tolerancia e desconto do inicio) e reparte entre as regras.
+function allocateDayOvertimeSlices(params: {
+  slices: OvertimeSlice[];
+  rawOvertimeRealMinutes: number;
+  toleranceRealMinutes: number;
+  dayOvertimeMinutes: number;
+  settings: Settings;
+  rules: CompanyOvertimeRule[];
+  ruleDayType: RuleDayType;
+  week: MutableTotals;
+  monthUsage: Record<string, number>;
+  trace: OvertimeTraceDay | null;
+  apply: (rule: CompanyOvertimeRule, allocatedFinancialMinutes: number) => void;
+}) {
+  const { slices, dayOvertimeMinutes, rules, ruleDayType, week, monthUsage, trace, apply } = params;
+  let remainingToleranceRealMinutes = params.toleranceRealMinutes;
+  let remainingDiscountRealMinutes = resolveDailyOvertimeDiscountMinutes(
+    params.rawOvertimeRealMinutes - params.toleranceRealMinutes,
+    params.settings
+  );
+  let processedFinancialMinutes = 0;
+
+  for (const slice of slices) {
+    if (remainingToleranceRealMinutes > 0) {
+      remainingToleranceRealMinutes -= 1;
+      trace?.slices.push({ ...slice, outcome: 'tolerance', allocations: [] });
+      continue;
+    }
+
+    if (processedFinancialMinutes + 0.0001 >= dayOvertimeMinutes) break;
+
+    if (remainingDiscountRealMinutes > 0) {
+      remainingDiscountRealMinutes -= 1;
+      trace?.slices.push({ ...slice, outcome: 'discount', allocations: [] });
+      continue;
+    }
+
+    const financialMinutes = Math.min(slice.financialMinutes, dayOvertimeMinutes - processedFinancialMinutes);
+    const rule = pickRule(rules, slice.isNight, ruleDayType, week, monthUsage, financialMinutes);
+    if (!rule) {
+      trace?.slices.push({ ...slice, financialMinutes, outcome: 'unmatched', allocations: [] });
+      processedFinancialMinutes += financialMinutes;
+      continue;
+    }
+    const traceSlice: OvertimeTraceSlice | null = trace
+      ? { ...slice, financialMinutes, outcome: 'paid', allocations: [] }
+      : null;
+    allocateSliceAcrossRules(
+      financialMinutes,
+      slice.isNight,
+      ruleDayType,
+      rules,
+      week,
+      monthUsage,
+      apply,
+      traceSlice ? (allocation) => traceSlice.allocations.push(allocation) : undefined
+    );
+    if (trace && traceSlice) trace.slices.push(traceSlice);
+    processedFinancialMinutes += financialMinutes;
+  }
+}
+
+export function analyzeDailyOvertimePreview(
+  entry: TimeEntry,
+  settings: Settings,
+  options: OvertimeEngineOptions = {}
+): DailyOvertimePreview {
+  const normalizedEntry = applyPunchRounding(normalizeOvernightEntries([entry])[0] || entry, resolvePunchRounding(settings));
   const effectiveConfig = resolveEffectiveCalculationConfig(settings);
   const date = parseISO(normalizedEntry.date);
   const dayOfWeek = isValid(date) ? date.getDay() : 0;
-  const isSunday = dayOfWeek === 0;
-  const dailyJourneyMinutes = resolveDailyJourneyMinutes(
-    effectiveConfig.dailyJourney,
-    !!normalizedEntry.isOvertimeCard,
-    dayOfWeek,
-    !!settings.saturdayCompensation,
-    settings.compDays
-  );
+  const isSunday = isSundayOffSchedule(normalizedEntry.date, dayOfWeek, settings);
+  const isHoliday = matchesHoliday(normalizedEntry.date, resolveEntryHolidayMatchers(settings))
+    || DAY_STATUS_EFFECTS[resolveEntryDayStatus(normalizedEntry, settings)].treatsAsHoliday;
+  const dailyJourneyMinutes = resolveScheduledJourneyMinutes(normalizedEntry.date, !!normalizedEntry.isOvertimeCard, settings);
   const workedMinutes = sumEntryWorkedMinutes(normalizedEntry);
+  const intrajornada = resolveIntrajornadaViolations([normalizedEntry], settings)[0] || null;
+
+  const rules = resolveCompanyRules(settings, buildRates(settings));
+  const calendarDayType = resolveCalendarDayType(dayOfWeek, isHoliday, settings);
+  const ruleDayType = resolveRuleDayType(rules, calendarDayType);
+  const trace = options.trace
+    ? createTraceDay(normalizedEntry, calendarDayType, ruleDayType, workedMinutes, dailyJourneyMinutes)
+    : null;
+
+  const tolerance = resolveMarkingTolerance(settings);
 
   if (!normalizedEntry.isOvertimeCard) {
+    const scheduled = resolveScheduledMarkings(normalizedEntry.date, settings);
+    const toleranceRealMinutes = dailyJourneyMinutes > 0 && workedMinutes > 0
+      ? resolveToleratedMinutes(
+        Math.abs(workedMinutes - dailyJourneyMinutes),
+        resolveMarkingVariations(normalizedEntry, scheduled.expectedStartMinutes, scheduled.expectedEndMinutes),
+        tolerance
+      )
+      : 0;
+    if (trace) {
+      trace.destination = 'none';
+      trace.toleranceRealMinutes = toleranceRealMinutes;
+    }
     return {
       workedMinutes,
       dailyJourneyMinutes,
+      isHoliday,
       rawOvertimeRealMinutes: 0,
       rawOvertimeMinutes: 0,
+      toleranceRealMinutes,
       discountRealMinutes: 0,
       dayOvertimeRealMinutes: workedMinutes,
       dayOvertimeMinutes: workedMinutes,
+      bankWeightedMinutes: workedMinutes,
+      intrajornada,
+      ...(trace ? { trace } : {}),
     };
   }
 
-  const nightCutoffMinutes = timeToMinutes(effectiveConfig.nightCutoff || '22:00');
-  const workedSlices = getWorkedMinuteSlices(normalizedEntry, nightCutoffMinutes, NIGHT_END_MINUTES);
-  const overtimeSlices: Array<{ isNight: boolean; financialMinutes: number }> = [];
+  const workedSlices = getWorkedMinuteSlices(normalizedEntry, buildNightWindow(effectiveConfig));
+  const overtimeSlices: OvertimeSlice[] = [];
   let workedRealMinutes = 0;
 
   for (const slice of workedSlices) {
-    const countsAsOvertime = isSunday || workedRealMinutes >= dailyJourneyMinutes;
+    const countsAsOvertime = isSunday || isHoliday || workedRealMinutes >= dailyJourneyMinutes;
     workedRealMinutes += 1;
     if (!countsAsOvertime) continue;
     overtimeSlices.push({
+      minuteOfDay: slice.minuteOfDay,
       isNight: slice.isNight,
       financialMinutes: slice.financialMinutes,
     });
@@ -619,23 +1181,52 @@ export function analyzeDailyOvertimePreview(entry: TimeEntry, settings: Settings
 
   const rawOvertimeRealMinutes = overtimeSlices.length;
   const rawOvertimeMinutes = Number(overtimeSlices.reduce((sum, slice) => sum + slice.financialMinutes, 0).toFixed(4));
-  const discountRealMinutes = resolveDailyOvertimeDiscountMinutes(rawOvertimeRealMinutes, settings);
-  const dayOvertimeRealMinutes = Math.max(0, rawOvertimeRealMinutes - discountRealMinutes);
+  // O cartao de HE nao tem horario previsto: a propria extra do dia e a variacao da marcacao.
+  const toleranceRealMinutes = resolveToleratedMinutes(rawOvertimeRealMinutes, [], tolerance);
+  const discountRealMinutes = resolveDailyOvertimeDiscountMinutes(rawOvertimeRealMinutes - toleranceRealMinutes, settings);
+  const dayOvertimeRealMinutes = Math.max(0, rawOvertimeRealMinutes - toleranceRealMinutes - discountRealMinutes);
   const dayOvertimeMinutes = Number(
     overtimeSlices
-      .slice(discountRealMinutes)
+      .slice(toleranceRealMinutes + discountRealMinutes)
       .reduce((sum, slice) => sum + slice.financialMinutes, 0)
       .toFixed(4)
   );
+  const bankWeightedMinutes = weighBankMinutes(overtimeSlices, toleranceRealMinutes + discountRealMinutes, rules, ruleDayType);
+
+  // Sem contexto de semana, o preview reparte as regras como se o dia fosse o primeiro da semana e do mes.
+  if (trace) {
+    trace.rawOvertimeRealMinutes = rawOvertimeRealMinutes;
+    trace.toleranceRealMinutes = toleranceRealMinutes;
+    trace.discountRealMinutes = discountRealMinutes;
+    allocateDayOvertimeSlices({
+      slices: overtimeSlices,
+      rawOvertimeRealMinutes,
+      toleranceRealMinutes,
+      dayOvertimeMinutes,
+      settings,
+      rules,
+      ruleDayType,
+      week: createMutableTotals(),
+      monthUsage: {},
+      trace,
+      apply: () => {},
+    });
+    if (dayOvertimeMinutes <= 0) trace.destination = 'none';
+  }
 
   return {
     workedMinutes,
     dailyJourneyMinutes,
+    isHoliday,
     rawOvertimeRealMinutes,
     rawOvertimeMinutes,
+    toleranceRealMinutes,
     discountRealMinutes,
     dayOvertimeRealMinutes,
     dayOvertimeMinutes,
+    bankWeightedMinutes,
+    intrajornada,
+    ...(trace ? { trace } : {}),
   };
 }
 
@@ -646,43 +1237,48 @@ const classifyAndAccumulateRule: DayRule = (ctx, next) => {
   }
 
   if (!ctx.isOvertimeCardEntry || ctx.bankOnlyDay) {
+    // So a HE do cartao desviada ao banco passa pela conversao; o cartao normal credita o trabalhado 1:1.
+    const weightedMinutes = ctx.isOvertimeCardEntry
+      ? weighBankMinutes(
+        ctx.overtimeSlices,
+        ctx.toleranceRealMinutes + resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes - ctx.toleranceRealMinutes, ctx.settings),
+        ctx.rules,
+        ctx.ruleDayType
+      )
+      : ctx.dayOvertimeMinutes;
     ctx.week.totalBancoHoras += ctx.dayOvertimeMinutes;
     ctx.grand.totalBancoHoras += ctx.dayOvertimeMinutes;
+    ctx.week.weightedBancoHoras += weightedMinutes;
+    ctx.grand.weightedBancoHoras += weightedMinutes;
+    if (ctx.unauthorizedDay) {
+      ctx.week.unauthorizedBancoHoras += ctx.dayOvertimeMinutes;
+      ctx.grand.unauthorizedBancoHoras += ctx.dayOvertimeMinutes;
+    }
+    if (ctx.trace) {
+      ctx.trace.destination = 'bank';
+      ctx.trace.bankMinutes = ctx.dayOvertimeMinutes;
+      ctx.trace.bankWeightedMinutes = weightedMinutes;
+    }
     next();
     return;
   }
 
-  let remainingDiscountRealMinutes = resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes, ctx.settings);
-  let processedFinancialMinutes = 0;
-
-  for (const slice of ctx.overtimeSlices) {
-    if (processedFinancialMinutes + 0.0001 >= ctx.dayOvertimeMinutes) break;
-
-    if (remainingDiscountRealMinutes > 0) {
-      remainingDiscountRealMinutes -= 1;
-      continue;
-    }
-
-    const financialMinutes = Math.min(slice.financialMinutes, ctx.dayOvertimeMinutes - processedFinancialMinutes);
-    const rule = pickRule(ctx.rules, slice.isNight, ctx.isSunday, ctx.week, ctx.grand.monthUsage, financialMinutes);
-    if (!rule) {
-      processedFinancialMinutes += financialMinutes;
-      continue;
-    }
-    allocateSliceAcrossRules(
-      financialMinutes,
-      slice.isNight,
-      ctx.isSunday,
-      ctx.rules,
-      ctx.week,
-      ctx.grand.monthUsage,
-      (matchedRule, allocatedFinancialMinutes) => {
-        recordRuleMinute(ctx.week, ctx.settings, ctx.rates, matchedRule, allocatedFinancialMinutes);
-        recordRuleMinute(ctx.grand, ctx.settings, ctx.rates, matchedRule, allocatedFinancialMinutes);
-      }
-    );
-    processedFinancialMinutes += financialMinutes;
-  }
+  allocateDayOvertimeSlices({
+    slices: ctx.overtimeSlices,
+    rawOvertimeRealMinutes: ctx.rawOvertimeRealMinutes,
+    toleranceRealMinutes: ctx.toleranceRealMinutes,
+    dayOvertimeMinutes: ctx.dayOvertimeMinutes,
+    settings: ctx.settings,
+    rules: ctx.rules,
+    ruleDayType: ctx.ruleDayType,
+    week: ctx.week,
+    monthUsage: ctx.grand.monthUsage,
+    trace: ctx.trace,
+    apply: (matchedRule, allocatedFinancialMinutes) => {
+      recordRuleMinute(ctx.week, ctx.settings, ctx.rates, matchedRule, allocatedFinancialMinutes);
+      recordRuleMinute(ctx.grand, ctx.settings, ctx.rates, matchedRule, allocatedFinancialMinutes);
+    },
+  });
 
   next();
 };
@@ -690,6 +1286,8 @@ const classifyAndAccumulateRule: DayRule = (ctx, next) => {
 const runDayRuleChain = composeRules([
   resolveJourneyRule,
   computeWorkedTimeRule,
+  checkOvertimeAuthorizationRule,
+  checkIntrajornadaRule,
   computeDayOvertimeRule,
   classifyAndAccumulateRule,
 ]);
@@ -756,20 +1354,20 @@ function buildMinuteTimeline(entry: TimeEntry, isSunday: boolean, dailyJourneyMi
 }
 
 function classifyTimelineMinutes(
-  slices: Array<{ isNight: boolean; financialMinutes: number }>,
+  slices: OvertimeSlice[],
   rules: CompanyOvertimeRule[],
-  isSunday: boolean,
+  ruleDayType: RuleDayType,
   week: MutableTotals,
   monthUsage: Record<string, number>
 ) {
   const allocations: Array<{ rule: CompanyOvertimeRule; financialMinutes: number }> = [];
   for (const slice of slices) {
-    const pickedRule = pickRule(rules, slice.isNight, isSunday, week, monthUsage, slice.financialMinutes);
+    const pickedRule = pickRule(rules, slice.isNight, ruleDayType, week, monthUsage, slice.financialMinutes);
     if (!pickedRule) continue;
     allocateSliceAcrossRules(
       slice.financialMinutes,
       slice.isNight,
-      isSunday,
+      ruleDayType,
       rules,
       week,
       monthUsage,
@@ -782,10 +1380,10 @@ function classifyTimelineMinutes(
 }
 
 function takeSlicesUntilFinancialTarget(
-  slices: Array<{ isNight: boolean; financialMinutes: number }>,
+  slices: OvertimeSlice[],
   financialTarget: number
 ) {
-  const selected: Array<{ isNight: boolean; financialMinutes: number }> = [];
+  const selected: OvertimeSlice[] = [];
   let consumed = 0;
   for (const slice of slices) {
     if (consumed + 0.0001 >= financialTarget) break;
@@ -795,132 +1393,441 @@ function takeSlicesUntilFinancialTarget(
   return selected;
 }
 
-function recordInterjornadaBuckets(entries: TimeEntry[], settings: Settings, totals: MutableTotals, hourlyRate: number) {
-  const sorted = entries
-    .filter((entry) => !!entry.date)
-    .slice()
-    .sort((a, b) => String(a.date).localeCompare(String(b.date)));
+function resolveShiftBoundaries(entries: TimeEntry[]) {
+  const byDate = new Map<string, { start: number; end: number }>();
 
-  for (let index = 0; index < sorted.length - 1; index++) {
-    const current = sorted[index];
-    const next = sorted[index + 1];
-    const currentDate = parseISO(current.date);
-    const nextDate = parseISO(next.date);
-    if (!isValid(currentDate) || !isValid(nextDate)) continue;
-
-    const lastExit = getLastExitInfo(current);
-    const firstEntry = getFirstEntryMinutes(next);
+  for (const entry of entries) {
+    if (!entry.date) continue;
+    const date = parseISO(entry.date);
+    if (!isValid(date)) continue;
+    const lastExit = getLastExitInfo(entry);
+    const firstEntry = getFirstEntryMinutes(entry);
     if (!lastExit || firstEntry == null) continue;
 
-    const currentExitAt = new Date(currentDate);
-    currentExitAt.setDate(currentExitAt.getDate() + lastExit.dayOffset);
-    currentExitAt.setHours(0, 0, 0, 0);
-    currentExitAt.setMinutes(lastExit.minuteOfDay);
+    const dayStart = new Date(date);
+    dayStart.setHours(0, 0, 0, 0);
+    const startAt = dayStart.getTime() + firstEntry * 60000;
+    const exitAt = new Date(dayStart);
+    exitAt.setDate(exitAt.getDate() + lastExit.dayOffset);
+    exitAt.setMinutes(lastExit.minuteOfDay);
+    const endAt = exitAt.getTime();
+
+    const current = byDate.get(entry.date);
+    byDate.set(entry.date, {
+      start: current ? Math.min(current.start, startAt) : startAt,
+      end: current ? Math.max(current.end, endAt) : endAt,
+    });
+  }
 
-    const nextEntryAt = new Date(nextDate);
-    nextEntryAt.setHours(0, 0, 0, 0);
-    nextEntryAt.setMinutes(firstEntry);
+  return Array.from(byDate.entries())
+    .map(([date, boundaries]) => ({ date, ...boundaries }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
 
-    const interjornadaMinutes = Math.round((nextEntryAt.getTime() - currentExitAt.getTime()) / 60000);
-    if (interjornadaMinutes >= 11 * 60 || interjornadaMinutes <= 0) continue;
+// Cartao normal e cartao de HE do mesmo dia formam uma unica jornada para o art. 66.
+export function detectInterjornadaViolations(entries: TimeEntry[], settings: Settings): InterjornadaViolation[] {
+  const minimumRestMinutes = Math.round(resolveEffectiveCalculationConfig(settings).interjornadaMinimumHours * 60);
+  if (minimumRestMinutes <= 0) return [];
+
+  const rounding = resolvePunchRounding(settings);
+  const shifts = resolveShiftBoundaries(normalizeOvernightEntries(entries).map((entry) => applyPunchRounding(entry, rounding)));
+  const violations: InterjornadaViolation[] = [];
+  for (let index = 0; index < shifts.length - 1; index++) {
+    const current = shifts[index];
+    const next = shifts[index + 1];
+    const restMinutes = Math.round((next.start - current.end) / 60000);
+    if (restMinutes >= minimumRestMinutes || restMinutes <= 0) continue;
+    violations.push({
+      date: next.date,
+      previousDate: current.date,
+      restMinutes,
+      missingMinutes: minimumRestMinutes - restMinutes,
+    });
+  }
+  return violations;
+}
+
+// Intervalos suprimidos (inter e intrajornada) sao pagos fora das faixas de HE, em rubrica propria.
+function recordIndemnityMinutes(
+  totals: MutableTotals,
+  settings: Settings,
+  params: { rubricKey: string; labelFallback: string; multiplier: number; minutes: number; hourlyRate: number }
+) {
+  const rubric = resolveRubricEntry(settings, params.rubricKey, params.labelFallback);
+  const existing = totals.buckets.get(params.rubricKey) || {
+    rubricKey: params.rubricKey,
+    code: rubric.code,
+    label: rubric.label,
+    ruleId: params.rubricKey.toLowerCase(),
+    multiplier: params.multiplier,
+    period: 'any' as const,
+    minutes: 0,
+    amount: 0,
+  };
+  existing.minutes += params.minutes;
+  existing.amount += ((params.hourlyRate * params.multiplier) / 60) * params.minutes;
+  totals.buckets.set(params.rubricKey, existing);
+}
+
+// Acionamentos dentro da janela ja entram como marcacao (normal ou HE) e saem do tempo pago a fracao; as janelas
+// sao agrupadas por dia para que a anotacao repetida nos dois cartoes nao pague o sobreaviso em dobro.
+function recordOnCallBuckets(entries: TimeEntry[], settings: Settings, totals: MutableTotals, hourlyRate: number) {
+  const entriesByDate = new Map<string, TimeEntry[]>();
+  entries.forEach((entry) => {
+    if (DAY_STATUS_EFFECTS[resolveEntryDayStatus(entry, settings)].ignoresWorkedTime) return;
+    const dayEntries = entriesByDate.get(entry.date) || [];
+    dayEntries.push(entry);
+    entriesByDate.set(entry.date, dayEntries);
+  });
+  entriesByDate.forEach((dayEntries) => {
+    const summary = summarizeDayOnCallMinutes(dayEntries, entries);
+    ON_CALL_KINDS.forEach((kind) => {
+      if (summary[kind].paidMinutes <= 0) return;
+      recordIndemnityMinutes(totals, settings, {
+        rubricKey: ON_CALL_RUBRIC_KEYS[kind],
+        labelFallback: ON_CALL_LABELS[kind],
+        multiplier: ON_CALL_HOUR_FRACTIONS[kind],
+        minutes: summary[kind].paidMinutes,
+        hourlyRate,
+      });
+    });
+  });
+}
 
-    const missingMinutes = 11 * 60 - interjornadaMinutes;
-    const rubric = resolveRubricEntry(settings, 'INTERJORNADA', 'Indenizacao Interjornada');
-    const existing = totals.buckets.get('INTERJORNADA') || {
+function recordInterjornadaBuckets(
+  violations: InterjornadaViolation[],
+  settings: Settings,
+  totals: MutableTotals,
+  hourlyRate: number
+) {
+  const multiplier = 1 + resolveEffectiveCalculationConfig(settings).interjornadaPercent / 100;
+  for (const violation of violations) {
+    recordIndemnityMinutes(totals, settings, {
       rubricKey: 'INTERJORNADA',
-      code: rubric.code,
-      label: rubric.label,
-      ruleId: 'interjornada',
-      multiplier: 1,
-      period: 'any' as const,
-      minutes: 0,
-      amount: 0,
-    };
-    existing.minutes += missingMinutes;
-    existing.amount += (hourlyRate / 60) * missingMinutes;
-    totals.buckets.set('INTERJORNADA', existing);
+      labelFallback: 'Indenizacao Interjornada',
+      multiplier,
+      minutes: violation.missingMinutes,
+      hourlyRate,
+    });
   }
 }
 
-export function runOvertimeEngine(entries: TimeEntry[], settings: Settings): OvertimeComputationResult {
-  const effectiveEntries = normalizeOvernightEntries(entries);
+// Agrupa minutos consecutivos com o mesmo destino e as mesmas regras para exibicao.
+export function groupOvertimeTraceSlices(slices: OvertimeTraceSlice[]): OvertimeTraceRun[] {
+  const runs: OvertimeTraceRun[] = [];
+  const signatureOf = (slice: OvertimeTraceSlice) =>
+    `${slice.outcome}|${slice.isNight}|${slice.allocations.map((allocation) => allocation.ruleId).join(',')}`;
+  let lastSignature = '';
+
+  for (const slice of slices) {
+    const signature = signatureOf(slice);
+    const current = runs[runs.length - 1];
+    const isContiguous = current && (current.endMinuteOfDay + 1) % (24 * 60) === slice.minuteOfDay;
+    if (current && isContiguous && signature === lastSignature) {
+      current.endMinuteOfDay = slice.minuteOfDay;
+      current.realMinutes += 1;
+      current.financialMinutes += slice.financialMinutes;
+      current.allocations = current.allocations.map((allocation, index) => {
+        const latest = slice.allocations[index];
+        return {
+          ...allocation,
+          financialMinutes: allocation.financialMinutes + latest.financialMinutes,
+          daily: allocation.daily && latest.daily ? { ...allocation.daily, remainingAfter: latest.daily.remainingAfter } : allocation.daily,
+          weekly: allocation.weekly && latest.weekly ? { ...allocation.weekly, remainingAfter: latest.weekly.remainingAfter } : allocation.weekly,
+          monthly: allocation.monthly && latest.monthly ? { ...allocation.monthly, remainingAfter: latest.monthly.remainingAfter } : allocation.monthly,
+          cumulative: allocation.cumulative && latest.cumulative ? { ...allocation.cumulative, remainingAfter: latest.cumulative.remainingAfter } : allocation.cumulative,
+        };
+      });
+      continue;
+    }
+    runs.push({
+      startMinuteOfDay: slice.minuteOfDay,
+      endMinuteOfDay: slice.minuteOfDay,
+      isNight: slice.isNight,
+      outcome: slice.outcome,
+      realMinutes: 1,
+      financialMinutes: slice.financialMinutes,
+      allocations: slice.allocations.map((allocation) => ({ ...allocation })),
+    });
+    lastSignature = signature;
+  }
+
+  return runs;
+}
+
+interface EngineEnvironment {
+  settings: Settings;
+  options: OvertimeEngineOptions;
+  rules: CompanyOvertimeRule[];
+  discountRules: CompanyDailyOvertimeDiscountRule[];
+  rates: RatePack;
+  nightWindow: NightWindow;
+  holidayMatchers: HolidayMatchers;
+  rounding: PunchRoundingPolicy | null;
+  seededCumulativeUsage: Record<string, number>;
+}
+
+// Resultado das regras diarias de uma semana, antes da interjornada (que depende da semana vizinha).
+// `grand` guarda apenas a contribuicao da semana; o total do periodo e a soma das semanas.
+interface WeekComputation {
+  weekKey: string;
+  signature: string;
+  monthUsageBefore: Record<string, number>;
+  week: WeekContext;
+  grand: MutableTotals;
+  traceDays: OvertimeTraceDay[];
+  intrajornadaViolations: IntrajornadaViolation[];
+  holidayDates: string[];
+}
+
+function buildEngineEnvironment(settings: Settings, options: OvertimeEngineOptions): EngineEnvironment {
   const rates = buildRates(settings);
   const rules = resolveCompanyRules(settings, rates);
-  const discountRules = resolveCompanyDiscountRules(settings);
-  const nightCutoffMinutes = timeToMinutes(resolveEffectiveCalculationConfig(settings).nightCutoff || '22:00');
-  const groupedWeeks = groupByRealWeek(effectiveEntries);
+  return {
+    settings,
+    options,
+    rules,
+    discountRules: resolveCompanyDiscountRules(settings),
+    rates,
+    nightWindow: buildNightWindow(resolveEffectiveCalculationConfig(settings)),
+    holidayMatchers: resolveEntryHolidayMatchers(settings),
+    rounding: resolvePunchRounding(settings),
+    seededCumulativeUsage: seedCumulativeUsage(rules, options),
+  };
+}
+
+function prepareEngineEntries(env: EngineEnvironment, entries: TimeEntry[]): TimeEntry[] {
+  return normalizeOvernightEntries(entries).map((entry) => applyPunchRounding(entry, env.rounding));
+}
 
+function sortWeekKeys(groupedWeeks: Record<string, TimeEntry[]>): string[] {
+  return Object.keys(groupedWeeks).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function sortWeekEntries(entries: TimeEntry[]): TimeEntry[] {
+  return entries.slice().sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function sameUsage(a: Record<string, number>, b: Record<string, number>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a[key] || 0) !== (b[key] || 0)) return false;
+  }
+  return true;
+}
+
+function computeWeek(
+  env: EngineEnvironment,
+  weekKey: string,
+  weekEntries: TimeEntry[],
+  monthUsageBefore: Record<string, number>
+): WeekComputation {
+  const { settings, options, rules, rates, nightWindow, discountRules } = env;
   const grand = createMutableTotals();
-  const weeklySummaries: WeeklySummary[] = [];
-  let grandTotalValue = 0;
+  grand.monthUsage = { ...monthUsageBefore };
+  const week = createMutableTotals() as WeekContext;
+  week.weekStart = '';
+  week.weekEnd = '';
+  const traceDays: OvertimeTraceDay[] = [];
+  const intrajornadaViolations: IntrajornadaViolation[] = [];
+  const holidayDates: string[] = [];
+  const intrajornadaByDate = new Map(resolveIntrajornadaViolations(weekEntries, settings).map((violation) => [violation.date, violation]));
+
+  weekEntries.forEach((entry, index) => {
+    if (index === 0) week.weekStart = entry.date;
+    if (entry.date !== week.weekEnd) week.dayUsage = {};
+    week.weekEnd = entry.date;
 
-  const sortedWeekKeys = Object.keys(groupedWeeks).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
-  sortedWeekKeys.forEach((weekKey) => {
-    const weekEntries = groupedWeeks[weekKey].slice().sort((a, b) => a.date.localeCompare(b.date));
-    const week = createMutableTotals() as WeekContext;
-    week.weekStart = '';
-    week.weekEnd = '';
-
-    weekEntries.forEach((entry, index) => {
-      if (index === 0) week.weekStart = entry.date;
-      week.weekEnd = entry.date;
-
-      const date = parseISO(entry.date);
-      const ctx: DayRuleContext = {
-        entry,
-        settings,
-        rules,
-        rates,
-        nightCutoffMinutes,
-        week,
-        grand,
-        isSunday: isValid(date) ? date.getDay() === 0 : false,
-        isOvertimeCardEntry: !!entry.isOvertimeCard,
-        dailyJourneyMinutesEntry: 0,
-        dailyTotalMinutes: 0,
-        overtimeSlices: [],
-        rawOvertimeRealMinutes: 0,
-        rawOvertimeMinutes: 0,
-        dayOvertimeMinutes: 0,
-        ignoreDay: false,
-        bankOnlyDay: false,
-        weekDayMinutesAccBefore: week.weekDayMinutesAcc,
-        weekNightMinutesAccBefore: week.weekNightMinutesAcc,
-        monthUsageBefore: { ...grand.monthUsage },
-      };
-      runDayRuleChain(ctx);
-
-      if (
-        !ctx.ignoreDay &&
-        ctx.isOvertimeCardEntry &&
-        !ctx.bankOnlyDay &&
-        ctx.rawOvertimeMinutes > ctx.dayOvertimeMinutes &&
-        ctx.dayOvertimeMinutes >= 0
-      ) {
-        const appliedDiscountRule = discountRules.find((rule) => ctx.rawOvertimeRealMinutes >= rule.thresholdHours * 60);
-        if (appliedDiscountRule) {
-          const rawTimeline = ctx.overtimeSlices;
-          const rawSlices = takeSlicesUntilFinancialTarget(rawTimeline, ctx.rawOvertimeMinutes);
-          const netSlices = takeSlicesUntilFinancialTarget(rawTimeline.slice(resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes, ctx.settings)), ctx.dayOvertimeMinutes);
-          const rawWeek = createMutableTotals();
-          rawWeek.weekDayMinutesAcc = ctx.weekDayMinutesAccBefore;
-          rawWeek.weekNightMinutesAcc = ctx.weekNightMinutesAccBefore;
-          const rawAllocations = classifyTimelineMinutes(rawSlices, rules, ctx.isSunday, rawWeek, { ...ctx.monthUsageBefore });
-          const netWeek = createMutableTotals();
-          netWeek.weekDayMinutesAcc = ctx.weekDayMinutesAccBefore;
-          netWeek.weekNightMinutesAcc = ctx.weekNightMinutesAccBefore;
-          const netAllocations = classifyTimelineMinutes(netSlices, rules, ctx.isSunday, netWeek, { ...ctx.monthUsageBefore });
-          const rawAmount = rawAllocations.reduce((sum, allocation) => sum + ((rates.hourlyRate * allocation.rule.multiplier) / 60) * allocation.financialMinutes, 0);
-          const netAmount = netAllocations.reduce((sum, allocation) => sum + ((rates.hourlyRate * allocation.rule.multiplier) / 60) * allocation.financialMinutes, 0);
-          const discountAmount = Math.max(0, rawAmount - netAmount);
-          const discountMinutes = Math.max(0, resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes, ctx.settings));
-          recordDiscountAmount(week, settings, appliedDiscountRule, discountMinutes, discountAmount);
-          recordDiscountAmount(grand, settings, appliedDiscountRule, discountMinutes, discountAmount);
+    const date = parseISO(entry.date);
+    const dayOfWeek = isValid(date) ? date.getDay() : -1;
+    const isSunday = isSundayOffSchedule(entry.date, dayOfWeek, settings);
+    const dayStatus = resolveEntryDayStatus(entry, settings);
+    const isHoliday = matchesHoliday(entry.date, env.holidayMatchers) || DAY_STATUS_EFFECTS[dayStatus].treatsAsHoliday;
+    if (isHoliday) holidayDates.push(entry.date);
+    const calendarDayType = resolveCalendarDayType(dayOfWeek, isHoliday, settings);
+    const ruleDayType = resolveRuleDayType(rules, calendarDayType);
+    const ctx: DayRuleContext = {
+      entry,
+      settings,
+      rules,
+      rates,
+      nightWindow,
+      week,
+      grand,
+      dayStatus,
+      isSunday,
+      isHoliday,
+      ruleDayType,
+      isOvertimeCardEntry: !!entry.isOvertimeCard,
+      dailyJourneyMinutesEntry: 0,
+      dailyTotalMinutes: 0,
+      dayIntrajornada: intrajornadaByDate.get(entry.date) || null,
+      intrajornada: null,
+      overtimeSlices: [],
+      rawOvertimeRealMinutes: 0,
+      rawOvertimeMinutes: 0,
+      toleranceRealMinutes: 0,
+      dayOvertimeMinutes: 0,
+      ignoreDay: false,
+      bankOnlyDay: false,
+      unauthorizedDay: false,
+      weekUsageBefore: { ...week.weekUsage },
+      monthUsageBefore: { ...grand.monthUsage },
+      dayUsageBefore: { ...week.dayUsage },
+      trace: options.trace ? createTraceDay(entry, calendarDayType, ruleDayType, 0, 0) : null,
+    };
+    runDayRuleChain(ctx);
+    if (ctx.intrajornada) {
+      intrajornadaViolations.push(ctx.intrajornada);
+      intrajornadaByDate.delete(entry.date);
+    }
+    if (ctx.trace) {
+      ctx.trace.workedMinutes = ctx.dailyTotalMinutes;
+      ctx.trace.dailyJourneyMinutes = ctx.dailyJourneyMinutesEntry;
+      ctx.trace.rawOvertimeRealMinutes = ctx.rawOvertimeRealMinutes;
+      ctx.trace.toleranceRealMinutes = ctx.toleranceRealMinutes;
+      ctx.trace.discountRealMinutes = ctx.ignoreDay || ctx.bankOnlyDay || !ctx.isOvertimeCardEntry
+        ? 0
+        : resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes - ctx.toleranceRealMinutes, ctx.settings);
+      if (ctx.ignoreDay) ctx.trace.destination = 'ignored';
+      else if (ctx.dayOvertimeMinutes <= 0) {
+        ctx.trace.destination = 'none';
+        ctx.trace.bankMinutes = 0;
+        ctx.trace.bankWeightedMinutes = 0;
+      }
+      traceDays.push(ctx.trace);
+    }
+
+    if (
+      !ctx.ignoreDay &&
+      ctx.isOvertimeCardEntry &&
+      !ctx.bankOnlyDay &&
+      ctx.toleranceRealMinutes === 0 &&
+      ctx.rawOvertimeMinutes > ctx.dayOvertimeMinutes &&
+      ctx.dayOvertimeMinutes >= 0
+    ) {
+      const appliedDiscountRule = discountRules.find((rule) => ctx.rawOvertimeRealMinutes >= rule.thresholdHours * 60);
+      if (appliedDiscountRule) {
+        const rawTimeline = ctx.overtimeSlices;
+        const rawSlices = takeSlicesUntilFinancialTarget(rawTimeline, ctx.rawOvertimeMinutes);
+        const netSlices = takeSlicesUntilFinancialTarget(rawTimeline.slice(resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes, ctx.settings)), ctx.dayOvertimeMinutes);
+        const rawWeek = createMutableTotals();
+        rawWeek.weekUsage = { ...ctx.weekUsageBefore };
+        rawWeek.dayUsage = { ...ctx.dayUsageBefore };
+        const rawAllocations = classifyTimelineMinutes(rawSlices, rules, ctx.ruleDayType, rawWeek, { ...ctx.monthUsageBefore });
+        const netWeek = createMutableTotals();
+        netWeek.weekUsage = { ...ctx.weekUsageBefore };
+        netWeek.dayUsage = { ...ctx.dayUsageBefore };
+        const netAllocations = classifyTimelineMinutes(netSlices, rules, ctx.ruleDayType, netWeek, { ...ctx.monthUsageBefore });
+        const rawAmount = rawAllocations.reduce((sum, allocation) => sum + ((rates.hourlyRate * allocation.rule.multiplier) / 60) * allocation.financialMinutes, 0);
+        const netAmount = netAllocations.reduce((sum, allocation) => sum + ((rates.hourlyRate * allocation.rule.multiplier) / 60) * allocation.financialMinutes, 0);
+        const discountAmount = Math.max(0, rawAmount - netAmount);
+        const discountMinutes = Math.max(0, resolveDailyOvertimeDiscountMinutes(ctx.rawOvertimeRealMinutes, ctx.settings));
+        recordDiscountAmount(week, settings, appliedDiscountRule, discountMinutes, discountAmount);
+        recordDiscountAmount(grand, settings, appliedDiscountRule, discountMinutes, discountAmount);
+        if (ctx.trace && discountMinutes > 0 && discountAmount > 0) {
+          ctx.trace.discount = {
+            ruleId: appliedDiscountRule.id,
+            rubricKey: appliedDiscountRule.rubricKey,
+            minutes: discountMinutes,
+            amount: Number(discountAmount.toFixed(2)),
+          };
         }
       }
-    });
+    }
+  });
+
+  return {
+    weekKey,
+    signature: JSON.stringify(weekEntries),
+    monthUsageBefore: { ...monthUsageBefore },
+    week,
+    grand,
+    traceDays,
+    intrajornadaViolations,
+    holidayDates,
+  };
+}
+
+// Recalcula apenas as semanas cujas marcacoes mudaram ou que recebem um uso mensal/acumulado
+// diferente da semana anterior; as demais sao reaproveitadas do cache.
+function computeWeeks(env: EngineEnvironment, effectiveEntries: TimeEntry[], cache: Map<string, WeekComputation>): WeekComputation[] {
+  const groupedWeeks = groupByRealWeek(effectiveEntries);
+  let monthUsage: Record<string, number> = { ...env.seededCumulativeUsage };
+  return sortWeekKeys(groupedWeeks).map((weekKey) => {
+    const weekEntries = sortWeekEntries(groupedWeeks[weekKey]);
+    const cached = cache.get(weekKey);
+    const computation = cached && cached.signature === JSON.stringify(weekEntries) && sameUsage(cached.monthUsageBefore, monthUsage)
+      ? cached
+      : computeWeek(env, weekKey, weekEntries, monthUsage);
+    monthUsage = computation.grand.monthUsage;
+    return computation;
+  });
+}
+
+function mergeTotals(target: MutableTotals, source: MutableTotals) {
+  target.total50Minutes += source.total50Minutes;
+  target.total75Minutes += source.total75Minutes;
+  target.total100Minutes += source.total100Minutes;
+  target.total125Minutes += source.total125Minutes;
+  target.totalBancoHoras += source.totalBancoHoras;
+  target.unauthorizedBancoHoras += source.unauthorizedBancoHoras;
+  target.weightedBancoHoras += source.weightedBancoHoras;
+  source.buckets.forEach((bucket, key) => {
+    const existing = target.buckets.get(key);
+    if (!existing) {
+      target.buckets.set(key, { ...bucket });
+      return;
+    }
+    existing.minutes += bucket.minutes;
+    existing.amount += bucket.amount;
+    existing.code = bucket.code;
+    existing.label = bucket.label;
+    existing.period = bucket.period;
+  });
+  source.discountBuckets.forEach((bucket, key) => {
+    const existing = target.discountBuckets.get(key);
+    if (!existing) {
+      target.discountBuckets.set(key, { ...bucket });
+      return;
+    }
+    existing.minutes += bucket.minutes;
+    existing.amount += bucket.amount;
+  });
+}
+
+function assembleEngineResult(
+  env: EngineEnvironment,
+  effectiveEntries: TimeEntry[],
+  weeks: WeekComputation[]
+): OvertimeComputationResult {
+  const { settings, options, rates } = env;
+  const interjornadaViolations = detectInterjornadaViolations(effectiveEntries, settings);
+  const grand = createMutableTotals();
+  grand.monthUsage = weeks.length > 0 ? { ...weeks[weeks.length - 1].grand.monthUsage } : { ...env.seededCumulativeUsage };
+  const holidayDates = new Set<string>();
+  const traceDays: OvertimeTraceDay[] = [];
+  const intrajornadaViolations: IntrajornadaViolation[] = [];
+  const weeklySummaries: WeeklySummary[] = [];
+  let grandTotalValue = 0;
 
-    recordInterjornadaBuckets(weekEntries, settings, week, rates.hourlyRate);
+  weeks.forEach((computation) => {
+    mergeTotals(grand, computation.grand);
+    computation.holidayDates.forEach((date) => holidayDates.add(date));
+    traceDays.push(...computation.traceDays);
+    intrajornadaViolations.push(...computation.intrajornadaViolations);
+
+    // A interjornada e aplicada sobre uma copia para que o cache da semana continue reutilizavel.
+    const week = {
+      ...computation.week,
+      buckets: cloneBuckets(computation.week.buckets),
+    } as WeekContext;
+    recordInterjornadaBuckets(
+      interjornadaViolations.filter((violation) => getRealWeekKey(parseISO(violation.date)) === computation.weekKey),
+      settings,
+      week,
+      rates.hourlyRate
+    );
 
     const weekValue = Number(Array.from(week.buckets.values()).reduce((sum, bucket) => sum + bucket.amount, 0).toFixed(2));
     grandTotalValue += weekValue;
@@ -938,6 +1845,8 @@ export function runOvertimeEngine(entries: TimeEntry[], settings: Settings): Ove
       total125Minutes: week.total125Minutes,
       totalValue: weekValue,
       totalBancoHoras: week.totalBancoHoras,
+      unauthorizedBancoHoras: week.unauthorizedBancoHoras,
+      weightedBancoHoras: Number(week.weightedBancoHoras.toFixed(4)),
       bucketTotals: Object.fromEntries(
         mapBucketsForOutput(week.buckets).map((bucket) => [
           bucket.rubricKey,
@@ -947,7 +1856,14 @@ export function runOvertimeEngine(entries: TimeEntry[], settings: Settings): Ove
     });
   });
 
-  recordInterjornadaBuckets(effectiveEntries, settings, grand, rates.hourlyRate);
+  recordInterjornadaBuckets(interjornadaViolations, settings, grand, rates.hourlyRate);
+  const onCall = createMutableTotals();
+  recordOnCallBuckets(effectiveEntries, settings, onCall, rates.hourlyRate);
+
+  const limitUsage: Record<string, number> = {};
+  Object.keys(env.seededCumulativeUsage).forEach((key) => {
+    limitUsage[key.slice(CUMULATIVE_USAGE_PREFIX.length)] = (grand.monthUsage[key] || 0) - env.seededCumulativeUsage[key];
+  });
 
   return {
     weeklySummaries,
@@ -961,6 +1877,8 @@ export function runOvertimeEngine(entries: TimeEntry[], settings: Settings): Ove
     grandTotal125Minutes: grand.total125Minutes,
     grandTotalValue: Number(grandTotalValue.toFixed(2)),
     grandTotalBancoHoras: grand.totalBancoHoras,
+    grandTotalUnauthorizedBancoHoras: grand.unauthorizedBancoHoras,
+    grandTotalWeightedBancoHoras: Number(grand.weightedBancoHoras.toFixed(4)),
     hourlyRate: rates.hourlyRate,
     rate50: rates.rate50,
     rate75: rates.rate75,
@@ -968,5 +1886,117 @@ export function runOvertimeEngine(entries: TimeEntry[], settings: Settings): Ove
     rate125: rates.rate125,
     overtimeBuckets: mapBucketsForOutput(grand.buckets),
     discountBuckets: mapDiscountBucketsForOutput(grand.discountBuckets),
+    holidayDates: Array.from(holidayDates).sort(),
+    interjornadaViolations,
+    intrajornadaViolations,
+    onCallBuckets: mapBucketsForOutput(onCall.buckets),
+    limitUsage,
+    ...(options.trace ? { trace: traceDays } : {}),
   };
 }
+
+export function runOvertimeEngine(
+  entries: TimeEntry[],
+  settings: Settings,
+  options: OvertimeEngineOptions = {}
+): OvertimeComputationResult {
+  const env = buildEngineEnvironment(settings, options);
+  const effectiveEntries = prepareEngineEntries(env, entries);
+  return assembleEngineResult(env, effectiveEntries, computeWeeks(env, effectiveEntries, new Map()));
+}
+
+// Alteracoes aplicadas a uma sessao: entradas novas ou editadas (casadas por id) e ids removidos.
+export interface OvertimeEnginePatch {
+  upserts?: TimeEntry[];
+  removedIds?: string[];
+}
+
+export interface OvertimeEngineSession {
+  readonly result: OvertimeComputationResult;
+  readonly entries: TimeEntry[];
+  apply(patch: OvertimeEnginePatch): OvertimeComputationResult;
+  // Quantas semanas foram reapuradas na ultima chamada (diagnostico do cache).
+  readonly lastRecomputedWeeks: number;
+}
+
+// Sessao para edicao ao vivo: mantem as semanas ja apuradas e, a cada patch, reapura so a semana
+// editada e as seguintes cujo uso mensal/acumulado de entrada mudou. Settings e options sao fixos
+// na sessao; ao troca-los, crie outra sessao.
+export function createOvertimeEngineSession(
+  entries: TimeEntry[],
+  settings: Settings,
+  options: OvertimeEngineOptions = {}
+): OvertimeEngineSession {
+  const env = buildEngineEnvironment(settings, options);
+  let currentEntries = entries.slice();
+  let cache = new Map<string, WeekComputation>();
+  let result: OvertimeComputationResult;
+  let lastRecomputedWeeks = 0;
+
+  const recompute = () => {
+    const effectiveEntries = prepareEngineEntries(env, currentEntries);
+    const weeks = computeWeeks(env, effectiveEntries, cache);
+    lastRecomputedWeeks = weeks.filter((computation) => cache.get(computation.weekKey) !== computation).length;
+    cache = new Map(weeks.map((computation) => [computation.weekKey, computation]));
+    result = assembleEngineResult(env, effectiveEntries, weeks);
+    return result;
+  };
+  recompute();
+
+  return {
+    get result() {
+      return result;
+    },
+    get entries() {
+      return currentEntries;
+    },
+    get lastRecomputedWeeks() {
+      return lastRecomputedWeeks;
+    },
+    apply(patch: OvertimeEnginePatch) {
+      const removed = new Set(patch.removedIds || []);
+      const upserts = new Map((patch.upserts || []).map((entry) => [entry.id, entry]));
+      const next = currentEntries
+        .filter((entry) => !removed.has(entry.id))
+        .map((entry) => {
+          const replacement = upserts.get(entry.id);
+          if (!replacement) return entry;
+          upserts.delete(entry.id);
+          return replacement;
+        });
+      currentEntries = [...next, ...upserts.values()];
+      return recompute();
+    },
+  };
+}
+
+// Reapura as competencias anteriores em ordem, cada uma semeada pelas que vieram antes,
+// para que o saldo das janelas acumuladas chegue correto na competencia atual.
+export function buildPriorOvertimeLimitUsage(
+  history: Array<{ competencia: string; entries: TimeEntry[] }>,
+  currentCompetencia: string,
+  settings: Settings
+): OvertimeLimitUsage[] {
+  const rules = resolveCompanyRules(settings, buildRates(settings)).filter((rule) => resolveCumulativeLimit(rule) > 0);
+  if (rules.length === 0) return [];
+  const inAnyWindow = (competencia: string) => rules.some((rule) =>
+    isCompetenciaInLimitWindow(competencia, currentCompetencia, rule.cumulativeWindowKind || 'calendar', Number(rule.cumulativeWindowMonths))
+  );
+
+  const sorted = history.slice().sort((a, b) => a.competencia.localeCompare(b.competencia));
+  const inWindow = sorted.filter((item) => inAnyWindow(item.competencia));
+  if (inWindow.length === 0) return [];
+  // Os meses que a janela do primeiro mes ja alcanca entram so como semente: sem eles, o uso desse primeiro mes
+  // sai maior do que o pago e o saldo da competencia atual, menor.
+  const firstCompetencia = inWindow[0].competencia;
+  const seeds = sorted.filter((item) => item.competencia < firstCompetencia && rules.some((rule) =>
+    isCompetenciaInLimitWindow(item.competencia, firstCompetencia, rule.cumulativeWindowKind || 'calendar', Number(rule.cumulativeWindowMonths))
+  ));
+
+  const records: OvertimeLimitUsage[] = [];
+  [...seeds, ...inWindow].forEach((item) => {
+    const result = runOvertimeEngine(item.entries, settings, { competencia: item.competencia, priorLimitUsage: records });
+    records.push({ competencia: item.competencia, usage: result.limitUsage });
+  });
+  return records.filter((record) => inAnyWindow(record.competencia));
+}
@@ -1,48 +1,172 @@
+import { addDays, format, isValid, parseISO, startOfWeek } from 'date-fns';
 import {
+  applyPunchRounding,
+  buildNightWindow,
+  calculateOvertime,
   normalizeOvernightEntries,
+  resolveDailyShortfallMinutes,
+  resolveEffectiveCalculationConfig,
+  resolveMarkingTolerance,
+  roundEntryPunches,
+  sumEntryWorkedMinutes,
   summarizeNightWorkedMinutes,
-  timeToMinutes,
   type CompanyCalculationConfig,
   type CompanyRubricKey,
   type CompanyRubricMap,
+  type OvertimeCalculationResult,
+  type OvertimeLimitUsage,
   type Settings,
   type TimeEntry,
 } from './calculations';
-import { NIGHT_END_MINUTES } from './timeMath';
+import { resolveEntryDayStatusEffects } from './dayStatus';
+import { matchesHoliday, normalizeHolidayToken, resolveHolidayMatchers } from './holidays';
+import {
+  isScheduledRestDay,
+  resolveScheduledEarlyLeaveMinutes,
+  resolveScheduledJourneyMinutes,
+  resolveScheduledMarkings,
+} from './shiftSchedule';
+import { resolveFgtsAliquota } from './fgts';
+import {
+  calcularINSSProgressivo,
+  calcularIRRFTabela,
+  calcularRedutorIRRF,
+  resolveTabelaFiscal,
+} from './taxTables';
 
 // ---------------------------------------------------------
-//  FERIADOS FIXOS DO BRASIL
+//  ATRASOS E FALTAS DO CARTAO NORMAL
 // ---------------------------------------------------------
-const FERIADOS_NACIONAIS_FIXOS = [
-  '01-01', '04-21', '05-01', '09-07',
-  '10-12', '11-02', '11-15', '11-20', '12-25',
-];
+export interface SaidaAntecipadaDia {
+  date: string;
+  minutes: number;
+}
 
-// ---------------------------------------------------------
-//  CÁLCULO DA PÁSCOA – ALGORITMO DE GAUSS
-// ---------------------------------------------------------
-function normalizeHolidayToken(value: string): string | null {
-  const normalized = String(value || '').trim();
-  if (/^\d{2}-\d{2}$/.test(normalized)) return normalized;
-  if (/^\d{4}-\d{2}-\d{2}$/.test(normalized)) return normalized;
-  return null;
+export interface MinutosAtrasoDetalhados {
+  // Falta de jornada que nao e saida antecipada: entrada atrasada e intervalo estourado.
+  atrasoMinutes: number;
+  saidaAntecipadaMinutes: number;
+  totalMinutes: number;
+  diasSaidaAntecipada: SaidaAntecipadaDia[];
 }
 
-// ---------------------------------------------------------
-//  FERIADOS MÓVEIS (CARNAVAL, SEXTA SANTA, CORPUS CHRISTI)
-// ---------------------------------------------------------
-function resolveHolidayMatchers(customHolidays: string[] = []) {
-  const monthDayHolidays = new Set(FERIADOS_NACIONAIS_FIXOS);
-  const exactDateHolidays = new Set<string>();
-
-  for (const rawHoliday of customHolidays) {
-    const normalized = normalizeHolidayToken(rawHoliday);
-    if (!normalized) continue;
-    if (normalized.length === 5) monthDayHolidays.add(normalized);
-    else exactDateHolidays.add(normalized);
+// Descansos da escala (domingo no horario fixo), feriados, atraso justificado pelo DP e situacoes abonadas (atestado, ferias, folga...) nao descontam.
+// `excludedDates` recebe os dias ja descontados como falta injustificada para nao cobrar o mesmo dia duas vezes.
+// A parte da falta de jornada explicada pela saida antes do horario previsto vai para a saida antecipada.
+export function detalharMinutosAtraso(
+  entries: TimeEntry[],
+  settings: Settings,
+  holidayDates: Iterable<string> = [],
+  excludedDates: Iterable<string> = []
+): MinutosAtrasoDetalhados {
+  const effectiveConfig = resolveEffectiveCalculationConfig(settings);
+  const tolerance = resolveMarkingTolerance(settings);
+  const feriados = new Set(holidayDates);
+  const excluidos = new Set(excludedDates);
+  const detalhe: MinutosAtrasoDetalhados = {
+    atrasoMinutes: 0,
+    saidaAntecipadaMinutes: 0,
+    totalMinutes: 0,
+    diasSaidaAntecipada: [],
+  };
+
+  for (const rawEntry of entries) {
+    if (rawEntry.isOvertimeCard || rawEntry.isDPAnnotation) continue;
+    const entry = roundEntryPunches(rawEntry, settings);
+    const date = parseISO(entry.date);
+    if (!isValid(date) || isScheduledRestDay(entry.date, settings) || feriados.has(entry.date)) continue;
+    if (excluidos.has(entry.date)) continue;
+    if (resolveEntryDayStatusEffects(entry, settings).excusesShortfall) continue;
+
+    const shortfallMinutes = resolveDailyShortfallMinutes(entry, {
+      dailyJourneyHours: effectiveConfig.dailyJourney,
+      isOvertimeCardEntry: false,
+      dayOfWeek: date.getDay(),
+      saturdayCompensation: !!settings.saturdayCompensation,
+      compDaysRaw: settings.compDays,
+      journeyMinutes: resolveScheduledJourneyMinutes(entry.date, false, settings),
+      tolerance,
+      ...resolveScheduledMarkings(entry.date, settings),
+    });
+    if (shortfallMinutes <= 0) continue;
+
+    const saidaMinutes = Math.min(shortfallMinutes, resolveScheduledEarlyLeaveMinutes(rawEntry, settings));
+    detalhe.totalMinutes += shortfallMinutes;
+    detalhe.atrasoMinutes += shortfallMinutes - saidaMinutes;
+    if (saidaMinutes > 0) {
+      detalhe.saidaAntecipadaMinutes += saidaMinutes;
+      detalhe.diasSaidaAntecipada.push({ date: entry.date, minutes: saidaMinutes });
+    }
   }
 
-  return { monthDayHolidays, exactDateHolidays };
+  detalhe.diasSaidaAntecipada.sort((a, b) => a.date.localeCompare(b.date));
+  return detalhe;
+}
+
+// Falta de jornada total do cartao normal (atraso + saida antecipada).
+export function calcularMinutosAtraso(
+  entries: TimeEntry[],
+  settings: Settings,
+  holidayDates: Iterable<string> = [],
+  excludedDates: Iterable<string> = []
+): number {
+  return detalharMinutosAtraso(entries, settings, holidayDates, excludedDates).totalMinutes;
+}
+
+export interface FaltaInjustificadaSemana {
+  // Semana de segunda a domingo em que houve falta.
+  weekStart: string;
+  weekEnd: string;
+  faltas: string[];
+  // Repouso da semana (folga da escala, ou domingo no horario fixo) e feriados da mesma semana perdidos pela falta
+  // (Lei 605/49, art. 6).
+  descansosPerdidos: string[];
+}
+
+// Dia de trabalho previsto sem nenhuma marcacao e sem situacao que abone (atestado, ferias, folga...).
+export function detectarFaltasInjustificadas(
+  entries: TimeEntry[],
+  settings: Settings,
+  holidayDates: Iterable<string> = []
+): FaltaInjustificadaSemana[] {
+  const holidayMatchers = resolveHolidayMatchers(settings.companySettings?.config?.customHolidays || []);
+  const feriados = new Set(holidayDates);
+  const isFeriado = (dateKey: string) => feriados.has(dateKey) || matchesHoliday(dateKey, holidayMatchers);
+  // Marcacao em qualquer cartao no dia (inclusive o de HE) descaracteriza a falta.
+  const diasTrabalhados = new Set(
+    entries
+      .filter((entry) => sumEntryWorkedMinutes(roundEntryPunches(entry, settings)) > 0)
+      .map((entry) => entry.date)
+  );
+  const semanas = new Map<string, FaltaInjustificadaSemana>();
+
+  for (const entry of entries) {
+    if (entry.isOvertimeCard || entry.isDPAnnotation) continue;
+    const date = parseISO(entry.date);
+    if (!isValid(date) || isScheduledRestDay(entry.date, settings) || isFeriado(entry.date)) continue;
+    if (diasTrabalhados.has(entry.date)) continue;
+    if (resolveEntryDayStatusEffects(entry, settings).excusesShortfall) continue;
+    if (resolveScheduledJourneyMinutes(entry.date, false, settings) <= 0) continue;
+
+    const weekStartDate = startOfWeek(date, { weekStartsOn: 1 });
+    const weekStart = format(weekStartDate, 'yyyy-MM-dd');
+    let semana = semanas.get(weekStart);
+    if (!semana) {
+      const dias = Array.from({ length: 7 }, (_, index) => format(addDays(weekStartDate, index), 'yyyy-MM-dd'));
+      semana = {
+        weekStart,
+        weekEnd: dias[6],
+        faltas: [],
+        descansosPerdidos: dias.filter((dia) => isScheduledRestDay(dia, settings) || isFeriado(dia)),
+      };
+      semanas.set(weekStart, semana);
+    }
+    if (!semana.faltas.includes(entry.date)) semana.faltas.push(entry.date);
+  }
+
+  return Array.from(semanas.values())
+    .map((semana) => ({ ...semana, faltas: [...semana.faltas].sort() }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
 }
 
 export function getDiasBaseDsrMensal(
@@ -55,13 +179,12 @@ export function getDiasBaseDsrMensal(
   let diasBase = 0;
   let descansos = 0;
   const feriadosConsiderados = new Set<string>();
-  const { monthDayHolidays, exactDateHolidays } = resolveHolidayMatchers(customHolidays);
+  const holidayMatchers = resolveHolidayMatchers(customHolidays);
 
   const current = new Date(startDate);
   while (current <= endDate) {
     const isoDate = current.toISOString().slice(0, 10);
-    const mesDia = isoDate.slice(5, 10);
-    const isFeriado = monthDayHolidays.has(mesDia) || exactDateHolidays.has(isoDate);
+    const isFeriado = matchesHoliday(isoDate, holidayMatchers);
     const isDomingo = current.getDay() === 0;
 
     if (isFeriado || isDomingo) descansos++;
@@ -105,14 +228,13 @@ export function getDiasUteisEDomingos(
   let diasUteis = 0;
   let domingosEFeriados = 0;
   const feriadosConsiderados = new Set<string>();
-  const { monthDayHolidays, exactDateHolidays } = resolveHolidayMatchers(customHolidays);
+  const holidayMatchers = resolveHolidayMatchers(customHolidays);
 
   const current = new Date(startDate);
   while (current <= endDate) {
     const diaSemana = current.getDay(); // 0 domingo, 6 sábado
     const isoDate = current.toISOString().slice(0, 10);
-    const mesDia = isoDate.slice(5, 10);
-    const isFeriado = monthDayHolidays.has(mesDia) || exactDateHolidays.has(isoDate);
+    const isFeriado = matchesHoliday(isoDate, holidayMatchers);
     const isDomingo = diaSemana === 0;
     const isSabado = diaSemana === 6;
 
@@ -152,7 +274,10 @@ export interface PayrollParams {
   mes: number;
   ano: number;
   atraso?: number;
+  saidaAntecipada?: number;
+  faltasInjustificadas?: FaltaInjustificadaSemana[];
   dependentes?: number;
+  jovemAprendiz?: boolean;
   adiantamentoPercent?: number;
   adiantamentoPago?: AdiantamentoPago | null;
   cycleStartDay?: number;
@@ -160,6 +285,7 @@ export interface PayrollParams {
   companyConfig?: Partial<CompanyCalculationConfig>;
   normalEntries?: TimeEntry[];
   roundingCarryover?: number;
+  bancoHorasVencidoMinutos?: number;
   overtimeBuckets?: Array<{
     rubricKey: string;
     code: string;
@@ -176,6 +302,13 @@ export interface PayrollParams {
     minutes: number;
     amount: number;
   }>;
+  onCallBuckets?: Array<{
+    rubricKey: string;
+    code: string;
+    label: string;
+    minutes: number;
+    amount: number;
+  }>;
 }
 
 export interface PayrollLine {
@@ -196,6 +329,31 @@ const EMPTY_RUBRICS: CompanyRubricMap = {
   DSR_NOT: { code: '', label: '' },
   ATRASO: { code: '', label: '' },
   DSR_ATRASO: { code: '', label: '' },
+  SAIDA_ANTECIPADA: { code: '', label: '' },
+  DSR_SAIDA_ANTECIPADA: { code: '', label: '' },
+  FALTA: { code: '', label: '' },
+  DSR_FALTA: { code: '', label: '' },
+  INTERJORNADA: { code: '', label: '' },
+  INTRAJORNADA: { code: '', label: '' },
+  BANCO_HORAS_VENCIDO: { code: '', label: '' },
+  SOBREAVISO: { code: '', label: '' },
+  PRONTIDAO: { code: '', label: '' },
+  DECIMO_TERCEIRO: { code: '', label: '' },
+  MEDIA_HE_13: { code: '', label: '' },
+  MEDIA_ADIC_NOT_13: { code: '', label: '' },
+  MEDIA_DSR_13: { code: '', label: '' },
+  ADIANTAMENTO_13: { code: '', label: '' },
+  INSS_13: { code: '', label: '' },
+  IRRF_13: { code: '', label: '' },
+  FERIAS: { code: '', label: '' },
+  MEDIA_HE_FERIAS: { code: '', label: '' },
+  MEDIA_ADIC_NOT_FERIAS: { code: '', label: '' },
+  MEDIA_DSR_FERIAS: { code: '', label: '' },
+  TERCO_FERIAS: { code: '', label: '' },
+  ABONO_PECUNIARIO: { code: '', label: '' },
+  TERCO_ABONO: { code: '', label: '' },
+  INSS_FERIAS: { code: '', label: '' },
+  IRRF_FERIAS: { code: '', label: '' },
 };
 
 const RUBRIC_FALLBACK_LABELS: Record<CompanyRubricKey, string> = {
@@ -209,9 +367,34 @@ const RUBRIC_FALLBACK_LABELS: Record<CompanyRubricKey, string> = {
   DSR_NOT: 'DSR sobre Adicional Noturno',
   ATRASO: 'Atrasos',
   DSR_ATRASO: 'DSR sobre Atraso',
+  SAIDA_ANTECIPADA: 'Saidas Antecipadas',
+  DSR_SAIDA_ANTECIPADA: 'DSR sobre Saida Antecipada',
+  FALTA: 'Faltas Injustificadas',
+  DSR_FALTA: 'DSR sobre Faltas',
+  INTERJORNADA: 'Horas Interjornada',
+  INTRAJORNADA: 'Horas Intrajornada',
+  BANCO_HORAS_VENCIDO: 'Banco de Horas Vencido',
+  SOBREAVISO: 'Horas de Sobreaviso',
+  PRONTIDAO: 'Horas de Prontidao',
+  DECIMO_TERCEIRO: '13o Salario',
+  MEDIA_HE_13: 'Media de HE no 13o',
+  MEDIA_ADIC_NOT_13: 'Media de Adicional Noturno no 13o',
+  MEDIA_DSR_13: 'Media de DSR no 13o',
+  ADIANTAMENTO_13: 'Adiantamento do 13o (1a parcela)',
+  INSS_13: 'INSS sobre 13o',
+  IRRF_13: 'IRRF sobre 13o',
+  FERIAS: 'Ferias',
+  MEDIA_HE_FERIAS: 'Media de HE nas Ferias',
+  MEDIA_ADIC_NOT_FERIAS: 'Media de Adicional Noturno nas Ferias',
+  MEDIA_DSR_FERIAS: 'Media de DSR nas Ferias',
+  TERCO_FERIAS: '1/3 Constitucional de Ferias',
+  ABONO_PECUNIARIO: 'Abono Pecuniario',
+  TERCO_ABONO: '1/3 sobre Abono Pecuniario',
+  INSS_FERIAS: 'INSS sobre Ferias',
+  IRRF_FERIAS: 'IRRF sobre Ferias',
 };
 
-function buildEffectiveRubrics(rubrics?: Partial<CompanyRubricMap>): CompanyRubricMap {
+export function buildEffectiveRubrics(rubrics?: Partial<CompanyRubricMap>): CompanyRubricMap {
   const output = { ...EMPTY_RUBRICS };
   for (const key of Object.keys(output) as CompanyRubricKey[]) {
     const entry = rubrics?.[key];
@@ -227,6 +410,9 @@ function buildEffectiveCompanyConfig(companyConfig: Partial<CompanyCalculationCo
   return {
     cycleStartDay: Number(companyConfig.cycleStartDay ?? legacy?.cycleStartDay ?? 1),
     nightCutoff: String(companyConfig.nightCutoff ?? legacy?.nightCutoff ?? '22:00'),
+    nightEnd: String(companyConfig.nightEnd ?? '05:00'),
+    nightHourMinutes: Number(companyConfig.nightHourMinutes ?? 52.5),
+    nightExtensionMode: companyConfig.nightExtensionMode ?? 'off',
     percent50: Number(companyConfig.percent50 ?? legacy?.percent50 ?? 0),
     percent100: Number(companyConfig.percent100 ?? legacy?.percent100 ?? 0),
     percentNight: Number(companyConfig.percentNight ?? legacy?.percentNight ?? 0),
@@ -252,7 +438,10 @@ export function calcularHoleriteCompleto({
   mes,
   ano,
   atraso = 0,
+  saidaAntecipada = 0,
+  faltasInjustificadas = [],
   dependentes = 0,
+  jovemAprendiz = false,
   adiantamentoPercent = 45,
   adiantamentoPago = null,
   cycleStartDay = 1,
@@ -261,8 +450,10 @@ export function calcularHoleriteCompleto({
   normalEntries = [],
   roundingCarryover = 0
   ,
+  bancoHorasVencidoMinutos = 0,
   overtimeBuckets = [],
-  discountBuckets = []
+  discountBuckets = [],
+  onCallBuckets = []
 }: PayrollParams) {
   const effectiveRubrics = buildEffectiveRubrics(rubrics);
   const effectiveConfig = buildEffectiveCompanyConfig(companyConfig, {
@@ -307,23 +498,24 @@ export function calcularHoleriteCompleto({
   const v100 = he100 * rate100;
   const v125 = he125 * rate125;
   const hasDynamicBuckets = overtimeBuckets.length > 0;
-  const totalHorasExtras = hasDynamicBuckets
+  // Saldo do banco de horas que venceu sem compensacao e pago como HE 50% e reflete no DSR.
+  const horasBancoVencido = Math.max(0, bancoHorasVencidoMinutos) / 60;
+  const valorBancoHorasVencido = horasBancoVencido * rate50;
+  const totalHorasExtras = (hasDynamicBuckets
     ? overtimeBuckets.reduce((sum, bucket) => sum + bucket.amount, 0)
-    : v50 + v75 + v100 + v125;
-  const baseHorasExtrasParaDsr = hasDynamicBuckets
+    : v50 + v75 + v100 + v125) + valorBancoHorasVencido;
+  // Sobreaviso e prontidao sao parcelas habituais pagas por hora: entram nos proventos e na base do DSR.
+  const valorSobreavisoProntidao = onCallBuckets.reduce((sum, bucket) => sum + bucket.amount, 0);
+  const baseHorasExtrasParaDsr = (hasDynamicBuckets
     ? overtimeBuckets
-        .filter((bucket) => bucket.rubricKey !== 'INTERJORNADA')
+        .filter((bucket) => bucket.rubricKey !== 'INTERJORNADA' && bucket.rubricKey !== 'INTRAJORNADA')
         .reduce((sum, bucket) => sum + bucket.amount, 0)
-    : v50 + v75 + v100 + v125;
+    : v50 + v75 + v100 + v125) + valorBancoHorasVencido + valorSobreavisoProntidao;
 
   const normalizedNormalEntries = normalizeOvernightEntries(
     (normalEntries || []).filter((entry) => !entry?.isOvertimeCard)
-  );
-  const normalNightSummary = summarizeNightWorkedMinutes(
-    normalizedNormalEntries,
-    timeToMinutes(effectiveConfig.nightCutoff || '22:00'),
-    NIGHT_END_MINUTES
-  );
+  ).map((entry) => applyPunchRounding(entry, companyConfig.punchRounding));
+  const normalNightSummary = summarizeNightWorkedMinutes(normalizedNormalEntries, buildNightWindow(effectiveConfig));
   const adicionalNoturno = (normalNightSummary.financialMinutes / 60) * valorHora * (effectivePercentNight / 100);
 
   // 4) DSR sobre horas extras
@@ -331,59 +523,50 @@ export function calcularHoleriteCompleto({
   const dsrSobreAdicionalNoturno = diasBaseDsr > 0 ? (adicionalNoturno / diasBaseDsr) * descansosDsr : 0;
   const valorDSR = dsrSobreHorasExtras + dsrSobreAdicionalNoturno;
   const descontoDSRAtraso = diasUteis > 0 ? (atraso / diasUteis) * domingosEFeriados : 0;
+  const descontoDSRSaidaAntecipada = diasUteis > 0 ? (saidaAntecipada / diasUteis) * domingosEFeriados : 0;
+  // Falta injustificada desconta o dia (salario / 30) e o repouso da propria semana, nao uma proporcao do mes.
+  const valorDia = salarioBase / 30;
+  const diasFalta = faltasInjustificadas.reduce((sum, semana) => sum + semana.faltas.length, 0);
+  const descansosPerdidosFalta = faltasInjustificadas.reduce((sum, semana) => sum + semana.descansosPerdidos.length, 0);
+  const descontoFaltas = diasFalta * valorDia;
+  const descontoDSRFaltas = descansosPerdidosFalta * valorDia;
 
   // 5) Total proventos
-  const totalProventos = salarioBase + totalHorasExtras + adicionalNoturno + valorDSR;
-
-  // 6) INSS progressivo (faixas oficiais de 2026)
-  const INSS_FAIXAS_2026 = [
-    { limite: 1621.00, aliquota: 0.075 },
-    { limite: 2902.84, aliquota: 0.09 },
-    { limite: 4354.27, aliquota: 0.12 },
-    { limite: 8475.55, aliquota: 0.14 },
-  ];
-  const tetoINSS = INSS_FAIXAS_2026[INSS_FAIXAS_2026.length - 1].limite;
-  const baseINSS = Math.min(Math.max(0, totalProventos), tetoINSS);
-  let inss = 0;
-  let restanteINSS = baseINSS;
-  let limiteAnterior = 0;
-  for (const faixa of INSS_FAIXAS_2026) {
-    if (restanteINSS <= 0) break;
-    const amplitude = faixa.limite - limiteAnterior;
-    const baseFaixa = Math.min(restanteINSS, amplitude);
-    inss += baseFaixa * faixa.aliquota;
-    restanteINSS -= baseFaixa;
-    limiteAnterior = faixa.limite;
-  }
-
-  // 7) IR total devido no mês (Tabela TRADICIONAL + Redutor 2026 simultâneo)
-  const valorDependente = 189.59;
-  const baseIR = totalProventos - inss - dependentes * valorDependente;
-
-  // Imposto calculado pela tabela tradicional mensal (valores vigentes 2025/2026)
-  let irBaseTradicional = 0;
-  if (baseIR <= 2428.80) irBaseTradicional = 0;
-  else if (baseIR <= 2826.65) irBaseTradicional = baseIR * 0.075 - 182.16;
-  else if (baseIR <= 3751.05) irBaseTradicional = baseIR * 0.15 - 394.16;
-  else if (baseIR <= 4664.68) irBaseTradicional = baseIR * 0.225 - 675.49;
-  else irBaseTradicional = baseIR * 0.275 - 908.73;
-  if (irBaseTradicional < 0) irBaseTradicional = 0;
-
-  // Redutor mensal 2026 (aplicado simultaneamente à tabela tradicional)
-  const rendaMensal = totalProventos;
-  let redutorMensal2026 = 0;
-  if (rendaMensal <= 5000) {
-    // isenção total até R$ 5.000/mês
-    redutorMensal2026 = irBaseTradicional;
-  } else if (rendaMensal <= 7350) {
-    // fórmula oficial: 978,62 – (0,133145 × renda mensal)
-    redutorMensal2026 = 978.62 - 0.133145 * rendaMensal;
-    if (redutorMensal2026 < 0) redutorMensal2026 = 0;
-  } else {
-    redutorMensal2026 = 0;
-  }
+  const totalProventos = salarioBase + totalHorasExtras + valorSobreavisoProntidao + adicionalNoturno + valorDSR;
+  // Dia de falta, saida antecipada e os repousos perdidos nao sao remuneracao: saem da base de INSS, FGTS e IRRF.
+  const remuneracaoTributavel = Math.max(
+    0,
+    totalProventos - descontoFaltas - descontoDSRFaltas - saidaAntecipada - descontoDSRSaidaAntecipada
+  );
 
-  let irTotal = irBaseTradicional - redutorMensal2026;
+  // 6) INSS progressivo pela tabela vigente na competencia
+  const tabelaFiscal = resolveTabelaFiscal(mes, ano);
+  const { inss, baseINSS } = calcularINSSProgressivo(remuneracaoTributavel, tabelaFiscal);
+
+  // FGTS sobre a mesma remuneracao do INSS, mas sem o teto previdenciario; nao desconta do liquido.
+  const fgtsBase = remuneracaoTributavel;
+  const fgtsAliquota = resolveFgtsAliquota(jovemAprendiz);
+  const fgts = fgtsBase * fgtsAliquota;
+
+  // 7) IR total devido no mês (tabela mensal da competencia + redutor, quando a versao tiver)
+  // Desde maio/2023 a fonte aplica o desconto simplificado no lugar de INSS + dependentes quando ele for mais vantajoso.
+  const baseIRDeducoesLegais = remuneracaoTributavel - inss - dependentes * tabelaFiscal.valorDependente;
+  const irDeducoesLegais = calcularIRRFTabela(baseIRDeducoesLegais, tabelaFiscal);
+  const baseIRDescontoSimplificado = tabelaFiscal.descontoSimplificado != null
+    ? remuneracaoTributavel - tabelaFiscal.descontoSimplificado
+    : null;
+  const irDescontoSimplificado = baseIRDescontoSimplificado != null
+    ? calcularIRRFTabela(baseIRDescontoSimplificado, tabelaFiscal)
+    : null;
+  const deducaoIRAplicada: 'legal' | 'simplificado' = irDescontoSimplificado != null && irDescontoSimplificado < irDeducoesLegais
+    ? 'simplificado'
+    : 'legal';
+  const baseIR = deducaoIRAplicada === 'simplificado' ? (baseIRDescontoSimplificado as number) : baseIRDeducoesLegais;
+  const irBaseTradicional = deducaoIRAplicada === 'simplificado' ? (irDescontoSimplificado as number) : irDeducoesLegais;
+  const rendaMensal = remuneracaoTributavel;
+  const redutorMensal = calcularRedutorIRRF(rendaMensal, irBaseTradicional, tabelaFiscal);
+
+  let irTotal = irBaseTradicional - redutorMensal;
   if (irTotal < 0) irTotal = 0;
 
   // 8) Adiantamento
@@ -409,7 +592,7 @@ export function calcularHoleriteCompleto({
   if (irRetidoNoFechamento < 0) irRetidoNoFechamento = 0;
 
   // 10) Total de descontos
-  const totalDescontosReal = atraso + descontoDSRAtraso + inss + irRetidoNoFechamento + adiantamentoBruto + previousRoundingCarryover;
+  const totalDescontosReal = atraso + descontoDSRAtraso + saidaAntecipada + descontoDSRSaidaAntecipada + descontoFaltas + descontoDSRFaltas + inss + irRetidoNoFechamento + adiantamentoBruto + previousRoundingCarryover;
 
   // 11) Arredondamento automático e totalDescontos arredondado
   const totalDescontos = Number(totalDescontosReal.toFixed(2));
@@ -445,9 +628,21 @@ export function calcularHoleriteCompleto({
         { code: effectiveRubrics.HE_125.code, description: effectiveRubrics.HE_125.label, reference: Number(he125.toFixed(2)), amount: Number(v125.toFixed(2)) },
       ].filter((line) => Math.abs(line.amount) > 0);
 
+  const onCallLines: PayrollLine[] = onCallBuckets.map((bucket) => {
+    const rubric = effectiveRubrics[bucket.rubricKey] || { code: bucket.code || '', label: bucket.label || bucket.rubricKey };
+    return {
+      code: rubric.code || bucket.code || '',
+      description: rubric.label || bucket.label || bucket.rubricKey,
+      reference: Number((bucket.minutes / 60).toFixed(2)),
+      amount: Number(bucket.amount.toFixed(2)),
+    };
+  });
+
   const lines: PayrollLine[] = [
     { code: effectiveRubrics.SALARIO_FIXO.code, description: effectiveRubrics.SALARIO_FIXO.label, reference: horasMensais, amount: Number(salarioBase.toFixed(2)) },
     ...overtimeLines,
+    ...onCallLines,
+    { code: effectiveRubrics.BANCO_HORAS_VENCIDO.code, description: effectiveRubrics.BANCO_HORAS_VENCIDO.label, reference: Number(horasBancoVencido.toFixed(2)), amount: Number(valorBancoHorasVencido.toFixed(2)) },
     { code: effectiveRubrics.ADIC_NOT.code, description: effectiveRubrics.ADIC_NOT.label, reference: Number((normalNightSummary.financialMinutes / 60).toFixed(2)), amount: Number(adicionalNoturno.toFixed(2)) },
     { code: effectiveRubrics.DSR_HE.code, description: effectiveRubrics.DSR_HE.label, reference: Number((dsrSobreHorasExtras / (valorHora || 1)).toFixed(2)), amount: Number(dsrSobreHorasExtras.toFixed(2)) },
     { code: effectiveRubrics.DSR_NOT.code, description: effectiveRubrics.DSR_NOT.label, reference: Number((dsrSobreAdicionalNoturno / (valorHora || 1)).toFixed(2)), amount: Number(dsrSobreAdicionalNoturno.toFixed(2)) },
@@ -462,22 +657,35 @@ export function calcularHoleriteCompleto({
     }),
     { code: effectiveRubrics.ATRASO.code, description: effectiveRubrics.ATRASO.label, reference: Number(atraso > 0 ? (atraso / (valorHora || 1)).toFixed(2) : 0), amount: Number((-atraso).toFixed(2)) },
     { code: effectiveRubrics.DSR_ATRASO.code, description: effectiveRubrics.DSR_ATRASO.label, reference: null, amount: Number((-descontoDSRAtraso).toFixed(2)) },
+    { code: effectiveRubrics.SAIDA_ANTECIPADA.code, description: effectiveRubrics.SAIDA_ANTECIPADA.label, reference: Number(saidaAntecipada > 0 ? (saidaAntecipada / (valorHora || 1)).toFixed(2) : 0), amount: Number((-saidaAntecipada).toFixed(2)) },
+    { code: effectiveRubrics.DSR_SAIDA_ANTECIPADA.code, description: effectiveRubrics.DSR_SAIDA_ANTECIPADA.label, reference: null, amount: Number((-descontoDSRSaidaAntecipada).toFixed(2)) },
+    { code: effectiveRubrics.FALTA.code, description: effectiveRubrics.FALTA.label, reference: diasFalta, amount: Number((-descontoFaltas).toFixed(2)) },
+    { code: effectiveRubrics.DSR_FALTA.code, description: effectiveRubrics.DSR_FALTA.label, reference: descansosPerdidosFalta, amount: Number((-descontoDSRFaltas).toFixed(2)) },
   ].filter((line) => Math.abs(line.amount) > 0);
 
   return {
     mes,
     ano,
+    tabelaFiscal: {
+      id: tabelaFiscal.id,
+      vigenciaInicio: tabelaFiscal.vigenciaInicio,
+      descricao: tabelaFiscal.descricao,
+    },
     diasUteis,
     domingosEFeriados,
     feriadosConsiderados: feriados,
     diasBaseDsr,
     descansosDsr,
     feriadosDsrConsiderados: feriadosDsr,
+    semanasComFalta: faltasInjustificadas,
     lines,
     valores: {
       salarioBase: Number(salarioBase.toFixed(2)),
       valorHora: Number(valorHora.toFixed(2)),
       totalHorasExtras: Number(totalHorasExtras.toFixed(2)),
+      bancoHorasVencido: Number(valorBancoHorasVencido.toFixed(2)),
+      bancoHorasVencidoHoras: Number(horasBancoVencido.toFixed(2)),
+      sobreavisoProntidao: Number(valorSobreavisoProntidao.toFixed(2)),
       baseHorasExtrasParaDsr: Number(baseHorasExtrasParaDsr.toFixed(2)),
       adicionalNoturno: Number(adicionalNoturno.toFixed(2)),
       adicionalNoturnoHoras: Number((normalNightSummary.financialMinutes / 60).toFixed(2)),
@@ -489,12 +697,22 @@ export function calcularHoleriteCompleto({
       descansosDsr,
       valorDSR: Number(valorDSR.toFixed(2)),
       totalProventos: Number(totalProventos.toFixed(2)),
+      remuneracaoTributavel: Number(remuneracaoTributavel.toFixed(2)),
 
       inss: Number(inss.toFixed(2)),
       baseINSS: Number(baseINSS.toFixed(2)),
+      fgtsBase: Number(fgtsBase.toFixed(2)),
+      fgtsAliquota,
+      fgts: Number(fgts.toFixed(2)),
       baseIR: Number(baseIR.toFixed(2)),
+      deducaoIRAplicada,
+      baseIRDeducoesLegais: Number(baseIRDeducoesLegais.toFixed(2)),
+      irDeducoesLegais: Number(irDeducoesLegais.toFixed(2)),
+      descontoSimplificadoIR: tabelaFiscal.descontoSimplificado ?? null,
+      baseIRDescontoSimplificado: baseIRDescontoSimplificado != null ? Number(baseIRDescontoSimplificado.toFixed(2)) : null,
+      irDescontoSimplificado: irDescontoSimplificado != null ? Number(irDescontoSimplificado.toFixed(2)) : null,
       irBaseTradicional: Number(irBaseTradicional.toFixed(2)),
-      redutorMensal2026: Number(redutorMensal2026.toFixed(2)),
+      redutorMensal: Number(redutorMensal.toFixed(2)),
       rendaMensalConsiderada: Number(rendaMensal.toFixed(2)),
       irTotal: Number(irTotal.toFixed(2)),
       irRetidoNoAdiantamento: Number(irRetidoNoAdiantamento.toFixed(2)),
@@ -506,6 +724,12 @@ export function calcularHoleriteCompleto({
 
       atraso: Number(atraso.toFixed(2)),
       descontoDSRAtraso: Number(descontoDSRAtraso.toFixed(2)),
+      saidaAntecipada: Number(saidaAntecipada.toFixed(2)),
+      descontoDSRSaidaAntecipada: Number(descontoDSRSaidaAntecipada.toFixed(2)),
+      faltas: Number(descontoFaltas.toFixed(2)),
+      descontoDSRFaltas: Number(descontoDSRFaltas.toFixed(2)),
+      diasFalta,
+      descansosPerdidosFalta,
       arredondamentoAnterior: Number(previousRoundingCarryover.toFixed(2)),
       arredondamento: Number(arredondamentoAplicado.toFixed(2)),
       proximoArredondamento: Number(arredondamentoAplicado.toFixed(2)),
@@ -526,3 +750,85 @@ export function calcularHoleriteCompleto({
     }
   };
 }
+
+export interface HoleriteCompetenciaParams {
+  entries: TimeEntry[];
+  normalEntries?: TimeEntry[];
+  overtimeEntries?: TimeEntry[];
+  settings: Settings;
+  mes: number;
+  ano: number;
+  competencia?: string;
+  priorLimitUsage?: OvertimeLimitUsage[];
+  hourBankExpiredMinutes?: number;
+}
+
+export interface HoleriteCompetencia {
+  calc: OvertimeCalculationResult;
+  payroll: ReturnType<typeof calcularHoleriteCompleto>;
+  atrasoValor: number;
+  normals: TimeEntry[];
+  overs: TimeEntry[];
+}
+
+// Apuracao completa de uma competencia a partir dos cartoes: motor de HE, faltas, atrasos e holerite. O holerite
+// na tela e a projecao do FGTS saem daqui para nao divergir.
+export function calcularHoleriteDaCompetencia({
+  entries,
+  normalEntries,
+  overtimeEntries,
+  settings,
+  mes,
+  ano,
+  competencia,
+  priorLimitUsage,
+  hourBankExpiredMinutes = 0,
+}: HoleriteCompetenciaParams): HoleriteCompetencia | null {
+  if (!entries || entries.length === 0) return null;
+  const effectiveConfig = resolveEffectiveCalculationConfig(settings);
+
+  const effectiveEntries = normalizeOvernightEntries(entries);
+  const normals = normalizeOvernightEntries(normalEntries ?? effectiveEntries.filter(e => !e.isOvertimeCard));
+  const overs = normalizeOvernightEntries(overtimeEntries ?? effectiveEntries.filter(e => !!e.isOvertimeCard));
+  const calc = calculateOvertime(effectiveEntries, settings, { competencia, priorLimitUsage });
+  if (!calc) return null;
+
+  const faltasInjustificadas = detectarFaltasInjustificadas([...normals, ...overs], settings, calc.holidayDates);
+  const diasFalta = faltasInjustificadas.flatMap((semana) => semana.faltas);
+  const atrasoDetalhado = detalharMinutosAtraso(normals, settings, calc.holidayDates, diasFalta);
+
+  const valorHora = (settings.baseSalary || 0) / (settings.monthlyHours || 1);
+  const atrasoValor = (atrasoDetalhado.atrasoMinutes / 60) * valorHora;
+  const saidaAntecipadaValor = (atrasoDetalhado.saidaAntecipadaMinutes / 60) * valorHora;
+
+  const payroll = calcularHoleriteCompleto({
+    salarioBase: settings.baseSalary || 0,
+    horasMensais: settings.monthlyHours || 220,
+    he50: calc.grandTotal50,
+    he75: calc.grandTotal75,
+    he100: calc.grandTotal100,
+    he125: calc.grandTotal125,
+    perc50: effectiveConfig.percent50 || 50,
+    perc100: effectiveConfig.percent100 || 100,
+    percNight: effectiveConfig.percentNight || 25,
+    mes,
+    ano,
+    atraso: atrasoValor,
+    saidaAntecipada: saidaAntecipadaValor,
+    faltasInjustificadas,
+    dependentes: settings.dependentes || 0,
+    jovemAprendiz: !!settings.jovemAprendiz,
+    adiantamentoPercent: settings.adiantamentoPercent || 45,
+    adiantamentoPago: settings.adiantamentoIR ? { bruto: 0, irRetido: settings.adiantamentoIR } : null,
+    cycleStartDay: effectiveConfig.cycleStartDay || 15,
+    rubrics: settings.companySettings?.rubrics,
+    companyConfig: settings.companySettings?.config,
+    normalEntries: normals,
+    bancoHorasVencidoMinutos: hourBankExpiredMinutes,
+    overtimeBuckets: calc.overtimeBuckets,
+    discountBuckets: calc.discountBuckets,
+    onCallBuckets: calc.onCallBuckets,
+  });
+
+  return { calc, payroll, atrasoValor, normals, overs };
+}
@@ -0,0 +1,211 @@
+import { differenceInCalendarDays, isValid, parseISO, startOfWeek } from 'date-fns';
+import type { Settings, TimeEntry } from './calculations';
+import { resolveEffectiveCalculationConfig, resolveMarkingTolerance, roundEntryPunches } from './calculations';
+import {
+  diffMinutes,
+  normalizeClock,
+  resolveDailyJourneyMinutes,
+  resolveDelayMinutes,
+  resolveEarlyLeaveMinutes,
+  resolveExpectedEndMinutes,
+  resolveExpectedStartMinutes,
+  type DelayComputationOptions,
+  type PunchEntryLike,
+} from './timeMath';
+
+// ---------------------------------------------------------
+//  ESCALAS DE TRABALHO (12x36, 6x1, 5x2, revezamento)
+// ---------------------------------------------------------
+export type ShiftScheduleKind = 'fixed' | '12x36' | '6x1' | '5x2' | 'rotating';
+
+export interface ShiftTurn {
+  label?: string;
+  start: string;
+  end: string;
+  breakMinutes?: number;
+}
+
+export interface CompanyShiftSchedule {
+  kind: ShiftScheduleKind;
+  // 12x36: um dia trabalhado da escala. Revezamento: primeiro dia do primeiro turno. 6x1: semana da primeira folga da lista.
+  anchorDate?: string;
+  turns: ShiftTurn[];
+  // 5x2 e revezamento: dias de folga fixos. 6x1: uma folga por semana, girando pela lista (0 = domingo).
+  restWeekdays?: number[];
+  // Revezamento: dias corridos em cada turno antes de passar ao proximo.
+  rotationDays?: number;
+}
+
+export interface ShiftScheduleDay {
+  date: string;
+  isRestDay: boolean;
+  journeyMinutes: number;
+  expectedStart: string;
+  expectedEnd: string;
+  turnLabel?: string;
+}
+
+export const SHIFT_SCHEDULE_KINDS: ShiftScheduleKind[] = ['fixed', '12x36', '6x1', '5x2', 'rotating'];
+
+export const SHIFT_SCHEDULE_LABELS: Record<ShiftScheduleKind, string> = {
+  fixed: 'Horario fixo semanal',
+  '12x36': '12x36',
+  '6x1': '6x1 (folga rotativa)',
+  '5x2': '5x2',
+  rotating: 'Revezamento de turnos',
+};
+
+const DEFAULT_REST_WEEKDAYS: Record<Exclude<ShiftScheduleKind, 'fixed' | '12x36'>, number[]> = {
+  '6x1': [0],
+  '5x2': [0, 6],
+  rotating: [0],
+};
+
+export function isShiftScheduleKind(value: unknown): value is ShiftScheduleKind {
+  return typeof value === 'string' && (SHIFT_SCHEDULE_KINDS as string[]).includes(value);
+}
+
+function positiveModulo(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+export function resolveShiftTurnJourneyMinutes(turn: ShiftTurn): number {
+  return Math.max(0, diffMinutes(turn.start, turn.end) - Math.max(0, Number(turn.breakMinutes) || 0));
+}
+
+// Escala sem turno valido (ou 12x36 sem data ancora) volta para o horario fixo das configuracoes.
+export function resolveShiftSchedule(settings: Settings): CompanyShiftSchedule | null {
+  const schedule = settings.companySettings?.config?.shiftSchedule;
+  if (!schedule || !isShiftScheduleKind(schedule.kind) || schedule.kind === 'fixed') return null;
+  const turns = (schedule.turns || []).filter((turn) => !!normalizeClock(turn.start) && !!normalizeClock(turn.end));
+  if (turns.length === 0) return null;
+  if (schedule.kind === '12x36' && !isValid(parseISO(String(schedule.anchorDate || '')))) return null;
+  return { ...schedule, turns };
+}
+
+function resolveRestWeekdays(schedule: CompanyShiftSchedule): number[] {
+  const restWeekdays = (schedule.restWeekdays || []).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  if (restWeekdays.length > 0) return restWeekdays;
+  return schedule.kind === 'fixed' || schedule.kind === '12x36' ? [] : DEFAULT_REST_WEEKDAYS[schedule.kind];
+}
+
+function resolveAnchorDate(schedule: CompanyShiftSchedule, fallback: Date): Date {
+  const anchor = parseISO(String(schedule.anchorDate || ''));
+  return isValid(anchor) ? anchor : fallback;
+}
+
+export function resolveShiftScheduleDay(dateKey: string, settings: Settings): ShiftScheduleDay | null {
+  const schedule = resolveShiftSchedule(settings);
+  const date = parseISO(dateKey);
+  if (!schedule || !isValid(date)) return null;
+
+  const anchor = resolveAnchorDate(schedule, date);
+  const restWeekdays = resolveRestWeekdays(schedule);
+  let turn = schedule.turns[0];
+  let isRestDay = false;
+
+  if (schedule.kind === '12x36') {
+    isRestDay = positiveModulo(differenceInCalendarDays(date, anchor), 2) === 1;
+  } else if (schedule.kind === '6x1') {
+    const weekIndex = Math.round(differenceInCalendarDays(startOfWeek(date), startOfWeek(anchor)) / 7);
+    isRestDay = date.getDay() === restWeekdays[positiveModulo(weekIndex, restWeekdays.length)];
+  } else if (schedule.kind === 'rotating') {
+    const rotationDays = Math.max(1, Math.round(Number(schedule.rotationDays) || 7));
+    const turnIndex = Math.floor(differenceInCalendarDays(date, anchor) / rotationDays);
+    turn = schedule.turns[positiveModulo(turnIndex, schedule.turns.length)];
+    isRestDay = restWeekdays.includes(date.getDay());
+  } else {
+    isRestDay = restWeekdays.includes(date.getDay());
+  }
+
+  return {
+    date: dateKey,
+    isRestDay,
+    journeyMinutes: isRestDay ? 0 : resolveShiftTurnJourneyMinutes(turn),
+    expectedStart: isRestDay ? '' : normalizeClock(turn.start),
+    expectedEnd: isRestDay ? '' : normalizeClock(turn.end),
+    ...(turn.label ? { turnLabel: turn.label } : {}),
+  };
+}
+
+// Jornada prevista do dia: a escala da empresa quando existir, senao o horario fixo com compensacao de sabado.
+export function resolveScheduledJourneyMinutes(dateKey: string, isOvertimeCardEntry: boolean, settings: Settings): number {
+  if (isOvertimeCardEntry) return 0;
+  const scheduleDay = resolveShiftScheduleDay(dateKey, settings);
+  if (scheduleDay) return scheduleDay.journeyMinutes;
+  const date = parseISO(dateKey);
+  return resolveDailyJourneyMinutes(
+    resolveEffectiveCalculationConfig(settings).dailyJourney,
+    false,
+    isValid(date) ? date.getDay() : 0,
+    !!settings.saturdayCompensation,
+    settings.compDays
+  );
+}
+
+// Dia de descanso da escala (ou domingo no horario fixo): nao ha jornada a cumprir nem falta a descontar.
+export function isScheduledRestDay(dateKey: string, settings: Settings): boolean {
+  const scheduleDay = resolveShiftScheduleDay(dateKey, settings);
+  if (scheduleDay) return scheduleDay.isRestDay;
+  const date = parseISO(dateKey);
+  return isValid(date) && date.getDay() === 0;
+}
+
+function buildExpectedMarkingOptions(dateKey: string, settings: Settings): DelayComputationOptions {
+  const scheduleDay = resolveShiftScheduleDay(dateKey, settings);
+  return {
+    workStart: settings.workStart,
+    workEnd: settings.workEnd,
+    saturdayWorkStart: settings.saturdayWorkStart,
+    saturdayWorkEnd: settings.saturdayWorkEnd,
+    saturdayCompensation: !!settings.saturdayCompensation,
+    compDaysRaw: settings.compDays,
+    expectedStart: scheduleDay?.expectedStart,
+    expectedEnd: scheduleDay?.expectedEnd,
+  };
+}
+
+// Entrada e saida previstas do dia (minutos do dia; 0 quando nao ha horario), base da tolerancia por marcacao.
+export function resolveScheduledMarkings(dateKey: string, settings: Settings): { expectedStartMinutes: number; expectedEndMinutes: number } {
+  const date = parseISO(dateKey);
+  if (!isValid(date) || resolveShiftScheduleDay(dateKey, settings)?.isRestDay) {
+    return { expectedStartMinutes: 0, expectedEndMinutes: 0 };
+  }
+  const options = buildExpectedMarkingOptions(dateKey, settings);
+  return {
+    expectedStartMinutes: resolveExpectedStartMinutes(date.getDay(), options),
+    expectedEndMinutes: resolveExpectedEndMinutes(date.getDay(), options),
+  };
+}
+
+export function resolveScheduledDelayMinutes(
+  entry: PunchEntryLike & Pick<TimeEntry, 'date'>,
+  settings: Settings,
+  toleranceMinutes?: number
+): number {
+  const date = parseISO(entry.date);
+  if (!isValid(date)) return 0;
+  if (resolveShiftScheduleDay(entry.date, settings)?.isRestDay) return 0;
+  const tolerance = resolveMarkingTolerance(settings);
+  return resolveDelayMinutes(roundEntryPunches(entry, settings), date.getDay(), {
+    ...buildExpectedMarkingOptions(entry.date, settings),
+    toleranceMinutes: toleranceMinutes ?? tolerance.perMarkingMinutes,
+    dailyToleranceMinutes: tolerance.dailyMinutes,
+  });
+}
+
+export function resolveScheduledEarlyLeaveMinutes(
+  entry: PunchEntryLike & Pick<TimeEntry, 'date'>,
+  settings: Settings,
+  toleranceMinutes?: number
+): number {
+  const date = parseISO(entry.date);
+  if (!isValid(date)) return 0;
+  if (resolveShiftScheduleDay(entry.date, settings)?.isRestDay) return 0;
+  const tolerance = resolveMarkingTolerance(settings);
+  return resolveEarlyLeaveMinutes(roundEntryPunches(entry, settings), date.getDay(), {
+    ...buildExpectedMarkingOptions(entry.date, settings),
+    toleranceMinutes: toleranceMinutes ?? tolerance.perMarkingMinutes,
+    dailyToleranceMinutes: tolerance.dailyMinutes,
+  });
+}
@@ -6,9 +6,14 @@ import type {
   CompanyRubricKey,
   CompanyRubricMap,
   CompanySettingsProfile,
-  Settings
+  Settings,
+  TimeEntry
 } from './calculations';
 import { buildSuggestedCompanyRubrics, buildSuggestedDailyOvertimeDiscountRules, buildSuggestedOvertimeRules } from './calculations';
+import { isDayStatus } from './dayStatus';
+import { normalizeOnCallPeriods } from './onCall';
+import { isShiftScheduleKind } from './shiftSchedule';
+import { buildHourBankMovements, isLegacyHourBankType, LEGACY_HOUR_BANK_TYPES, resolveHourBankMovementKind, type HourBankMovement } from './hourBank';
 import { supabase, SUPABASE_CARDS_BUCKET } from './supabase';
 
 type CardType = 'normal' | 'overtime';
@@ -48,6 +53,52 @@ const COMPANY_RUBRIC_KEYS: CompanyRubricKey[] = [
   'DESC_HE_2',
   'ATRASO',
   'DSR_ATRASO',
+  'SAIDA_ANTECIPADA',
+  'DSR_SAIDA_ANTECIPADA',
+  'FALTA',
+  'DSR_FALTA',
+  'INTERJORNADA',
+  'INTRAJORNADA',
+  'BANCO_HORAS_VENCIDO',
+  'SOBREAVISO',
+  'PRONTIDAO',
+  'DECIMO_TERCEIRO',
+  'MEDIA_HE_13',
+  'MEDIA_ADIC_NOT_13',
+  'MEDIA_DSR_13',
+  'ADIANTAMENTO_13',
+  'INSS_13',
+  'IRRF_13',
+  'FERIAS',
+  'MEDIA_HE_FERIAS',
+  'MEDIA_ADIC_NOT_FERIAS',
+  'MEDIA_DSR_FERIAS',
+  'TERCO_FERIAS',
+  'ABONO_PECUNIARIO',
+  'TERCO_ABONO',
+  'INSS_FERIAS',
+  'IRRF_FERIAS',
+];
+
+const OVERTIME_RULE_DAY_TYPES: Array<NonNullable<CompanyOvertimeRule['dayType']>> = [
+  'weekday',
+  'saturday',
+  'compensatedSaturday',
+  'sunday',
+  'holiday',
+  'any',
+];
+
+const NIGHT_EXTENSION_MODES: Array<NonNullable<CompanyCalculationConfig['nightExtensionMode']>> = [
+  'off',
+  'fullWindow',
+  'partialWindow',
+];
+
+const PUNCH_ROUNDING_MODES: Array<NonNullable<CompanyCalculationConfig['punchRounding']>['mode']> = [
+  'off',
+  'nearest',
+  'entryUpExitDown',
 ];
 
 const DEFAULT_SETTINGS: Settings = {
@@ -136,14 +187,62 @@ function normalizeCompanyConfig(value: any): CompanyCalculationConfig {
   if (raw.weeklyLimit != null && raw.weeklyLimit !== '') config.weeklyLimit = Number(raw.weeklyLimit);
   if (raw.monthlyLimitHE != null && raw.monthlyLimitHE !== '') config.monthlyLimitHE = Number(raw.monthlyLimitHE);
   if (raw.nightCutoff != null && raw.nightCutoff !== '') config.nightCutoff = String(raw.nightCutoff);
+  if (raw.nightEnd != null && raw.nightEnd !== '') config.nightEnd = String(raw.nightEnd);
+  if (raw.nightHourMinutes != null && raw.nightHourMinutes !== '' && Number(raw.nightHourMinutes) > 0) {
+    config.nightHourMinutes = Number(raw.nightHourMinutes);
+  }
+  if (NIGHT_EXTENSION_MODES.includes(raw.nightExtensionMode)) config.nightExtensionMode = raw.nightExtensionMode;
   if (raw.percent50 != null && raw.percent50 !== '') config.percent50 = Number(raw.percent50);
   if (raw.percent100 != null && raw.percent100 !== '') config.percent100 = Number(raw.percent100);
   if (raw.percentNight != null && raw.percentNight !== '') config.percentNight = Number(raw.percentNight);
   if (raw.cycleStartDay != null && raw.cycleStartDay !== '') config.cycleStartDay = clampCycleStartDay(raw.cycleStartDay);
   if (raw.roundingCarryover != null && raw.roundingCarryover !== '') config.roundingCarryover = Number(raw.roundingCarryover);
+  if (raw.interjornadaMinimumHours != null && raw.interjornadaMinimumHours !== '') config.interjornadaMinimumHours = Number(raw.interjornadaMinimumHours);
+  if (raw.interjornadaPercent != null && raw.interjornadaPercent !== '') config.interjornadaPercent = Number(raw.interjornadaPercent);
+  if (raw.intrajornadaThresholdHours != null && raw.intrajornadaThresholdHours !== '') config.intrajornadaThresholdHours = Number(raw.intrajornadaThresholdHours);
+  if (raw.intrajornadaMinimumMinutes != null && raw.intrajornadaMinimumMinutes !== '') config.intrajornadaMinimumMinutes = Number(raw.intrajornadaMinimumMinutes);
+  if (raw.intrajornadaPercent != null && raw.intrajornadaPercent !== '') config.intrajornadaPercent = Number(raw.intrajornadaPercent);
+  if (raw.markingToleranceMinutes != null && raw.markingToleranceMinutes !== '') config.markingToleranceMinutes = Math.max(0, Number(raw.markingToleranceMinutes));
+  if (raw.dailyMarkingToleranceMinutes != null && raw.dailyMarkingToleranceMinutes !== '') config.dailyMarkingToleranceMinutes = Math.max(0, Number(raw.dailyMarkingToleranceMinutes));
+  if (raw.punchRounding && typeof raw.punchRounding === 'object' && PUNCH_ROUNDING_MODES.includes(raw.punchRounding.mode)) {
+    config.punchRounding = {
+      mode: raw.punchRounding.mode,
+      intervalMinutes: Math.max(0, Math.round(Number(raw.punchRounding.intervalMinutes) || 0)),
+    };
+  }
+  if (raw.hourBankAgreement === 'individual' || raw.hourBankAgreement === 'coletivo') config.hourBankAgreement = raw.hourBankAgreement;
+  if (raw.overtimeAuthorizationPolicy === 'payAll' || raw.overtimeAuthorizationPolicy === 'authorizedOnly') {
+    config.overtimeAuthorizationPolicy = raw.overtimeAuthorizationPolicy;
+  }
+  if (raw.hourBankExpiryMonths != null && raw.hourBankExpiryMonths !== '') config.hourBankExpiryMonths = Number(raw.hourBankExpiryMonths);
   if (Array.isArray(raw.customHolidays) || typeof raw.customHolidays === 'string') {
     config.customHolidays = normalizeHolidayList(raw.customHolidays);
   }
+  if (Array.isArray(raw.dayStatusPatterns)) {
+    config.dayStatusPatterns = raw.dayStatusPatterns
+      .filter((item: any) => item && typeof item === 'object')
+      .map((item: any) => ({ pattern: String(item.pattern || '').trim(), status: item.status }))
+      .filter((item: any) => item.pattern && isDayStatus(item.status));
+  }
+  if (raw.shiftSchedule && typeof raw.shiftSchedule === 'object' && isShiftScheduleKind(raw.shiftSchedule.kind)) {
+    const schedule = raw.shiftSchedule;
+    config.shiftSchedule = {
+      kind: schedule.kind,
+      anchorDate: String(schedule.anchorDate || '').trim() || undefined,
+      turns: (Array.isArray(schedule.turns) ? schedule.turns : [])
+        .filter((turn: any) => turn && typeof turn === 'object')
+        .map((turn: any) => ({
+          label: String(turn.label || '').trim() || undefined,
+          start: String(turn.start || '').trim(),
+          end: String(turn.end || '').trim(),
+          breakMinutes: Math.max(0, Number(turn.breakMinutes) || 0),
+        })),
+      restWeekdays: Array.isArray(schedule.restWeekdays)
+        ? schedule.restWeekdays.map(Number).filter((day: number) => Number.isInteger(day) && day >= 0 && day <= 6)
+        : undefined,
+      rotationDays: schedule.rotationDays == null || schedule.rotationDays === '' ? undefined : Number(schedule.rotationDays),
+    };
+  }
   if (Array.isArray(raw.overtimeRules)) {
     config.overtimeRules = raw.overtimeRules
       .filter((rule: any) => rule && typeof rule === 'object')
@@ -152,12 +251,19 @@ function normalizeCompanyConfig(value: any): CompanyCalculationConfig {
         label: String(rule.label || rule.rubricKey || `Regra ${index + 1}`),
         rubricKey: String(rule.rubricKey || ''),
         multiplier: Number(rule.multiplier || 0),
+        bankMultiplier: rule.bankMultiplier == null || rule.bankMultiplier === '' ? undefined : Number(rule.bankMultiplier),
         period: rule.period === 'day' || rule.period === 'night' || rule.period === 'any' ? rule.period : 'any',
-        dayType: rule.dayType === 'weekday' || rule.dayType === 'sunday' || rule.dayType === 'any' ? rule.dayType : 'weekday',
+        dayType: OVERTIME_RULE_DAY_TYPES.includes(rule.dayType) ? rule.dayType : 'weekday',
+        dailyLimitMinutes: rule.dailyLimitMinutes == null || rule.dailyLimitMinutes === '' ? undefined : Number(rule.dailyLimitMinutes),
+        dailyLimitGroup: String(rule.dailyLimitGroup || '').trim() || undefined,
         weeklyLimitMinutes: rule.weeklyLimitMinutes == null || rule.weeklyLimitMinutes === '' ? undefined : Number(rule.weeklyLimitMinutes),
         weeklyLimitGroup: String(rule.weeklyLimitGroup || '').trim() || undefined,
         monthlyLimitMinutes: rule.monthlyLimitMinutes == null || rule.monthlyLimitMinutes === '' ? undefined : Number(rule.monthlyLimitMinutes),
         monthlyLimitGroup: String(rule.monthlyLimitGroup || '').trim() || undefined,
+        cumulativeLimitMinutes: rule.cumulativeLimitMinutes == null || rule.cumulativeLimitMinutes === '' ? undefined : Number(rule.cumulativeLimitMinutes),
+        cumulativeLimitGroup: String(rule.cumulativeLimitGroup || '').trim() || undefined,
+        cumulativeWindowKind: rule.cumulativeWindowKind === 'calendar' || rule.cumulativeWindowKind === 'rolling' ? rule.cumulativeWindowKind : undefined,
+        cumulativeWindowMonths: rule.cumulativeWindowMonths == null || rule.cumulativeWindowMonths === '' ? undefined : Number(rule.cumulativeWindowMonths),
         priority: rule.priority == null || rule.priority === '' ? undefined : Number(rule.priority),
         active: rule.active == null ? true : !!rule.active,
       }))
@@ -337,27 +443,6 @@ function calcEntryTotalMinutes(entry: any): number {
   return total;
 }
 
-function resolveExpectedStartForSettings(settings: Settings, dayOfWeek: number): number {
-  const saturdayCompensation = !!settings.saturdayCompensation;
-  const raw = dayOfWeek === 6 && !saturdayCompensation
-    ? (settings.saturdayWorkStart || settings.workStart || '')
-    : (settings.workStart || '');
-  return normalizeClockValue(raw) ? timeToMinutes(raw) : 0;
-}
-
-function calcDelayMinutes(entry: any, settings: Settings, dayOfWeek: number): number {
-  const expectedStart = resolveExpectedStartForSettings(settings, dayOfWeek);
-  if (expectedStart <= 0) return 0;
-  const firstStart = [entry?.entry1, entry?.entry2, entry?.entryExtra]
-    .map((value) => normalizeClockValue(value))
-    .find(Boolean);
-  if (!firstStart) return 0;
-  const toleranceMinutes = 5;
-  const actualStart = timeToMinutes(firstStart);
-  if (actualStart <= expectedStart + toleranceMinutes) return 0;
-  return Math.max(0, actualStart - expectedStart);
-}
-
 function minutesToHHMM(minutes: number): string {
   const hh = Math.floor(minutes / 60);
   const mm = Math.round(minutes % 60);
@@ -395,7 +480,8 @@ function isValidIsoCalendarDate(value: string): boolean {
 
 function hasAnyContent(row: any): boolean {
   const fields = [row?.entry1, row?.exit1, row?.entry2, row?.exit2, row?.entryExtra, row?.exitExtra, row?.totalHours, row?.annotationText, row?.annotation_text];
-  return fields.some((value) => String(value ?? '').trim() !== '') || !!row?.isDPAnnotation;
+  return fields.some((value) => String(value ?? '').trim() !== '') || !!row?.isDPAnnotation || isDayStatus(row?.dayStatus)
+    || normalizeOnCallPeriods(row?.onCall).length > 0;
 }
 
 function dataUrlToBlob(dataUrl: string): Blob {
@@ -484,6 +570,7 @@ function settingsRowFromData(userId: string, settings: Settings) {
     company_cnpj: normalizeTextValue(normalizeCnpj(settings.companyCnpj)),
     card_number: normalizeTextValue(settings.cardNumber),
     dependentes: settings.dependentes ?? 0,
+    jovem_aprendiz: !!settings.jovemAprendiz,
     adiantamento_percent: settings.adiantamentoPercent ?? 40,
     adiantamento_ir: settings.adiantamentoIR ?? 0,
     saturday_compensation: !!settings.saturdayCompensation,
@@ -532,6 +619,7 @@ function settingsFromRow(row: any): Settings {
     companyCnpj: row?.company_cnpj ?? '',
     cardNumber: row?.card_number ?? '',
     dependentes: Number(row?.dependentes ?? 0),
+    jovemAprendiz: !!row?.jovem_aprendiz,
     adiantamentoPercent: Number(row?.adiantamento_percent ?? DEFAULT_SETTINGS.adiantamentoPercent),
     adiantamentoIR: Number(row?.adiantamento_ir ?? DEFAULT_SETTINGS.adiantamentoIR),
     saturdayCompensation: !!row?.saturday_compensation,
@@ -618,6 +706,9 @@ function buildFullReferenceRows(
       totalHours: src?.total_hours || '',
       isDPAnnotation: !!src?.is_dp_annotation,
       annotationText: src?.annotation_text || '',
+      ...(isDayStatus(src?.day_status) ? { dayStatus: src.day_status } : {}),
+      ...(normalizeOnCallPeriods(src?.on_call).length > 0 ? { onCall: normalizeOnCallPeriods(src.on_call) } : {}),
+      overtimeAuthorized: !!src?.overtime_authorized,
     });
   }
   return output;
@@ -644,99 +735,44 @@ async function ensureSettingsRow(userId: string): Promise<Settings> {
   return { ...DEFAULT_SETTINGS };
 }
 
+// Linhas geradas a partir dos cartoes (inclusive as legadas); lancamentos manuais (outros tipos) sobrevivem ao recalculo.
+const GENERATED_HOUR_BANK_TYPES = [...LEGACY_HOUR_BANK_TYPES, 'credito', 'debito'];
+
 async function recomputeBancoHorasForReference(referenceId: string, settings: Settings) {
   const client = ensureSupabase();
-  await client.from('banco_horas').delete().eq('reference_id', referenceId).in('type', ['extra', 'atraso']);
+  await client.from('banco_horas').delete().eq('reference_id', referenceId).in('type', GENERATED_HOUR_BANK_TYPES);
 
-  const { data: normalRows, error } = await client
+  const { data: rows, error } = await client
     .from('reference_entries')
-    .select('work_date, entry1, exit1, entry2, exit2, entry_extra, exit_extra')
+    .select('id, card_type, work_date, entry1, exit1, entry2, exit2, entry_extra, exit_extra, annotation_text, day_status, overtime_authorized')
     .eq('reference_id', referenceId)
-    .eq('card_type', 'normal')
     .order('work_date', { ascending: true });
   if (error) throw error;
 
-  const journeyMinutes = Math.round((settings.dailyJourney || 0) * 60);
-  const hasSatComp = !!settings.saturdayCompensation;
-  const compDays = String(settings.compDays || '1,2,3,4')
-    .split(',')
-    .map((value) => Number(value.trim()))
-    .filter((value) => Number.isFinite(value));
-
-  const payload = (normalRows || []).flatMap((row: any) => {
-    const dateStr = String(row.work_date || '');
-    if (!dateStr) return [];
-    const date = new Date(`${dateStr}T12:00:00`);
-    const dayOfWeek = date.getDay();
-    const isSunday = dayOfWeek === 0;
-    let currentJourney = journeyMinutes;
-    if (hasSatComp) {
-      if (compDays.includes(dayOfWeek)) currentJourney += 60;
-      else if (dayOfWeek === 6) currentJourney = 0;
-    }
-    const hasAnyMark = [
-      row.entry1,
-      row.exit1,
-      row.entry2,
-      row.exit2,
-      row.entry_extra,
-      row.exit_extra,
-    ].some((value) => !!String(value || '').trim());
-    const total = calcEntryTotalMinutes({
-      entry1: row.entry1,
-      exit1: row.exit1,
-      entry2: row.entry2,
-      exit2: row.exit2,
-      entryExtra: row.entry_extra,
-      exitExtra: row.exit_extra,
-    });
+  const entries: TimeEntry[] = (rows || []).map((row: any) => ({
+    id: String(row.id),
+    date: String(row.work_date || ''),
+    entry1: row.entry1 || '',
+    exit1: row.exit1 || '',
+    entry2: row.entry2 || '',
+    exit2: row.exit2 || '',
+    entryExtra: row.entry_extra || '',
+    exitExtra: row.exit_extra || '',
+    totalHours: '',
+    annotationText: row.annotation_text || '',
+    ...(isDayStatus(row.day_status) ? { dayStatus: row.day_status } : {}),
+    isOvertimeCard: row.card_type === 'overtime',
+    overtimeAuthorized: !!row.overtime_authorized,
+  }));
 
-    if (isSunday && total > 0) {
-      return [{
-        reference_id: referenceId,
-        date: dateStr,
-        minutes: total,
-        type: 'extra',
-        description: 'Domingo - banco de horas',
-      }];
-    }
-    if (total > currentJourney) {
-      return [{
-        reference_id: referenceId,
-        date: dateStr,
-        minutes: total - currentJourney,
-        type: 'extra',
-        description: 'Excedente cartao normal',
-      }];
-    }
-    if (!hasAnyMark && currentJourney > 0) {
-      return [{
-        reference_id: referenceId,
-        date: dateStr,
-        minutes: currentJourney,
-        type: 'atraso',
-        description: 'Falta cartao normal',
-      }];
-    }
-    const delayMinutes = calcDelayMinutes({
-      entry1: row.entry1,
-      exit1: row.exit1,
-      entry2: row.entry2,
-      exit2: row.exit2,
-      entryExtra: row.entry_extra,
-      exitExtra: row.exit_extra,
-    }, settings, dayOfWeek);
-    if (delayMinutes > 0) {
-      return [{
-        reference_id: referenceId,
-        date: dateStr,
-        minutes: delayMinutes,
-        type: 'atraso',
-        description: 'Atraso cartao normal',
-      }];
-    }
-    return [];
-  });
+  const payload = buildHourBankMovements(entries, settings).map((movement) => ({
+    reference_id: referenceId,
+    date: movement.date,
+    minutes: movement.minutes,
+    raw_minutes: movement.rawMinutes ?? movement.minutes,
+    type: movement.kind,
+    description: movement.description,
+  }));
 
   if (payload.length > 0) {
     const { error: insertError } = await client.from('banco_horas').insert(payload);
@@ -787,6 +823,19 @@ export async function listHoleriths(): Promise<any[]> {
   }));
 }
 
+// Grava o FGTS apurado na competencia ao salvar o cartao ou as configuracoes; o extrato projetado e recalculado dos cartoes.
+export async function saveReferenceFgts(ref: string, fgts: { base: number; aliquota: number; valor: number }): Promise<void> {
+  const client = ensureSupabase();
+  const userId = await getCurrentUserId();
+  const { error } = await client
+    .from('references')
+    .update({ fgts_base: fgts.base, fgts_aliquota: fgts.aliquota, fgts_valor: fgts.valor })
+    .eq('user_id', userId)
+    .eq('month', Number(ref.slice(0, 2)))
+    .eq('year', Number(ref.slice(2)));
+  if (error) throw error;
+}
+
 export async function getReference(ref: string): Promise<any> {
   const client = ensureSupabase();
   const userId = await getCurrentUserId();
@@ -842,6 +891,8 @@ export async function getReference(ref: string): Promise<any> {
     totalHours: entry.total_hours,
     isDPAnnotation: entry.is_dp_annotation,
     annotationText: entry.annotation_text,
+    dayStatus: entry.day_status,
+    onCall: entry.on_call,
   }));
   const hasOvertimeRows = (entries || []).some((entry: any) => entry.card_type === 'overtime' && hasAnyContent({
     entry1: entry.entry1,
@@ -853,6 +904,8 @@ export async function getReference(ref: string): Promise<any> {
     totalHours: entry.total_hours,
     isDPAnnotation: entry.is_dp_annotation,
     annotationText: entry.annotation_text,
+    dayStatus: entry.day_status,
+    onCall: entry.on_call,
   }));
 
   const hasNormalCard = !!reference.has_normal_card || hasNormalRows || !!reference.front_image || !!reference.back_image;
@@ -1007,6 +1060,11 @@ export async function saveReference(ref: string, payload: ReferencePayload): Pro
         totalHours: '',
         isDPAnnotation: typeof row?.isDPAnnotation === 'boolean' ? row.isDPAnnotation : !!existing.isDPAnnotation,
         annotationText: pick(row.annotationText, existing.annotationText) || '',
+        // Situacao vazia no payload volta a ser deduzida da anotacao; ausente mantem a gravada.
+        dayStatus: row && 'dayStatus' in row ? (isDayStatus(row.dayStatus) ? row.dayStatus : undefined) : existing.dayStatus,
+        // Mesma regra para as janelas de sobreaviso/prontidao: lista vazia volta a ler da anotacao.
+        onCall: row && 'onCall' in row ? normalizeOnCallPeriods(row.onCall) : normalizeOnCallPeriods(existing.onCall),
+        overtimeAuthorized: typeof row?.overtimeAuthorized === 'boolean' ? row.overtimeAuthorized : !!existing.overtimeAuthorized,
       };
       const totalMinutes = calcEntryTotalMinutes(next);
       next.totalHours = totalMinutes > 0 ? minutesToHHMM(totalMinutes) : '';
@@ -1034,6 +1092,9 @@ export async function saveReference(ref: string, payload: ReferencePayload): Pro
         total_hours: row.totalHours || null,
         is_dp_annotation: !!row.isDPAnnotation,
         annotation_text: row.annotationText || null,
+        day_status: isDayStatus(row.dayStatus) ? row.dayStatus : null,
+        on_call: row.onCall.length > 0 ? row.onCall : null,
+        overtime_authorized: !!row.overtimeAuthorized,
       }];
     });
 
@@ -1043,12 +1104,16 @@ export async function saveReference(ref: string, payload: ReferencePayload): Pro
     }
   };
 
-  if (Array.isArray(payload.hours) && payload.hours.length > 0) {
-    await persistType('normal', payload.hours);
-    await recomputeBancoHorasForReference(referenceId, settings);
+  const hasNormalPayload = Array.isArray(payload.hours) && payload.hours.length > 0;
+  const hasOvertimePayload = Array.isArray(payload.he) && payload.he.length > 0;
+  if (hasNormalPayload) {
+    await persistType('normal', payload.hours!);
   }
-  if (Array.isArray(payload.he) && payload.he.length > 0) {
-    await persistType('overtime', payload.he);
+  if (hasOvertimePayload) {
+    await persistType('overtime', payload.he!);
+  }
+  if (hasNormalPayload || hasOvertimePayload) {
+    await recomputeBancoHorasForReference(referenceId, { ...settings, companySettings: companySettings || settings.companySettings });
   }
 
   const nextSettings: Settings = {
@@ -1105,9 +1170,7 @@ export async function deleteReference(ref: string, type: 'normal' | 'overtime' |
       await removeCardImage(currentRow?.back_image_he);
     }
 
-    if (type === 'normal') {
-      await client.from('banco_horas').delete().eq('reference_id', referenceId).in('type', ['extra', 'atraso']);
-    }
+    await recomputeBancoHorasForReference(referenceId, await getSettings());
 
     const { count } = await client
       .from('reference_entries')
@@ -1188,7 +1251,7 @@ export async function listBancoHoras(): Promise<any[]> {
   const userId = await getCurrentUserId();
   const { data, error } = await client
     .from('banco_horas')
-    .select('id, reference_id, date, minutes, type, description, references!inner(month, year)')
+    .select('id, reference_id, date, minutes, raw_minutes, type, description, references!inner(month, year)')
     .eq('references.user_id', userId)
     .order('date', { ascending: true });
   if (error) throw error;
@@ -1197,6 +1260,7 @@ export async function listBancoHoras(): Promise<any[]> {
     holerith_id: row.reference_id,
     date: row.date,
     minutes: row.minutes,
+    raw_minutes: row.raw_minutes,
     type: row.type,
     description: row.description,
     month: row.references?.month,
@@ -1212,7 +1276,7 @@ export async function addBancoHoras(entry: { holerith_id: string; date: string;
       reference_id: entry.holerith_id,
       date: entry.date,
       minutes: entry.minutes,
-      type: entry.type || 'extra',
+      type: entry.type || 'credito',
       description: entry.description || null,
     })
     .select('id')
@@ -1227,3 +1291,17 @@ export async function deleteBancoHoras(id: string): Promise<{ success: true; cou
   if (error) throw error;
   return { success: true, count: 1 };
 }
+
+export async function listHourBankMovements(): Promise<HourBankMovement[]> {
+  const rows = await listBancoHoras();
+  return rows.filter((row) => !isLegacyHourBankType(row.type)).map((row) => ({
+    id: String(row.id),
+    date: String(row.date || ''),
+    minutes: Math.abs(Number(row.minutes) || 0),
+    ...(row.raw_minutes != null && Number(row.raw_minutes) !== Number(row.minutes)
+      ? { rawMinutes: Math.abs(Number(row.raw_minutes) || 0) }
+      : {}),
+    kind: resolveHourBankMovementKind(row.type),
+    description: String(row.description || ''),
+  }));
+}
@@ -0,0 +1,219 @@
+// ---------------------------------------------------------
+//  TABELAS DE INSS E IRRF POR VIGENCIA
+// ---------------------------------------------------------
+// Cada versao vale a partir de `vigenciaInicio` (AAAA-MM) ate a entrada da proxima; o holerite de uma
+// competencia antiga e recalculado com a lei daquela epoca, nao com a tabela atual.
+export interface FaixaINSS {
+  limite: number;
+  aliquota: number;
+}
+
+// Faixa da tabela mensal do IRRF; `limite` nulo e a ultima faixa, sem teto.
+export interface FaixaIRRF {
+  limite: number | null;
+  aliquota: number;
+  deducao: number;
+}
+
+// Redutor mensal da Lei 15.270/2025: zera o IR ate `isencaoAte` e diminui linearmente ate `limite`.
+export interface RedutorIRRF {
+  isencaoAte: number;
+  limite: number;
+  constante: number;
+  fator: number;
+}
+
+export interface TabelaFiscal {
+  id: string;
+  vigenciaInicio: string;
+  descricao: string;
+  inss: FaixaINSS[];
+  irrf: FaixaIRRF[];
+  valorDependente: number;
+  // Desconto simplificado mensal (substitui INSS e dependentes quando for mais vantajoso); ausente antes de maio/2023.
+  descontoSimplificado?: number;
+  redutorIRRF?: RedutorIRRF;
+}
+
+export type TabelaFiscalAplicada = Pick<TabelaFiscal, 'id' | 'vigenciaInicio' | 'descricao'>;
+
+const INSS_2023_JAN: FaixaINSS[] = [
+  { limite: 1302.00, aliquota: 0.075 },
+  { limite: 2571.29, aliquota: 0.09 },
+  { limite: 3856.94, aliquota: 0.12 },
+  { limite: 7507.49, aliquota: 0.14 },
+];
+
+const INSS_2023_MAI: FaixaINSS[] = [
+  { limite: 1320.00, aliquota: 0.075 },
+  { limite: 2571.29, aliquota: 0.09 },
+  { limite: 3856.94, aliquota: 0.12 },
+  { limite: 7507.49, aliquota: 0.14 },
+];
+
+const INSS_2024: FaixaINSS[] = [
+  { limite: 1412.00, aliquota: 0.075 },
+  { limite: 2666.68, aliquota: 0.09 },
+  { limite: 4000.03, aliquota: 0.12 },
+  { limite: 7786.02, aliquota: 0.14 },
+];
+
+const INSS_2025: FaixaINSS[] = [
+  { limite: 1518.00, aliquota: 0.075 },
+  { limite: 2793.88, aliquota: 0.09 },
+  { limite: 4190.83, aliquota: 0.12 },
+  { limite: 8157.41, aliquota: 0.14 },
+];
+
+const INSS_2026: FaixaINSS[] = [
+  { limite: 1621.00, aliquota: 0.075 },
+  { limite: 2902.84, aliquota: 0.09 },
+  { limite: 4354.27, aliquota: 0.12 },
+  { limite: 8475.55, aliquota: 0.14 },
+];
+
+// Tabela de 2015, vigente ate abril/2023.
+const IRRF_2015: FaixaIRRF[] = [
+  { limite: 1903.98, aliquota: 0, deducao: 0 },
+  { limite: 2826.65, aliquota: 0.075, deducao: 142.80 },
+  { limite: 3751.05, aliquota: 0.15, deducao: 354.80 },
+  { limite: 4664.68, aliquota: 0.225, deducao: 636.13 },
+  { limite: null, aliquota: 0.275, deducao: 869.36 },
+];
+
+// MP 1.171/2023, a partir de maio/2023.
+const IRRF_2023_MAI: FaixaIRRF[] = [
+  { limite: 2112.00, aliquota: 0, deducao: 0 },
+  { limite: 2826.65, aliquota: 0.075, deducao: 158.40 },
+  { limite: 3751.05, aliquota: 0.15, deducao: 370.40 },
+  { limite: 4664.68, aliquota: 0.225, deducao: 651.73 },
+  { limite: null, aliquota: 0.275, deducao: 884.96 },
+];
+
+// Lei 14.848/2024, a partir de fevereiro/2024.
+const IRRF_2024_FEV: FaixaIRRF[] = [
+  { limite: 2259.20, aliquota: 0, deducao: 0 },
+  { limite: 2826.65, aliquota: 0.075, deducao: 169.44 },
+  { limite: 3751.05, aliquota: 0.15, deducao: 381.44 },
+  { limite: 4664.68, aliquota: 0.225, deducao: 662.77 },
+  { limite: null, aliquota: 0.275, deducao: 896.00 },
+];
+
+// MP 1.294/2025, a partir de maio/2025.
+const IRRF_2025_MAI: FaixaIRRF[] = [
+  { limite: 2428.80, aliquota: 0, deducao: 0 },
+  { limite: 2826.65, aliquota: 0.075, deducao: 182.16 },
+  { limite: 3751.05, aliquota: 0.15, deducao: 394.16 },
+  { limite: 4664.68, aliquota: 0.225, deducao: 675.49 },
+  { limite: null, aliquota: 0.275, deducao: 908.73 },
+];
+
+const VALOR_DEPENDENTE_IRRF = 189.59;
+
+// Ordenadas por vigencia; toda virada de INSS ou de IRRF abre uma versao nova.
+export const TABELAS_FISCAIS: TabelaFiscal[] = [
+  {
+    id: '2023-01',
+    vigenciaInicio: '2023-01',
+    descricao: 'INSS 2023 (SM R$ 1.302) / IRRF tabela 2015',
+    inss: INSS_2023_JAN,
+    irrf: IRRF_2015,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+  },
+  {
+    id: '2023-05',
+    vigenciaInicio: '2023-05',
+    descricao: 'INSS 2023 (SM R$ 1.320) / IRRF MP 1.171/2023',
+    inss: INSS_2023_MAI,
+    irrf: IRRF_2023_MAI,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+    descontoSimplificado: 528.00,
+  },
+  {
+    id: '2024-01',
+    vigenciaInicio: '2024-01',
+    descricao: 'INSS 2024 / IRRF MP 1.171/2023',
+    inss: INSS_2024,
+    irrf: IRRF_2023_MAI,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+    descontoSimplificado: 528.00,
+  },
+  {
+    id: '2024-02',
+    vigenciaInicio: '2024-02',
+    descricao: 'INSS 2024 / IRRF Lei 14.848/2024',
+    inss: INSS_2024,
+    irrf: IRRF_2024_FEV,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+    descontoSimplificado: 564.80,
+  },
+  {
+    id: '2025-01',
+    vigenciaInicio: '2025-01',
+    descricao: 'INSS 2025 / IRRF Lei 14.848/2024',
+    inss: INSS_2025,
+    irrf: IRRF_2024_FEV,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+    descontoSimplificado: 564.80,
+  },
+  {
+    id: '2025-05',
+    vigenciaInicio: '2025-05',
+    descricao: 'INSS 2025 / IRRF MP 1.294/2025',
+    inss: INSS_2025,
+    irrf: IRRF_2025_MAI,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+    descontoSimplificado: 607.20,
+  },
+  {
+    id: '2026-01',
+    vigenciaInicio: '2026-01',
+    descricao: 'INSS 2026 / IRRF com redutor da Lei 15.270/2025',
+    inss: INSS_2026,
+    irrf: IRRF_2025_MAI,
+    valorDependente: VALOR_DEPENDENTE_IRRF,
+    descontoSimplificado: 607.20,
+    redutorIRRF: { isencaoAte: 5000, limite: 7350, constante: 978.62, fator: 0.133145 },
+  },
+];
+
+// Competencias anteriores a primeira versao usam a mais antiga que o sistema conhece.
+export function resolveTabelaFiscal(mes: number, ano: number): TabelaFiscal {
+  const competencia = `${ano}-${String(mes).padStart(2, '0')}`;
+  let selected = TABELAS_FISCAIS[0];
+  for (const tabela of TABELAS_FISCAIS) {
+    if (tabela.vigenciaInicio <= competencia) selected = tabela;
+  }
+  return selected;
+}
+
+export function calcularINSSProgressivo(totalProventos: number, tabela: TabelaFiscal): { inss: number; baseINSS: number } {
+  const tetoINSS = tabela.inss[tabela.inss.length - 1].limite;
+  const baseINSS = Math.min(Math.max(0, totalProventos), tetoINSS);
+  let inss = 0;
+  let restanteINSS = baseINSS;
+  let limiteAnterior = 0;
+  for (const faixa of tabela.inss) {
+    if (restanteINSS <= 0) break;
+    const amplitude = faixa.limite - limiteAnterior;
+    const baseFaixa = Math.min(restanteINSS, amplitude);
+    inss += baseFaixa * faixa.aliquota;
+    restanteINSS -= baseFaixa;
+    limiteAnterior = faixa.limite;
+  }
+  return { inss, baseINSS };
+}
+
+export function calcularIRRFTabela(baseIR: number, tabela: TabelaFiscal): number {
+  const faixa = tabela.irrf.find((item) => item.limite == null || baseIR <= item.limite) || tabela.irrf[tabela.irrf.length - 1];
+  return Math.max(0, baseIR * faixa.aliquota - faixa.deducao);
+}
+
+// Sem redutor na versao, o IR da tabela fica inteiro.
+export function calcularRedutorIRRF(rendaMensal: number, irBaseTradicional: number, tabela: TabelaFiscal): number {
+  const redutor = tabela.redutorIRRF;
+  if (!redutor) return 0;
+  if (rendaMensal <= redutor.isencaoAte) return irBaseTradicional;
+  if (rendaMensal <= redutor.limite) return Math.max(0, redutor.constante - redutor.fator * rendaMensal);
+  return 0;
+}
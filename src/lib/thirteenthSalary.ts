@@ -0,0 +1,252 @@
+import { addMonths, format, getDaysInMonth, isValid, parseISO } from 'date-fns';
+import {
+  applyPunchRounding,
+  buildNightWindow,
+  normalizeOvernightEntries,
+  resolveEffectiveCalculationConfig,
+  summarizeNightWorkedMinutes,
+  sumEntryWorkedMinutes,
+  type OvertimeCalculationResult,
+  type Settings,
+  type TimeEntry,
+} from './calculations';
+import { resolveEntryDayStatus } from './dayStatus';
+import { buildEffectiveRubrics, getDiasBaseDsrMensal, type PayrollLine } from './payroll';
+import {
+  calcularINSSProgressivo,
+  calcularIRRFTabela,
+  calcularRedutorIRRF,
+  resolveTabelaFiscal,
+  type TabelaFiscalAplicada,
+} from './taxTables';
+
+// ---------------------------------------------------------
+//  13o SALARIO (Lei 4.090/1962 e Lei 4.749/1965)
+// ---------------------------------------------------------
+// Competencia lancada que alimenta as medias de verbas variaveis (13o, ferias).
+export interface CompetenciaMedias {
+  competencia: string;
+  result: OvertimeCalculationResult | null;
+  normalEntries?: TimeEntry[];
+  // Dias trabalhados no mes civil de mesmo numero (ver contarDiasTrabalhadosPorMes); sem valor, conta como mes inteiro.
+  diasTrabalhados?: number;
+}
+
+export interface DecimoTerceiroParams {
+  ano: number;
+  salarioBase: number;
+  horasMensais: number;
+  competencias: CompetenciaMedias[];
+  settings: Settings;
+  dependentes?: number;
+}
+
+export interface DecimoTerceiroMedias {
+  horasExtrasHoras: number;
+  horasExtras: number;
+  adicionalNoturnoHoras: number;
+  adicionalNoturno: number;
+  dsr: number;
+}
+
+// Medias mensais sem arredondamento nem proporcao; cada verba aplica os avos ou os dias que lhe cabem.
+export interface MediasVariaveis {
+  horasExtrasHoras: number;
+  horasExtras: number;
+  adicionalNoturnoHoras: number;
+  adicionalNoturno: number;
+  dsr: number;
+}
+
+export interface DecimoTerceiroParcela {
+  lines: PayrollLine[];
+  totalProventos: number;
+  totalDescontos: number;
+  liquido: number;
+}
+
+export interface DecimoTerceiroResultado {
+  ano: number;
+  avos: number;
+  mesesConsiderados: string[];
+  medias: DecimoTerceiroMedias;
+  totalBruto: number;
+  primeiraParcela: DecimoTerceiroParcela;
+  segundaParcela: DecimoTerceiroParcela & {
+    inss: number;
+    irrf: number;
+    baseIR: number;
+    tabelaFiscal: TabelaFiscalAplicada;
+  };
+}
+
+// Fracao de 15 dias ou mais conta como mes inteiro (art. 1 §2 da Lei 4.090).
+const DIAS_MINIMOS_AVO = 15;
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function buildParcela(lines: PayrollLine[]): DecimoTerceiroParcela {
+  const filtered = lines.filter((line) => Math.abs(line.amount) > 0);
+  const totalProventos = filtered.filter((line) => line.amount > 0).reduce((sum, line) => sum + line.amount, 0);
+  const totalDescontos = filtered.filter((line) => line.amount < 0).reduce((sum, line) => sum + Math.abs(line.amount), 0);
+  return {
+    lines: filtered,
+    totalProventos: round2(totalProventos),
+    totalDescontos: round2(totalDescontos),
+    liquido: round2(totalProventos - totalDescontos),
+  };
+}
+
+// As medias usam a quantidade de horas de cada mes valorizada pelo salario atual (media fisica), nao o valor pago
+// na epoca; interjornada e intrajornada sao indenizatorias e ficam fora.
+export function calcularMediasVariaveis(
+  competencias: CompetenciaMedias[],
+  { salarioBase, horasMensais, settings }: { salarioBase: number; horasMensais: number; settings: Settings }
+): MediasVariaveis {
+  const effectiveConfig = resolveEffectiveCalculationConfig(settings);
+  const customHolidays = settings.companySettings?.config?.customHolidays || [];
+  const punchRounding = settings.companySettings?.config?.punchRounding;
+  const nightWindow = buildNightWindow(effectiveConfig);
+  const valorHora = salarioBase / (horasMensais || 1);
+
+  const soma: MediasVariaveis = { horasExtrasHoras: 0, horasExtras: 0, adicionalNoturnoHoras: 0, adicionalNoturno: 0, dsr: 0 };
+  competencias.forEach((item) => {
+    const [competenciaAno, competenciaMes] = item.competencia.split('-').map(Number);
+    const buckets = (item.result?.overtimeBuckets || [])
+      .filter((bucket) => bucket.rubricKey !== 'INTERJORNADA' && bucket.rubricKey !== 'INTRAJORNADA');
+    const horasExtrasHoras = buckets.reduce((sum, bucket) => sum + bucket.minutes / 60, 0);
+    const horasExtras = buckets.reduce((sum, bucket) => sum + (bucket.minutes / 60) * valorHora * bucket.multiplier, 0);
+
+    const normals = normalizeOvernightEntries((item.normalEntries || []).filter((entry) => !entry.isOvertimeCard))
+      .map((entry) => applyPunchRounding(entry, punchRounding));
+    const adicionalNoturnoHoras = summarizeNightWorkedMinutes(normals, nightWindow).financialMinutes / 60;
+    const adicionalNoturno = adicionalNoturnoHoras * valorHora * (effectiveConfig.percentNight / 100);
+
+    const { diasBase, descansos } = getDiasBaseDsrMensal(competenciaMes, competenciaAno, customHolidays);
+    const dsr = diasBase > 0 ? ((horasExtras + adicionalNoturno) / diasBase) * descansos : 0;
+
+    soma.horasExtrasHoras += horasExtrasHoras;
+    soma.horasExtras += horasExtras;
+    soma.adicionalNoturnoHoras += adicionalNoturnoHoras;
+    soma.adicionalNoturno += adicionalNoturno;
+    soma.dsr += dsr;
+  });
+
+  const divisor = competencias.length || 1;
+  return {
+    horasExtrasHoras: soma.horasExtrasHoras / divisor,
+    horasExtras: soma.horasExtras / divisor,
+    adicionalNoturnoHoras: soma.adicionalNoturnoHoras / divisor,
+    adicionalNoturno: soma.adicionalNoturno / divisor,
+    dsr: soma.dsr / divisor,
+  };
+}
+
+// Dias de servico em cada mes civil (yyyy-MM), lidos dos cartoes: do primeiro ao ultimo dia com marcacao ou situacao
+// lancada, estendidos ate a virada do mes quando ha cartao no mes vizinho, menos as faltas e suspensoes. Cobre a
+// admissao no meio do mes e o mes ainda em curso; repousos sem anotacao entre dois dias lancados contam.
+export function contarDiasTrabalhadosPorMes(entries: TimeEntry[], settings: Settings): Record<string, number> {
+  const lancadosPorMes = new Map<string, Set<number>>();
+  const ausenciasPorMes = new Map<string, Set<number>>();
+  entries.forEach((entry) => {
+    const date = parseISO(entry.date);
+    if (!isValid(date)) return;
+    const status = resolveEntryDayStatus(entry, settings);
+    const ausente = status === 'falta' || status === 'suspensao';
+    if (!ausente && status === 'normal' && sumEntryWorkedMinutes(entry) <= 0) return;
+    const mes = entry.date.slice(0, 7);
+    const alvo = ausente ? ausenciasPorMes : lancadosPorMes;
+    if (!alvo.has(mes)) alvo.set(mes, new Set());
+    alvo.get(mes)!.add(date.getDate());
+  });
+
+  const dias: Record<string, number> = {};
+  lancadosPorMes.forEach((lancados, mes) => {
+    const inicioMes = parseISO(`${mes}-01`);
+    const anterior = format(addMonths(inicioMes, -1), 'yyyy-MM');
+    const seguinte = format(addMonths(inicioMes, 1), 'yyyy-MM');
+    const primeiro = lancadosPorMes.has(anterior) ? 1 : Math.min(...lancados);
+    const ultimo = lancadosPorMes.has(seguinte) ? getDaysInMonth(inicioMes) : Math.max(...lancados);
+    const ausencias = [...(ausenciasPorMes.get(mes) || [])]
+      .filter((dia) => dia >= primeiro && dia <= ultimo && !lancados.has(dia)).length;
+    dias[mes] = Math.max(0, ultimo - primeiro + 1 - ausencias);
+  });
+  return dias;
+}
+
+export function calcularDecimoTerceiro({
+  ano,
+  salarioBase,
+  horasMensais,
+  competencias,
+  settings,
+  dependentes = 0,
+}: DecimoTerceiroParams): DecimoTerceiroResultado {
+  const rubrics = buildEffectiveRubrics(settings.companySettings?.rubrics);
+
+  const meses = competencias
+    .filter((item) => {
+      const date = parseISO(`${item.competencia}-01`);
+      return isValid(date) && date.getFullYear() === ano;
+    })
+    .filter((item) => (item.diasTrabalhados ?? 30) >= DIAS_MINIMOS_AVO)
+    .sort((a, b) => a.competencia.localeCompare(b.competencia));
+  const avos = Math.min(12, meses.length);
+  const mediasMensais = calcularMediasVariaveis(meses, { salarioBase, horasMensais, settings });
+
+  const proporcao = avos / 12;
+  const medias: DecimoTerceiroMedias = {
+    horasExtrasHoras: round2(mediasMensais.horasExtrasHoras),
+    horasExtras: round2(mediasMensais.horasExtras * proporcao),
+    adicionalNoturnoHoras: round2(mediasMensais.adicionalNoturnoHoras),
+    adicionalNoturno: round2(mediasMensais.adicionalNoturno * proporcao),
+    dsr: round2(mediasMensais.dsr * proporcao),
+  };
+  const salarioProporcional = round2(salarioBase * proporcao);
+  const totalBruto = round2(salarioProporcional + medias.horasExtras + medias.adicionalNoturno + medias.dsr);
+
+  const proventos = (fator: number): PayrollLine[] => [
+    { code: rubrics.DECIMO_TERCEIRO.code, description: rubrics.DECIMO_TERCEIRO.label, reference: `${avos}/12`, amount: round2(salarioProporcional * fator) },
+    { code: rubrics.MEDIA_HE_13.code, description: rubrics.MEDIA_HE_13.label, reference: medias.horasExtrasHoras, amount: round2(medias.horasExtras * fator) },
+    { code: rubrics.MEDIA_ADIC_NOT_13.code, description: rubrics.MEDIA_ADIC_NOT_13.label, reference: medias.adicionalNoturnoHoras, amount: round2(medias.adicionalNoturno * fator) },
+    { code: rubrics.MEDIA_DSR_13.code, description: rubrics.MEDIA_DSR_13.label, reference: null, amount: round2(medias.dsr * fator) },
+  ];
+
+  // 1a parcela (ate 30/11): metade do 13o, sem INSS nem IRRF.
+  const primeiraParcela = buildParcela(proventos(0.5));
+
+  // 2a parcela (ate 20/12): INSS sobre o 13o integral e IRRF em tributacao exclusiva, pela tabela de dezembro.
+  const tabelaFiscal = resolveTabelaFiscal(12, ano);
+  const { inss } = calcularINSSProgressivo(totalBruto, tabelaFiscal);
+  const baseIR = Math.max(0, totalBruto - inss - dependentes * tabelaFiscal.valorDependente);
+  const irTabela = calcularIRRFTabela(baseIR, tabelaFiscal);
+  const irrf = Math.max(0, irTabela - calcularRedutorIRRF(totalBruto, irTabela, tabelaFiscal));
+  const segundaParcela = buildParcela([
+    ...proventos(1),
+    { code: rubrics.ADIANTAMENTO_13.code, description: rubrics.ADIANTAMENTO_13.label, reference: null, amount: -primeiraParcela.liquido },
+    { code: rubrics.INSS_13.code, description: rubrics.INSS_13.label, reference: null, amount: -round2(inss) },
+    { code: rubrics.IRRF_13.code, description: rubrics.IRRF_13.label, reference: null, amount: -round2(irrf) },
+  ]);
+
+  return {
+    ano,
+    avos,
+    mesesConsiderados: meses.map((item) => item.competencia),
+    medias,
+    totalBruto,
+    primeiraParcela,
+    segundaParcela: {
+      ...segundaParcela,
+      inss: round2(inss),
+      irrf: round2(irrf),
+      baseIR: round2(baseIR),
+      tabelaFiscal: {
+        id: tabelaFiscal.id,
+        vigenciaInicio: tabelaFiscal.vigenciaInicio,
+        descricao: tabelaFiscal.descricao,
+      },
+    },
+  };
+}
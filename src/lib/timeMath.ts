@@ -14,9 +14,23 @@ export interface DatedPunchEntryLike extends PunchEntryLike {
 
 export interface DelayComputationOptions {
   workStart?: string;
+  workEnd?: string;
   saturdayWorkStart?: string;
+  saturdayWorkEnd?: string;
   saturdayCompensation?: boolean;
+  compDaysRaw?: string;
   toleranceMinutes?: number;
+  // Limite diario da tolerancia; sem valor, vale o dobro da tolerancia por marcacao.
+  dailyToleranceMinutes?: number;
+  // Entrada e saida previstas pela escala do dia; quando informadas substituem o horario fixo.
+  expectedStart?: string;
+  expectedEnd?: string;
+}
+
+// Art. 58 §1 da CLT: variacoes de ate 5 min por marcacao, limitadas a 10 min no dia, nao contam.
+export interface MarkingToleranceOptions {
+  perMarkingMinutes: number;
+  dailyMinutes: number;
 }
 
 export interface DailyShortfallOptions {
@@ -25,12 +39,62 @@ export interface DailyShortfallOptions {
   dayOfWeek: number;
   saturdayCompensation?: boolean;
   compDaysRaw?: string;
+  // Jornada prevista pela escala do dia; quando informada substitui a jornada fixa.
+  journeyMinutes?: number;
+  tolerance?: MarkingToleranceOptions;
+  expectedStartMinutes?: number;
+  expectedEndMinutes?: number;
+}
+
+// Arredondamento das marcacoes antes do calculo: ao intervalo mais proximo ou entrada para cima e saida para baixo.
+export type PunchRoundingMode = 'off' | 'nearest' | 'entryUpExitDown';
+
+export interface PunchRoundingPolicy {
+  mode: PunchRoundingMode;
+  intervalMinutes: number;
 }
 
 const CLOCK_RX = /^\d{1,2}:\d{2}$/;
 export const NIGHT_START_MINUTES = 22 * 60;
 export const NIGHT_END_MINUTES = 5 * 60;
 export const NIGHT_REDUCED_FACTOR = 60 / 52.5;
+export const DEFAULT_MARKING_TOLERANCE: MarkingToleranceOptions = { perMarkingMinutes: 5, dailyMinutes: 10 };
+
+// Prorrogacao do trabalho noturno apos o fim da janela (Sumula 60, II do TST):
+// 'fullWindow' exige jornada iniciada ate o inicio da janela; 'partialWindow' aceita jornada iniciada dentro dela.
+export type NightExtensionMode = 'off' | 'fullWindow' | 'partialWindow';
+
+// Janela noturna do contrato: urbano 22h-5h com hora de 52m30s; rural 21h-5h (lavoura) ou 20h-4h (pecuaria) sem reducao.
+export interface NightWindow {
+  startMinutes: number;
+  endMinutes: number;
+  reducedFactor: number;
+  extensionMode: NightExtensionMode;
+}
+
+export const DEFAULT_NIGHT_WINDOW: NightWindow = {
+  startMinutes: NIGHT_START_MINUTES,
+  endMinutes: NIGHT_END_MINUTES,
+  reducedFactor: NIGHT_REDUCED_FACTOR,
+  extensionMode: 'off',
+};
+
+export function buildNightWindow(config: {
+  nightCutoff?: string;
+  nightEnd?: string;
+  nightHourMinutes?: number;
+  nightExtensionMode?: NightExtensionMode;
+}): NightWindow {
+  const start = normalizeClock(config.nightCutoff);
+  const end = normalizeClock(config.nightEnd);
+  const nightHourMinutes = Number(config.nightHourMinutes);
+  return {
+    startMinutes: start ? timeToMinutes(start) : NIGHT_START_MINUTES,
+    endMinutes: end ? timeToMinutes(end) : NIGHT_END_MINUTES,
+    reducedFactor: nightHourMinutes > 0 ? 60 / nightHourMinutes : NIGHT_REDUCED_FACTOR,
+    extensionMode: config.nightExtensionMode ?? 'off',
+  };
+}
 
 export function normalizeClock(value: unknown): string {
   const str = String(value ?? '').trim();
@@ -59,6 +123,39 @@ export function diffMinutes(start: string, end: string): number {
   return Math.max(0, duration);
 }
 
+const PUNCH_FIELDS: Array<[keyof PunchEntryLike, 'entry' | 'exit']> = [
+  ['entry1', 'entry'],
+  ['exit1', 'exit'],
+  ['entry2', 'entry'],
+  ['exit2', 'exit'],
+  ['entryExtra', 'entry'],
+  ['exitExtra', 'exit'],
+];
+
+export function roundPunchClock(value: unknown, kind: 'entry' | 'exit', policy?: PunchRoundingPolicy | null): string {
+  const clock = normalizeClock(value);
+  const interval = Math.round(Number(policy?.intervalMinutes) || 0);
+  if (!clock || !policy || policy.mode === 'off' || interval <= 1) return clock;
+  const minutes = timeToMinutes(clock);
+  const rounded = policy.mode === 'nearest'
+    ? Math.round(minutes / interval) * interval
+    : kind === 'entry'
+      ? Math.ceil(minutes / interval) * interval
+      : Math.floor(minutes / interval) * interval;
+  return minutesToTime(rounded % (24 * 60));
+}
+
+// Copia da marcacao com os horarios arredondados; o TimeEntry original guarda sempre o relogio bruto.
+export function applyPunchRounding<T extends PunchEntryLike>(entry: T, policy?: PunchRoundingPolicy | null): T {
+  if (!policy || policy.mode === 'off') return entry;
+  const rounded = { ...entry };
+  for (const [field, kind] of PUNCH_FIELDS) {
+    if (!normalizeClock(entry[field])) continue;
+    rounded[field] = roundPunchClock(entry[field], kind, policy) as T[keyof PunchEntryLike];
+  }
+  return rounded;
+}
+
 export function periodsFromEntry(entry: PunchEntryLike): Array<[string, string]> {
   const entry1 = entry.entry1 || '';
   const exit1 = entry.exit1 || '';
@@ -101,6 +198,15 @@ export function sumEntryWorkedMinutes(entry: PunchEntryLike): number {
   return sumPeriodsMinutes(periodsFromEntry(entry));
 }
 
+export function sumEntryBreakMinutes(entry: PunchEntryLike): number {
+  const periods = periodsFromEntry(entry).filter(([start, end]) => !!normalizeClock(start) && !!normalizeClock(end));
+  let total = 0;
+  for (let index = 1; index < periods.length; index++) {
+    total += diffMinutes(periods[index - 1][1], periods[index][0]);
+  }
+  return total;
+}
+
 export function getLastExitMinutes(entry: PunchEntryLike): number {
   const periods = periodsFromEntry(entry).filter(([start, end]) => !!normalizeClock(start) && !!normalizeClock(end));
   if (periods.length === 0) return 0;
@@ -115,6 +221,15 @@ export function parseCompDays(compDaysRaw?: string): number[] {
     .filter((v) => Number.isFinite(v));
 }
 
+export function isCompensatedSaturday(
+  dayOfWeek: number,
+  saturdayCompensation?: boolean,
+  compDaysRaw?: string
+): boolean {
+  if (dayOfWeek !== 6 || !saturdayCompensation) return false;
+  return !parseCompDays(compDaysRaw).includes(dayOfWeek);
+}
+
 export function resolveDailyJourneyMinutes(
   baseDailyJourneyHours: number,
   isOvertimeCardEntry: boolean,
@@ -129,7 +244,7 @@ export function resolveDailyJourneyMinutes(
 
   const compDays = parseCompDays(compDaysRaw);
   if (compDays.includes(dayOfWeek)) return journey + 60;
-  if (dayOfWeek === 6) return 0;
+  if (isCompensatedSaturday(dayOfWeek, saturdayCompensation, compDaysRaw)) return 0;
   return journey;
 }
 
@@ -145,12 +260,16 @@ export function isNightMinute(
   return minuteOfDay >= nightStartMinutes || minuteOfDay < nightEndMinutes;
 }
 
-export function convertNightRealMinutesToFinancial(realMinutes: number): number {
-  return Math.max(0, realMinutes) * NIGHT_REDUCED_FACTOR;
+export function convertNightRealMinutesToFinancial(realMinutes: number, reducedFactor: number = NIGHT_REDUCED_FACTOR): number {
+  return Math.max(0, realMinutes) * reducedFactor;
 }
 
-export function convertWorkedMinutesToFinancial(realMinutes: number, night: boolean): number {
-  return night ? convertNightRealMinutesToFinancial(realMinutes) : Math.max(0, realMinutes);
+export function convertWorkedMinutesToFinancial(
+  realMinutes: number,
+  night: boolean,
+  reducedFactor: number = NIGHT_REDUCED_FACTOR
+): number {
+  return night ? convertNightRealMinutesToFinancial(realMinutes, reducedFactor) : Math.max(0, realMinutes);
 }
 
 export interface WorkedMinuteSlice {
@@ -165,13 +284,32 @@ export interface NightWorkSummary {
   financialMinutes: number;
 }
 
+// Minuto absoluto a partir do qual a jornada segue como noturna por ter atravessado o fim da janela.
+function resolveNightExtensionStart(slices: WorkedMinuteSlice[], nightWindow: NightWindow): number | null {
+  const { startMinutes: nightStartMinutes, endMinutes: nightEndMinutes, extensionMode: mode } = nightWindow;
+  if (mode === 'off' || slices.length === 0 || nightStartMinutes === nightEndMinutes) return null;
+  const worked = new Set(slices.map((slice) => slice.absoluteMinute));
+  const firstMinute = slices[0].absoluteMinute;
+  const lastMinute = slices[slices.length - 1].absoluteMinute;
+  const wrapsMidnight = nightStartMinutes > nightEndMinutes;
+
+  for (let day = -1; day * 24 * 60 <= lastMinute; day++) {
+    const windowStart = day * 24 * 60 + nightStartMinutes;
+    const windowEnd = (wrapsMidnight ? day + 1 : day) * 24 * 60 + nightEndMinutes;
+    if (!worked.has(windowEnd - 1) || !worked.has(windowEnd)) continue;
+    if (mode === 'fullWindow' ? firstMinute <= windowStart : firstMinute < windowEnd) return windowEnd;
+  }
+  return null;
+}
+
 export function getWorkedMinuteSlices(
   entry: PunchEntryLike,
-  nightStartMinutes: number = NIGHT_START_MINUTES,
-  nightEndMinutes: number = NIGHT_END_MINUTES
+  nightWindow: NightWindow = DEFAULT_NIGHT_WINDOW
 ): WorkedMinuteSlice[] {
+  const { startMinutes: nightStartMinutes, endMinutes: nightEndMinutes, reducedFactor } = nightWindow;
   const slices: WorkedMinuteSlice[] = [];
   let dayOffsetMinutes = 0;
+  let lastAbsoluteEnd = 0;
 
   for (const [start, end] of periodsFromEntry(entry)) {
     const normalizedStart = normalizeClock(start);
@@ -183,6 +321,8 @@ export function getWorkedMinuteSlices(
     let duration = endMinutes - startMinutes;
     if (duration < 0) duration += 24 * 60;
     if (duration <= 0) continue;
+    // Intervalo que atravessa a meia-noite (ex.: 22:00-23:30 e 00:30-05:00).
+    if (dayOffsetMinutes + startMinutes < lastAbsoluteEnd) dayOffsetMinutes += 24 * 60;
 
     for (let offset = 0; offset < duration; offset++) {
       const absoluteMinute = dayOffsetMinutes + startMinutes + offset;
@@ -192,28 +332,34 @@ export function getWorkedMinuteSlices(
         minuteOfDay,
         absoluteMinute,
         isNight: night,
-        financialMinutes: convertWorkedMinutesToFinancial(1, night),
+        financialMinutes: convertWorkedMinutesToFinancial(1, night, reducedFactor),
       });
     }
 
+    lastAbsoluteEnd = dayOffsetMinutes + startMinutes + duration;
     if (endMinutes < startMinutes) {
       dayOffsetMinutes += 24 * 60;
     }
   }
 
-  return slices;
+  const extensionStart = resolveNightExtensionStart(slices, nightWindow);
+  if (extensionStart == null) return slices;
+  return slices.map((slice) => (
+    slice.isNight || slice.absoluteMinute < extensionStart
+      ? slice
+      : { ...slice, isNight: true, financialMinutes: convertWorkedMinutesToFinancial(1, true, reducedFactor) }
+  ));
 }
 
 export function summarizeNightWorkedMinutes(
   entries: PunchEntryLike[],
-  nightStartMinutes: number = NIGHT_START_MINUTES,
-  nightEndMinutes: number = NIGHT_END_MINUTES
+  nightWindow: NightWindow = DEFAULT_NIGHT_WINDOW
 ): NightWorkSummary {
   let realMinutes = 0;
   let financialMinutes = 0;
 
   for (const entry of entries || []) {
-    for (const slice of getWorkedMinuteSlices(entry, nightStartMinutes, nightEndMinutes)) {
+    for (const slice of getWorkedMinuteSlices(entry, nightWindow)) {
       if (!slice.isNight) continue;
       realMinutes += 1;
       financialMinutes += slice.financialMinutes;
@@ -258,6 +404,8 @@ export function resolveExpectedStartMinutes(
   dayOfWeek: number,
   options?: DelayComputationOptions
 ): number {
+  const scheduledStart = normalizeClock(options?.expectedStart);
+  if (scheduledStart) return timeToMinutes(scheduledStart);
   const saturdayCompensation = !!options?.saturdayCompensation;
   const start = dayOfWeek === 6 && !saturdayCompensation
     ? normalizeClock(options?.saturdayWorkStart) || normalizeClock(options?.workStart)
@@ -265,30 +413,117 @@ export function resolveExpectedStartMinutes(
   return start ? timeToMinutes(start) : 0;
 }
 
+export function resolveExpectedEndMinutes(
+  dayOfWeek: number,
+  options?: DelayComputationOptions
+): number {
+  const scheduledEnd = normalizeClock(options?.expectedEnd);
+  if (scheduledEnd) return timeToMinutes(scheduledEnd);
+  const saturdayCompensation = !!options?.saturdayCompensation;
+  if (dayOfWeek === 6 && !saturdayCompensation) {
+    const saturdayEnd = normalizeClock(options?.saturdayWorkEnd);
+    return saturdayEnd ? timeToMinutes(saturdayEnd) : 0;
+  }
+  const end = normalizeClock(options?.workEnd);
+  if (!end) return 0;
+  const compensationMinutes = saturdayCompensation && parseCompDays(options?.compDaysRaw).includes(dayOfWeek) ? 60 : 0;
+  return timeToMinutes(end) + compensationMinutes;
+}
+
+// Variacao da primeira entrada e da ultima saida em relacao ao horario previsto (0 = horario desconhecido).
+export function resolveMarkingVariations(
+  entry: PunchEntryLike,
+  expectedStartMinutes: number,
+  expectedEndMinutes: number
+): number[] {
+  const variations: number[] = [];
+  const firstStartMinutes = getFirstEntryMinutes(entry);
+  if (expectedStartMinutes > 0 && firstStartMinutes != null) {
+    variations.push(Math.abs(firstStartMinutes - expectedStartMinutes));
+  }
+  const lastExit = getLastExitInfo(entry);
+  if (expectedEndMinutes > 0 && lastExit) {
+    const expectedEnd = expectedStartMinutes > 0 && expectedEndMinutes <= expectedStartMinutes
+      ? expectedEndMinutes + 24 * 60
+      : expectedEndMinutes;
+    variations.push(Math.abs(lastExit.minuteOfDay + lastExit.dayOffset * 24 * 60 - expectedEnd));
+  }
+  return variations;
+}
+
+// Minutos da variacao absorvidos pela tolerancia: tudo ou nada, pois ao estourar o limite conta a variacao inteira.
+// Sem marcacoes previstas, a propria variacao do dia e tratada como uma unica marcacao.
+export function resolveToleratedMinutes(
+  varianceMinutes: number,
+  markingVariations: number[],
+  tolerance: MarkingToleranceOptions
+): number {
+  if (varianceMinutes <= 0) return 0;
+  const markings = markingVariations.length > 0 ? markingVariations : [varianceMinutes];
+  const totalVariation = markings.reduce((sum, minutes) => sum + minutes, 0);
+  if (markings.some((minutes) => minutes > tolerance.perMarkingMinutes)) return 0;
+  if (totalVariation > tolerance.dailyMinutes || varianceMinutes > tolerance.dailyMinutes) return 0;
+  return varianceMinutes;
+}
+
 export function resolveDelayMinutes(
   entry: PunchEntryLike,
   dayOfWeek: number,
   options?: DelayComputationOptions
 ): number {
-  const toleranceMinutes = Math.max(0, Number(options?.toleranceMinutes ?? 5));
+  const toleranceMinutes = Math.max(0, Number(options?.toleranceMinutes ?? DEFAULT_MARKING_TOLERANCE.perMarkingMinutes));
+  const dailyToleranceMinutes = Math.max(0, Number(options?.dailyToleranceMinutes ?? toleranceMinutes * 2));
   const expectedStartMinutes = resolveExpectedStartMinutes(dayOfWeek, options);
   if (expectedStartMinutes <= 0) return 0;
 
-  const firstStart = periodsFromEntry(entry)
-    .map(([start]) => normalizeClock(start))
-    .find(Boolean);
-  if (!firstStart) return 0;
+  const firstStartMinutes = getFirstEntryMinutes(entry);
+  if (firstStartMinutes == null) return 0;
 
-  const firstStartMinutes = timeToMinutes(firstStart);
-  if (firstStartMinutes <= expectedStartMinutes + toleranceMinutes) return 0;
-  return Math.max(0, firstStartMinutes - expectedStartMinutes);
+  const delayMinutes = firstStartMinutes - expectedStartMinutes;
+  if (delayMinutes <= 0) return 0;
+  const markingVariations = resolveMarkingVariations(
+    entry,
+    expectedStartMinutes,
+    resolveExpectedEndMinutes(dayOfWeek, options)
+  );
+  return delayMinutes - resolveToleratedMinutes(delayMinutes, markingVariations, {
+    perMarkingMinutes: toleranceMinutes,
+    dailyMinutes: dailyToleranceMinutes,
+  });
+}
+
+// Saida antes do horario previsto; espelha o atraso na entrada, inclusive na tolerancia por marcacao e diaria.
+export function resolveEarlyLeaveMinutes(
+  entry: PunchEntryLike,
+  dayOfWeek: number,
+  options?: DelayComputationOptions
+): number {
+  const toleranceMinutes = Math.max(0, Number(options?.toleranceMinutes ?? DEFAULT_MARKING_TOLERANCE.perMarkingMinutes));
+  const dailyToleranceMinutes = Math.max(0, Number(options?.dailyToleranceMinutes ?? toleranceMinutes * 2));
+  const expectedStartMinutes = resolveExpectedStartMinutes(dayOfWeek, options);
+  const expectedEndMinutes = resolveExpectedEndMinutes(dayOfWeek, options);
+  if (expectedEndMinutes <= 0) return 0;
+
+  const lastExit = getLastExitInfo(entry);
+  if (!lastExit) return 0;
+
+  const expectedEnd = expectedStartMinutes > 0 && expectedEndMinutes <= expectedStartMinutes
+    ? expectedEndMinutes + 24 * 60
+    : expectedEndMinutes;
+  const earlyMinutes = expectedEnd - (lastExit.minuteOfDay + lastExit.dayOffset * 24 * 60);
+  if (earlyMinutes <= 0) return 0;
+  const markingVariations = resolveMarkingVariations(entry, expectedStartMinutes, expectedEndMinutes);
+  return earlyMinutes - resolveToleratedMinutes(earlyMinutes, markingVariations, {
+    perMarkingMinutes: toleranceMinutes,
+    dailyMinutes: dailyToleranceMinutes,
+  });
 }
 
 export function resolveDailyShortfallMinutes(
   entry: PunchEntryLike,
   options: DailyShortfallOptions
 ): number {
-  const journeyMinutes = resolveDailyJourneyMinutes(
+  const journeyMinutes = options.journeyMinutes ?? resolveDailyJourneyMinutes(
     options.dailyJourneyHours,
     options.isOvertimeCardEntry,
     options.dayOfWeek,
@@ -303,7 +538,14 @@ export function resolveDailyShortfallMinutes(
   const workedMinutes = sumEntryWorkedMinutes(entry);
   if (workedMinutes <= 0) return journeyMinutes;
   if (workedMinutes >= journeyMinutes) return 0;
-  return Math.max(0, journeyMinutes - workedMinutes);
+  const shortfallMinutes = journeyMinutes - workedMinutes;
+  if (!options.tolerance) return shortfallMinutes;
+  const markingVariations = resolveMarkingVariations(
+    entry,
+    options.expectedStartMinutes ?? 0,
+    options.expectedEndMinutes ?? 0
+  );
+  return shortfallMinutes - resolveToleratedMinutes(shortfallMinutes, markingVariations, options.tolerance);
 }
 
 export function normalizeOvernightEntries<T extends DatedPunchEntryLike>(entries: T[]): T[] {
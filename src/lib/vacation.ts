@@ -0,0 +1,216 @@
+import { addDays, addYears, format, isValid, parseISO, subDays } from 'date-fns';
+import type { Settings } from './calculations';
+import { normalizeDayStatusText, type DayStatus } from './dayStatus';
+import { buildEffectiveRubrics, type PayrollLine } from './payroll';
+import {
+  calcularINSSProgressivo,
+  calcularIRRFTabela,
+  calcularRedutorIRRF,
+  resolveTabelaFiscal,
+  type TabelaFiscalAplicada,
+} from './taxTables';
+import { calcularMediasVariaveis, type CompetenciaMedias, type DecimoTerceiroMedias } from './thirteenthSalary';
+
+// ---------------------------------------------------------
+//  FERIAS (CLT arts. 129 a 145 e CF art. 7, XVII)
+// ---------------------------------------------------------
+export const DIAS_DIREITO_FERIAS = 30;
+// Abono pecuniario: venda de 1/3 dos dias de direito (art. 143).
+export const DIAS_ABONO_PECUNIARIO = 10;
+// Medias das verbas variaveis sobre as ultimas 12 competencias lancadas antes do gozo.
+export const MESES_MEDIA_FERIAS = 12;
+// Pagamento ate 2 dias antes do inicio do gozo (art. 145).
+const DIAS_ANTECEDENCIA_PAGAMENTO = 2;
+const ANOTACAO_FERIAS = 'FERIAS';
+
+export interface FeriasParams {
+  // Inicio do periodo aquisitivo (AAAA-MM-DD); o periodo dura 12 meses.
+  periodoAquisitivoInicio: string;
+  // Primeiro dia de gozo (AAAA-MM-DD).
+  inicio: string;
+  // Sem valor, goza todos os dias que sobram depois do abono.
+  diasGozo?: number;
+  abonoPecuniario?: boolean;
+  salarioBase: number;
+  horasMensais: number;
+  competencias: CompetenciaMedias[];
+  settings: Settings;
+  dependentes?: number;
+}
+
+export interface FeriasResultado {
+  periodoAquisitivo: { inicio: string; fim: string };
+  periodoConcessivoFim: string;
+  gozo: { inicio: string; fim: string; dias: number };
+  diasAbono: number;
+  dataPagamento: string;
+  mesesConsiderados: string[];
+  medias: DecimoTerceiroMedias;
+  remuneracaoMensal: number;
+  lines: PayrollLine[];
+  totalProventos: number;
+  totalDescontos: number;
+  liquido: number;
+  baseINSS: number;
+  inss: number;
+  baseIR: number;
+  deducaoIRAplicada: 'legal' | 'simplificado';
+  irrf: number;
+  tabelaFiscal: TabelaFiscalAplicada;
+  avisos: string[];
+}
+
+function round2(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function formatIsoDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Ferias + 1/3 sao tributadas em separado do salario do mes, com a tabela do mes de inicio do gozo; o abono
+// pecuniario e seu 1/3 sao indenizatorios e ficam fora do INSS e do IRRF.
+export function calcularFerias({
+  periodoAquisitivoInicio,
+  inicio,
+  diasGozo,
+  abonoPecuniario = false,
+  salarioBase,
+  horasMensais,
+  competencias,
+  settings,
+  dependentes = 0,
+}: FeriasParams): FeriasResultado {
+  const aquisitivoInicio = parseISO(periodoAquisitivoInicio);
+  const gozoInicio = parseISO(inicio);
+  if (!isValid(aquisitivoInicio) || !isValid(gozoInicio)) {
+    throw new Error('Datas de ferias invalidas.');
+  }
+  const rubrics = buildEffectiveRubrics(settings.companySettings?.rubrics);
+
+  const aquisitivoFim = subDays(addYears(aquisitivoInicio, 1), 1);
+  const concessivoFim = addYears(aquisitivoFim, 1);
+  const diasAbono = abonoPecuniario ? DIAS_ABONO_PECUNIARIO : 0;
+  const diasDisponiveis = DIAS_DIREITO_FERIAS - diasAbono;
+  const dias = Math.min(diasDisponiveis, Math.max(1, Math.round(diasGozo ?? diasDisponiveis)));
+  const gozoFim = addDays(gozoInicio, dias - 1);
+
+  const avisos: string[] = [];
+  if (gozoInicio <= aquisitivoFim) {
+    avisos.push('O gozo comeca antes do fim do periodo aquisitivo.');
+  }
+  if (gozoFim > concessivoFim) {
+    avisos.push('O gozo termina depois do periodo concessivo: a CLT manda pagar em dobro (art. 137).');
+  }
+
+  const competenciaInicio = format(gozoInicio, 'yyyy-MM');
+  const meses = competencias
+    .filter((item) => isValid(parseISO(`${item.competencia}-01`)) && item.competencia < competenciaInicio)
+    .sort((a, b) => b.competencia.localeCompare(a.competencia))
+    .slice(0, MESES_MEDIA_FERIAS)
+    .reverse();
+  const mediasMensais = calcularMediasVariaveis(meses, { salarioBase, horasMensais, settings });
+  const medias: DecimoTerceiroMedias = {
+    horasExtrasHoras: round2(mediasMensais.horasExtrasHoras),
+    horasExtras: round2(mediasMensais.horasExtras),
+    adicionalNoturnoHoras: round2(mediasMensais.adicionalNoturnoHoras),
+    adicionalNoturno: round2(mediasMensais.adicionalNoturno),
+    dsr: round2(mediasMensais.dsr),
+  };
+  const remuneracaoMensal = round2(salarioBase + medias.horasExtras + medias.adicionalNoturno + medias.dsr);
+
+  const proporcaoGozo = dias / 30;
+  const ferias = round2(salarioBase * proporcaoGozo);
+  const mediaHorasExtras = round2(medias.horasExtras * proporcaoGozo);
+  const mediaAdicionalNoturno = round2(medias.adicionalNoturno * proporcaoGozo);
+  const mediaDsr = round2(medias.dsr * proporcaoGozo);
+  const feriasBrutas = ferias + mediaHorasExtras + mediaAdicionalNoturno + mediaDsr;
+  const tercoFerias = round2(feriasBrutas / 3);
+  const abono = round2((remuneracaoMensal / 30) * diasAbono);
+  const tercoAbono = round2(abono / 3);
+
+  const tabelaFiscal = resolveTabelaFiscal(gozoInicio.getMonth() + 1, gozoInicio.getFullYear());
+  const tributavel = feriasBrutas + tercoFerias;
+  const { inss, baseINSS } = calcularINSSProgressivo(tributavel, tabelaFiscal);
+
+  // Mesma comparacao do holerite: desconto simplificado no lugar de INSS + dependentes quando for mais vantajoso.
+  const baseIRDeducoesLegais = Math.max(0, tributavel - inss - dependentes * tabelaFiscal.valorDependente);
+  const irDeducoesLegais = calcularIRRFTabela(baseIRDeducoesLegais, tabelaFiscal);
+  const baseIRDescontoSimplificado = tabelaFiscal.descontoSimplificado != null
+    ? Math.max(0, tributavel - tabelaFiscal.descontoSimplificado)
+    : null;
+  const irDescontoSimplificado = baseIRDescontoSimplificado != null
+    ? calcularIRRFTabela(baseIRDescontoSimplificado, tabelaFiscal)
+    : null;
+  const deducaoIRAplicada: 'legal' | 'simplificado' = irDescontoSimplificado != null && irDescontoSimplificado < irDeducoesLegais
+    ? 'simplificado'
+    : 'legal';
+  const baseIR = deducaoIRAplicada === 'simplificado' ? (baseIRDescontoSimplificado as number) : baseIRDeducoesLegais;
+  const irTabela = deducaoIRAplicada === 'simplificado' ? (irDescontoSimplificado as number) : irDeducoesLegais;
+  const irrf = Math.max(0, irTabela - calcularRedutorIRRF(tributavel, irTabela, tabelaFiscal));
+
+  const lines = [
+    { code: rubrics.FERIAS.code, description: rubrics.FERIAS.label, reference: `${dias} dias`, amount: ferias },
+    { code: rubrics.MEDIA_HE_FERIAS.code, description: rubrics.MEDIA_HE_FERIAS.label, reference: medias.horasExtrasHoras, amount: mediaHorasExtras },
+    { code: rubrics.MEDIA_ADIC_NOT_FERIAS.code, description: rubrics.MEDIA_ADIC_NOT_FERIAS.label, reference: medias.adicionalNoturnoHoras, amount: mediaAdicionalNoturno },
+    { code: rubrics.MEDIA_DSR_FERIAS.code, description: rubrics.MEDIA_DSR_FERIAS.label, reference: null, amount: mediaDsr },
+    { code: rubrics.TERCO_FERIAS.code, description: rubrics.TERCO_FERIAS.label, reference: null, amount: tercoFerias },
+    { code: rubrics.ABONO_PECUNIARIO.code, description: rubrics.ABONO_PECUNIARIO.label, reference: `${diasAbono} dias`, amount: abono },
+    { code: rubrics.TERCO_ABONO.code, description: rubrics.TERCO_ABONO.label, reference: null, amount: tercoAbono },
+    { code: rubrics.INSS_FERIAS.code, description: rubrics.INSS_FERIAS.label, reference: null, amount: -round2(inss) },
+    { code: rubrics.IRRF_FERIAS.code, description: rubrics.IRRF_FERIAS.label, reference: null, amount: -round2(irrf) },
+  ].filter((line) => Math.abs(line.amount) > 0);
+  const totalProventos = lines.filter((line) => line.amount > 0).reduce((sum, line) => sum + line.amount, 0);
+  const totalDescontos = lines.filter((line) => line.amount < 0).reduce((sum, line) => sum + Math.abs(line.amount), 0);
+
+  return {
+    periodoAquisitivo: { inicio: formatIsoDate(aquisitivoInicio), fim: formatIsoDate(aquisitivoFim) },
+    periodoConcessivoFim: formatIsoDate(concessivoFim),
+    gozo: { inicio: formatIsoDate(gozoInicio), fim: formatIsoDate(gozoFim), dias },
+    diasAbono,
+    dataPagamento: formatIsoDate(subDays(gozoInicio, DIAS_ANTECEDENCIA_PAGAMENTO)),
+    mesesConsiderados: meses.map((item) => item.competencia),
+    medias,
+    remuneracaoMensal,
+    lines,
+    totalProventos: round2(totalProventos),
+    totalDescontos: round2(totalDescontos),
+    liquido: round2(totalProventos - totalDescontos),
+    baseINSS: round2(baseINSS),
+    inss: round2(inss),
+    baseIR: round2(baseIR),
+    deducaoIRAplicada,
+    irrf: round2(irrf),
+    tabelaFiscal: {
+      id: tabelaFiscal.id,
+      vigenciaInicio: tabelaFiscal.vigenciaInicio,
+      descricao: tabelaFiscal.descricao,
+    },
+    avisos,
+  };
+}
+
+// Marca os dias de gozo nas linhas do cartao com a situacao 'ferias' (DAY_STATUS_EFFECTS.ferias: o motor para de
+// cobrar jornada) e a anotacao "FERIAS", que aparece no espelho do cartao.
+export function marcarDiasFerias<T extends { date?: string; isDPAnnotation?: boolean; annotationText?: string; dayStatus?: DayStatus }>(
+  rows: T[],
+  inicio: string,
+  fim: string
+): { rows: T[]; marcados: number } {
+  let marcados = 0;
+  const next = rows.map((row) => {
+    const date = String(row.date || '');
+    if (!date || date < inicio || date > fim) return row;
+    marcados += 1;
+    const annotationText = String(row.annotationText || '').trim();
+    return {
+      ...row,
+      dayStatus: 'ferias' as DayStatus,
+      isDPAnnotation: true,
+      annotationText: normalizeDayStatusText(annotationText).includes(ANOTACAO_FERIAS)
+        ? annotationText
+        : `${ANOTACAO_FERIAS} ${annotationText}`.trim(),
+    };
+  });
+  return { rows: next, marcados };
+}
@@ -1,6 +1,8 @@
 ﻿import {GoogleGenAI, Type} from "@google/genai";
 import LlamaCloud from "@llamaindex/llama-cloud";
 import type {Settings} from "../lib/calculations";
+import type {DayStatus} from "../lib/dayStatus";
+import type {OnCallPeriod} from "../lib/onCall";
 
 export interface TimeEntry {
     id: string;
@@ -16,6 +18,8 @@ export interface TimeEntry {
     totalHours: string;
     isDPAnnotation?: boolean;
     annotationText?: string;
+    dayStatus?: DayStatus;
+    onCall?: OnCallPeriod[];
     employeeName?: string;
     employeeCode?: string;
     role?: string;
@@ -23,6 +27,7 @@ export interface TimeEntry {
     companyName?: string;
     companyCnpj?: string;
     isOvertimeCard?: boolean;
+    overtimeAuthorized?: boolean;
     cardNumber?: string;
     month?: string;
     year?: number;
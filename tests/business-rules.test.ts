@@ -2,17 +2,40 @@ import test from 'node:test';
 import assert from 'node:assert/strict';
 
 import {
+  analyzeDailyOvertimePreview,
+  applyPunchRounding,
+  buildNightWindow,
   buildSuggestedCompanyRubrics,
   calculateOvertime,
   convertNightRealMinutesToFinancial,
+  detectIntrajornadaViolations,
   resolveDelayMinutes,
   resolveDailyJourneyMinutes,
   resolveDailyOvertimeDiscountMinutes,
+  roundPunchClock,
+  summarizeNightWorkedMinutes,
+  type CompanyCalculationConfig,
+  type CompanyShiftSchedule,
   type Settings,
   type TimeEntry,
 } from '../src/lib/calculations.ts';
 import { buildProjectedCardFromHolerith } from '../src/lib/holerithProjection.ts';
-import { calcularHoleriteCompleto, getDiasBaseDsrMensal, getDiasUteisEDomingos } from '../src/lib/payroll.ts';
+import { resolveEntryDayStatus } from '../src/lib/dayStatus.ts';
+import { buildFgtsProjection } from '../src/lib/fgts.ts';
+import { buildHourBankLedger, buildHourBankMovements } from '../src/lib/hourBank.ts';
+import { summarizeEntryOnCallMinutes } from '../src/lib/onCall.ts';
+import { calcularDecimoTerceiro, contarDiasTrabalhadosPorMes } from '../src/lib/thirteenthSalary.ts';
+import { calcularFerias, marcarDiasFerias } from '../src/lib/vacation.ts';
+import { resolveScheduledDelayMinutes, resolveShiftScheduleDay } from '../src/lib/shiftSchedule.ts';
+import {
+  calcularHoleriteCompleto,
+  calcularHoleriteDaCompetencia,
+  calcularMinutosAtraso,
+  detalharMinutosAtraso,
+  detectarFaltasInjustificadas,
+  getDiasBaseDsrMensal,
+  getDiasUteisEDomingos,
+} from '../src/lib/payroll.ts';
 
 function createSettings(overrides: Partial<Settings> = {}): Settings {
   return {
@@ -123,6 +146,87 @@ test('atraso aplica tolerancia de 5 minutos e conta o excedente real da entrada'
   }), 9);
 });
 
+test('tolerancia do art. 58 vale por marcacao e por dia para atraso, falta de jornada e HE', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const jornada = (id: string, start: string, end: string) => {
+    const entry = createEntry({ id, date: '2026-03-02', start, end: '17:00' });
+    entry.entry2 = '18:00';
+    entry.exit2 = end;
+    return entry;
+  };
+
+  assert.equal(calcularMinutosAtraso([jornada('dentro', '12:04', '20:57')], settings), 0);
+  assert.equal(calcularMinutosAtraso([jornada('limite-diario', '12:05', '20:55')], settings), 0);
+  assert.equal(calcularMinutosAtraso([jornada('saida-estourada', '12:04', '20:54')], settings), 10);
+  assert.equal(resolveScheduledDelayMinutes(jornada('atraso-tolerado', '12:05', '20:55'), settings), 0);
+  assert.equal(resolveScheduledDelayMinutes(jornada('atraso-integral', '12:05', '20:54'), settings), 5);
+
+  const variacaoAbsorvida = analyzeDailyOvertimePreview(jornada('variacao', '11:57', '21:03'), settings, { trace: true });
+  assert.equal(variacaoAbsorvida.workedMinutes, 486);
+  assert.equal(variacaoAbsorvida.toleranceRealMinutes, 6);
+  // A jornada normal nao e HE: o trace nao aponta destino nem credito no banco.
+  assert.equal(variacaoAbsorvida.trace?.destination, 'none');
+  assert.equal(variacaoAbsorvida.trace?.bankMinutes, 0);
+  assert.equal(variacaoAbsorvida.trace?.bankWeightedMinutes, 0);
+
+  const cartaoCurto = createEntry({ id: 'he-curta', date: '2026-03-02', start: '21:00', end: '21:04', isOvertimeCard: true });
+  const previewCurto = analyzeDailyOvertimePreview(cartaoCurto, settings, { trace: true });
+  assert.equal(previewCurto.rawOvertimeRealMinutes, 4);
+  assert.equal(previewCurto.toleranceRealMinutes, 4);
+  assert.equal(previewCurto.dayOvertimeRealMinutes, 0);
+  assert.ok(previewCurto.trace?.slices.every((slice) => slice.outcome === 'tolerance'));
+  assert.equal(previewCurto.trace?.destination, 'none');
+  assert.equal(calculateOvertime([cartaoCurto], settings)?.grandTotalValue, 0);
+
+  const cartaoLongo = createEntry({ id: 'he-longa', date: '2026-03-02', start: '21:00', end: '21:12', isOvertimeCard: true });
+  assert.equal(analyzeDailyOvertimePreview(cartaoLongo, settings).toleranceRealMinutes, 0);
+  assert.equal(analyzeDailyOvertimePreview(cartaoLongo, settings).dayOvertimeRealMinutes, 12);
+
+  const semTolerancia = createSettings({
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { markingToleranceMinutes: 0, dailyMarkingToleranceMinutes: 0 },
+    },
+  });
+  assert.equal(analyzeDailyOvertimePreview(cartaoCurto, semTolerancia).dayOvertimeRealMinutes, 4);
+  assert.equal(calcularMinutosAtraso([jornada('dentro', '12:04', '20:57')], semTolerancia), 7);
+});
+
+test('arredondamento do ponto vale no calculo sem alterar a marcacao bruta', () => {
+  assert.equal(roundPunchClock('12:03', 'entry', { mode: 'nearest', intervalMinutes: 5 }), '12:05');
+  assert.equal(roundPunchClock('12:02', 'exit', { mode: 'nearest', intervalMinutes: 5 }), '12:00');
+  assert.equal(roundPunchClock('23:58', 'exit', { mode: 'nearest', intervalMinutes: 5 }), '00:00');
+  assert.equal(roundPunchClock('07:01', 'entry', { mode: 'entryUpExitDown', intervalMinutes: 15 }), '07:15');
+  assert.equal(roundPunchClock('16:59', 'exit', { mode: 'entryUpExitDown', intervalMinutes: 15 }), '16:45');
+  assert.equal(roundPunchClock('16:59', 'exit', { mode: 'off', intervalMinutes: 15 }), '16:59');
+
+  const settingsFor = (punchRounding: NonNullable<CompanyCalculationConfig['punchRounding']>) => createSettings({
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { punchRounding },
+    },
+  });
+  const cartao = createEntry({ id: 'he', date: '2026-03-02', start: '21:00', end: '22:07', isOvertimeCard: true });
+  const arredondado = applyPunchRounding(cartao, { mode: 'nearest', intervalMinutes: 15 });
+  assert.equal(arredondado.exit1, '22:00');
+  assert.equal(cartao.exit1, '22:07');
+  assert.equal(analyzeDailyOvertimePreview(cartao, settingsFor({ mode: 'nearest', intervalMinutes: 15 })).dayOvertimeRealMinutes, 60);
+  assert.equal(analyzeDailyOvertimePreview(cartao, settingsFor({ mode: 'off', intervalMinutes: 15 })).dayOvertimeRealMinutes, 67);
+
+  const jornada = createEntry({ id: 'normal', date: '2026-03-02', start: '12:01', end: '17:00' });
+  jornada.entry2 = '18:00';
+  jornada.exit2 = '21:00';
+  assert.equal(calcularMinutosAtraso([jornada], settingsFor({ mode: 'entryUpExitDown', intervalMinutes: 15 })), 15);
+  assert.equal(calcularMinutosAtraso([jornada], settingsFor({ mode: 'nearest', intervalMinutes: 5 })), 0);
+  assert.equal(jornada.entry1, '12:01');
+});
+
 test('as 3 primeiras horas extras semanais sao classificadas em ordem cronologica', () => {
   const settings = createSettings({ weeklyLimit: 3, saturdayCompensation: false });
   const entries: TimeEntry[] = [
@@ -154,15 +258,15 @@ test('o limite semanal de 3h continua em semana real mesmo na virada de mes', ()
   const settings = createSettings({ weeklyLimit: 3, saturdayCompensation: false });
   const entries: TimeEntry[] = [
     createEntry({
-      id: 'apr30',
-      date: '2026-04-30',
+      id: 'mar31',
+      date: '2026-03-31',
       start: '21:00',
       end: '23:00',
       isOvertimeCard: true,
     }),
     createEntry({
-      id: 'may01',
-      date: '2026-05-01',
+      id: 'apr01',
+      date: '2026-04-01',
       start: '21:00',
       end: '23:00',
       isOvertimeCard: true,
@@ -314,6 +418,236 @@ test('anotacao ABONADO ignora o dia e anotacao BCO manda o tempo para banco', ()
   assert.ok(Math.abs(result.grandTotalBancoHoras - 128.5714) < 0.01);
 });
 
+test('situacao do dia tolera grafias da anotacao e usa padroes da empresa para abonar faltas', () => {
+  const settings = createSettings({
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { dayStatusPatterns: [{ pattern: 'lic. medica', status: 'atestado' }] },
+    },
+  });
+  const emptyDay = (id: string, date: string, annotationText: string): TimeEntry => ({
+    ...createEntry({ id, date, start: '', end: '' }),
+    annotationText,
+  });
+  const normalEntries: TimeEntry[] = [
+    emptyDay('abonada', '2026-03-02', 'Falta  Abonada.'),
+    emptyDay('atestado', '2026-03-03', 'atestado médico'),
+    emptyDay('licenca', '2026-03-04', 'LIC MÉDICA'),
+    emptyDay('falta', '2026-03-05', 'falta'),
+    { ...emptyDay('ferias', '2026-03-06', ''), dayStatus: 'ferias' },
+  ];
+
+  assert.equal(resolveEntryDayStatus(normalEntries[0], settings), 'faltaAbonada');
+  assert.equal(resolveEntryDayStatus(normalEntries[2], settings), 'atestado');
+  assert.equal(calcularMinutosAtraso(normalEntries, settings), 480);
+
+  const holidayByAnnotation: TimeEntry = {
+    ...createEntry({ id: 'feriado-municipal', date: '2026-03-09', start: '08:00', end: '10:00', isOvertimeCard: true }),
+    annotationText: 'Feriado municipal',
+  };
+  const result = calculateOvertime([holidayByAnnotation], settings);
+  assert.ok(result);
+  assert.deepEqual(result.holidayDates, ['2026-03-09']);
+  assert.equal(result.grandTotal100Minutes, 120);
+});
+
+test('falta injustificada desconta o dia e o DSR da propria semana, incluindo feriados da semana', () => {
+  const settings = createSettings({
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { customHolidays: ['2026-03-12'] },
+    },
+  });
+  const emptyDay = (id: string, date: string, annotationText = ''): TimeEntry => ({
+    ...createEntry({ id, date, start: '', end: '' }),
+    annotationText,
+  });
+  const normalEntries: TimeEntry[] = [
+    createEntry({ id: 'trabalhado', date: '2026-03-02', start: '12:00', end: '20:00' }),
+    emptyDay('falta-1', '2026-03-03'),
+    emptyDay('atestado', '2026-03-04', 'ATESTADO'),
+    emptyDay('so-he', '2026-03-05'),
+    emptyDay('falta-2', '2026-03-10'),
+    emptyDay('feriado', '2026-03-12'),
+  ];
+  const overtimeEntries: TimeEntry[] = [
+    createEntry({ id: 'he-05', date: '2026-03-05', start: '12:00', end: '14:00', isOvertimeCard: true }),
+  ];
+
+  const faltas = detectarFaltasInjustificadas([...normalEntries, ...overtimeEntries], settings);
+  assert.deepEqual(faltas, [
+    { weekStart: '2026-03-02', weekEnd: '2026-03-08', faltas: ['2026-03-03'], descansosPerdidos: ['2026-03-08'] },
+    { weekStart: '2026-03-09', weekEnd: '2026-03-15', faltas: ['2026-03-10'], descansosPerdidos: ['2026-03-12', '2026-03-15'] },
+  ]);
+
+  const diasFalta = faltas.flatMap((semana) => semana.faltas);
+  const holidayDates = ['2026-03-12'];
+  assert.equal(calcularMinutosAtraso(normalEntries, settings, holidayDates), 3 * 480);
+  assert.equal(calcularMinutosAtraso(normalEntries, settings, holidayDates, diasFalta), 480);
+
+  const payroll = calcularHoleriteCompleto({
+    salarioBase: 3000,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+    rubrics: settings.companySettings?.rubrics,
+    faltasInjustificadas: faltas,
+  });
+  const faltaLine = payroll.lines.find((line) => line.description === 'Faltas Injustificadas');
+  const dsrFaltaLine = payroll.lines.find((line) => line.description === 'DSR sobre Faltas');
+  assert.deepEqual(faltaLine && { reference: faltaLine.reference, amount: faltaLine.amount }, { reference: 2, amount: -200 });
+  assert.deepEqual(dsrFaltaLine && { reference: dsrFaltaLine.reference, amount: dsrFaltaLine.amount }, { reference: 3, amount: -300 });
+  assert.equal(payroll.valores.faltas, 200);
+  assert.equal(payroll.valores.descontoDSRFaltas, 300);
+  assert.deepEqual(payroll.semanasComFalta.map((semana) => semana.weekStart), ['2026-03-02', '2026-03-09']);
+});
+
+test('faltas, saidas antecipadas e repousos perdidos saem da base de INSS, FGTS e IRRF', () => {
+  const basePayroll = {
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+  };
+  const comDescontos = calcularHoleriteCompleto({
+    ...basePayroll,
+    salarioBase: 6000,
+    saidaAntecipada: 150,
+    faltasInjustificadas: [
+      { weekStart: '2026-03-02', weekEnd: '2026-03-08', faltas: ['2026-03-03'], descansosPerdidos: ['2026-03-08'] },
+    ],
+  });
+  const descontos = comDescontos.valores.faltas
+    + comDescontos.valores.descontoDSRFaltas
+    + comDescontos.valores.saidaAntecipada
+    + comDescontos.valores.descontoDSRSaidaAntecipada;
+  assert.equal(comDescontos.valores.faltas, 200);
+  assert.equal(comDescontos.valores.totalProventos, 6000);
+  assert.equal(comDescontos.valores.remuneracaoTributavel, Number((6000 - descontos).toFixed(2)));
+  assert.equal(comDescontos.valores.baseINSS, comDescontos.valores.remuneracaoTributavel);
+  assert.equal(comDescontos.valores.fgtsBase, comDescontos.valores.remuneracaoTributavel);
+
+  const equivalente = calcularHoleriteCompleto({ ...basePayroll, salarioBase: 6000 - descontos });
+  assert.equal(comDescontos.valores.inss, equivalente.valores.inss);
+  assert.equal(comDescontos.valores.fgts, equivalente.valores.fgts);
+  assert.equal(comDescontos.valores.irDeducoesLegais, equivalente.valores.irDeducoesLegais);
+});
+
+test('saida antecipada sai do atraso e vira desconto proprio com tolerancia e perda de DSR', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const jornada = (id: string, date: string, start: string, end: string) => {
+    const entry = createEntry({ id, date, start, end: '17:00' });
+    entry.entry2 = '18:00';
+    entry.exit2 = end;
+    return entry;
+  };
+  const normalEntries: TimeEntry[] = [
+    jornada('saiu-cedo', '2026-03-02', '12:00', '20:00'),
+    jornada('chegou-tarde', '2026-03-03', '12:30', '21:00'),
+    jornada('ambos', '2026-03-04', '12:20', '20:50'),
+    jornada('tolerado', '2026-03-05', '12:00', '20:57'),
+  ];
+
+  const detalhe = detalharMinutosAtraso(normalEntries, settings);
+  assert.equal(detalhe.totalMinutes, 120);
+  assert.equal(detalhe.atrasoMinutes, 50);
+  assert.equal(detalhe.saidaAntecipadaMinutes, 70);
+  assert.deepEqual(detalhe.diasSaidaAntecipada, [
+    { date: '2026-03-02', minutes: 60 },
+    { date: '2026-03-04', minutes: 10 },
+  ]);
+  assert.equal(calcularMinutosAtraso(normalEntries, settings), detalhe.totalMinutes);
+
+  const payroll = calcularHoleriteCompleto({
+    salarioBase: 2200,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+    atraso: (detalhe.atrasoMinutes / 60) * 10,
+    saidaAntecipada: (detalhe.saidaAntecipadaMinutes / 60) * 10,
+  });
+  const saidaLine = payroll.lines.find((line) => line.description === 'Saidas Antecipadas');
+  assert.deepEqual(saidaLine && { reference: saidaLine.reference, amount: saidaLine.amount }, { reference: 1.17, amount: -11.67 });
+  assert.equal(payroll.valores.atraso, 8.33);
+  assert.equal(payroll.valores.descontoDSRSaidaAntecipada, Number(((70 / 60) * 10 / payroll.diasUteis * payroll.domingosEFeriados).toFixed(2)));
+  assert.ok(payroll.lines.some((line) => line.description === 'DSR sobre Saida Antecipada' && line.amount < 0));
+});
+
+test('sabado compensado e sabado trabalhado usam regras e grupos de limite proprios', () => {
+  const buildSaturdaySettings = (saturdayCompensation: boolean) => createSettings({
+    saturdayCompensation,
+    compDays: '1,2,3,4',
+    companySettings: {
+      cnpj: '11111111111111',
+      name: 'Empresa Sabado',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: {
+        overtimeRules: [
+          { id: 'weekday', label: 'HE util', rubricKey: 'HE_50', multiplier: 1.5, period: 'any', dayType: 'weekday', priority: 1 },
+          {
+            id: 'sat-comp',
+            label: 'HE sabado compensado',
+            rubricKey: 'HE_SAB_COMP',
+            multiplier: 1.6,
+            period: 'any',
+            dayType: 'compensatedSaturday',
+            weeklyLimitMinutes: 60,
+            weeklyLimitGroup: 'sabado',
+            priority: 2,
+          },
+          { id: 'sat-worked', label: 'HE sabado', rubricKey: 'HE_SAB', multiplier: 1.7, period: 'any', dayType: 'saturday', priority: 3 },
+          { id: 'sat-over', label: 'HE sabado excedente', rubricKey: 'HE_100', multiplier: 2, period: 'any', dayType: 'compensatedSaturday', priority: 4 },
+        ],
+      },
+    },
+  });
+  const entries = [
+    createEntry({ id: 'mon', date: '2026-03-02', start: '08:00', end: '09:00', isOvertimeCard: true }),
+    createEntry({ id: 'sat', date: '2026-03-07', start: '08:00', end: '10:00', isOvertimeCard: true }),
+  ];
+
+  const compensated = calculateOvertime(entries, buildSaturdaySettings(true));
+  assert.ok(compensated);
+  assert.equal(compensated.overtimeBuckets.find((bucket) => bucket.rubricKey === 'HE_50')?.minutes, 60);
+  assert.equal(compensated.overtimeBuckets.find((bucket) => bucket.rubricKey === 'HE_SAB_COMP')?.minutes, 60);
+  assert.equal(compensated.overtimeBuckets.find((bucket) => bucket.rubricKey === 'HE_100')?.minutes, 60);
+
+  const worked = calculateOvertime(entries, buildSaturdaySettings(false));
+  assert.ok(worked);
+  assert.equal(worked.overtimeBuckets.find((bucket) => bucket.rubricKey === 'HE_SAB')?.minutes, 120);
+  assert.equal(worked.overtimeBuckets.some((bucket) => bucket.rubricKey === 'HE_SAB_COMP'), false);
+
+  const withoutSaturdayRules = calculateOvertime(entries, createSettings({ saturdayCompensation: true }));
+  assert.ok(withoutSaturdayRules);
+  assert.equal(withoutSaturdayRules.grandTotal50Minutes, 180);
+});
+
 test('empresa com HE 60 sem faixa de HE 100 contabiliza tudo na rubrica configurada', () => {
   const settings = createSettings({
     weeklyLimit: 0,
@@ -398,6 +732,100 @@ test('hora noturna reduzida converte minutos reais em financeiros', () => {
   assert.ok(Math.abs(convertNightRealMinutesToFinancial(60) - 68.5714285714) < 0.0001);
 });
 
+test('prorrogacao noturna mantem adicional e hora reduzida apos as 05h no motor e no holerite', () => {
+  const jornadaIntegral = createEntry({ id: 'integral', date: '2026-03-02', start: '22:00', end: '02:00' });
+  jornadaIntegral.entry2 = '03:00';
+  jornadaIntegral.exit2 = '07:00';
+  const iniciadaAs23 = createEntry({ id: 'parcial', date: '2026-03-03', start: '23:00', end: '07:00' });
+
+  assert.equal(summarizeNightWorkedMinutes([jornadaIntegral], buildNightWindow({})).realMinutes, 360);
+  assert.equal(summarizeNightWorkedMinutes([jornadaIntegral], buildNightWindow({ nightExtensionMode: 'fullWindow' })).realMinutes, 480);
+  assert.equal(summarizeNightWorkedMinutes([iniciadaAs23], buildNightWindow({ nightExtensionMode: 'fullWindow' })).realMinutes, 360);
+  assert.equal(summarizeNightWorkedMinutes([iniciadaAs23], buildNightWindow({ nightExtensionMode: 'partialWindow' })).realMinutes, 480);
+
+  const settingsFor = (nightExtensionMode: 'off' | 'fullWindow') => createSettings({
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { nightExtensionMode },
+    },
+  });
+  const heNoturna = createEntry({ id: 'he-noturna', date: '2026-03-02', start: '22:00', end: '07:00', isOvertimeCard: true });
+  const semProrrogacao = analyzeDailyOvertimePreview(heNoturna, settingsFor('off'));
+  const comProrrogacao = analyzeDailyOvertimePreview(heNoturna, settingsFor('fullWindow'));
+  assert.ok(Math.abs(semProrrogacao.rawOvertimeMinutes - 600) < 0.01);
+  assert.ok(Math.abs(comProrrogacao.rawOvertimeMinutes - convertNightRealMinutesToFinancial(540)) < 0.01);
+
+  const rubrics = buildSuggestedCompanyRubrics();
+  const adicionalNoturno = (nightExtensionMode: 'off' | 'fullWindow') => calcularHoleriteCompleto({
+    salarioBase: 2200,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+    cycleStartDay: 1,
+    rubrics,
+    companyConfig: { nightExtensionMode },
+    normalEntries: [jornadaIntegral],
+  }).lines.find((line) => line.code === rubrics.ADIC_NOT.code);
+  assert.equal(adicionalNoturno('off')?.reference, Number((convertNightRealMinutesToFinancial(360) / 60).toFixed(2)));
+  assert.equal(adicionalNoturno('fullWindow')?.reference, Number((convertNightRealMinutesToFinancial(480) / 60).toFixed(2)));
+});
+
+test('janela noturna e hora reduzida seguem o contrato urbano ou rural', () => {
+  const plantao = createEntry({ id: 'plantao', date: '2026-03-02', start: '20:00', end: '06:00' });
+  const urbano = buildNightWindow({});
+  const lavoura = buildNightWindow({ nightCutoff: '21:00', nightEnd: '05:00', nightHourMinutes: 60 });
+  const pecuaria = buildNightWindow({ nightCutoff: '20:00', nightEnd: '04:00', nightHourMinutes: 60 });
+
+  assert.equal(summarizeNightWorkedMinutes([plantao], urbano).realMinutes, 420);
+  assert.ok(Math.abs(summarizeNightWorkedMinutes([plantao], urbano).financialMinutes - 480) < 0.0001);
+  assert.deepEqual(summarizeNightWorkedMinutes([plantao], lavoura), { realMinutes: 480, financialMinutes: 480 });
+  assert.deepEqual(summarizeNightWorkedMinutes([plantao], pecuaria), { realMinutes: 480, financialMinutes: 480 });
+
+  const rubrics = buildSuggestedCompanyRubrics();
+  const contratos = {
+    urbano: {},
+    lavoura: { nightCutoff: '21:00', nightEnd: '05:00', nightHourMinutes: 60 },
+    pecuaria: { nightCutoff: '20:00', nightEnd: '04:00', nightHourMinutes: 60 },
+  };
+  const settingsFor = (config: (typeof contratos)[keyof typeof contratos]) => createSettings({
+    companySettings: { cnpj: '00000000000000', name: 'Empresa Teste', rubrics, config },
+  });
+  const heNoturna = { ...plantao, isOvertimeCard: true };
+  assert.ok(Math.abs(analyzeDailyOvertimePreview(heNoturna, settingsFor(contratos.urbano)).rawOvertimeMinutes - 660) < 0.01);
+  assert.ok(Math.abs(analyzeDailyOvertimePreview(heNoturna, settingsFor(contratos.lavoura)).rawOvertimeMinutes - 600) < 0.01);
+  assert.ok(Math.abs(analyzeDailyOvertimePreview(heNoturna, settingsFor(contratos.pecuaria)).rawOvertimeMinutes - 600) < 0.01);
+
+  const adicionalNoturno = (config: (typeof contratos)[keyof typeof contratos]) => calcularHoleriteCompleto({
+    salarioBase: 2200,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+    cycleStartDay: 1,
+    rubrics,
+    companyConfig: config,
+    normalEntries: [plantao],
+  }).lines.find((line) => line.code === rubrics.ADIC_NOT.code);
+  assert.equal(adicionalNoturno(contratos.urbano)?.reference, 8);
+  assert.equal(adicionalNoturno(contratos.lavoura)?.reference, 8);
+  assert.equal(adicionalNoturno(contratos.pecuaria)?.reference, 8);
+});
+
 test('DSR usa apenas feriados configurados e nao trata carnaval como feriado automatico', () => {
   const semFeriadoMunicipal = getDiasUteisEDomingos(3, 2026, 16);
   assert.equal(semFeriadoMunicipal.diasUteis, 20);
@@ -410,6 +838,47 @@ test('DSR usa apenas feriados configurados e nao trata carnaval como feriado aut
   assert.deepEqual(comFeriadoConfigurado.feriados, ['2026-03-09']);
 });
 
+test('feriado nacional ou da empresa trabalhado vai para as faixas de 100/125 e aparece no resultado', () => {
+  const settings = createSettings({
+    weeklyLimit: 3,
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '11111111111111',
+      name: 'Empresa Feriados',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { customHolidays: ['2026-03-09'] },
+    },
+  });
+  const result = calculateOvertime([
+    createEntry({
+      id: 'tiradentes',
+      date: '2026-04-21',
+      start: '08:00',
+      end: '10:00',
+      isOvertimeCard: true,
+    }),
+    createEntry({
+      id: 'municipal',
+      date: '2026-03-09',
+      start: '08:00',
+      end: '09:00',
+      isOvertimeCard: true,
+    }),
+    createEntry({
+      id: 'util',
+      date: '2026-03-10',
+      start: '08:00',
+      end: '09:00',
+      isOvertimeCard: true,
+    }),
+  ], settings);
+
+  assert.ok(result);
+  assert.deepEqual(result.holidayDates, ['2026-03-09', '2026-04-21']);
+  assert.equal(result.grandTotal100Minutes, 180);
+  assert.equal(result.grandTotal50Minutes, 60);
+});
+
 test('base mensal de DSR usa calendario do mes para os fatores dos holerites pagos', () => {
   const dezembro = getDiasBaseDsrMensal(12, 2025);
   assert.equal(dezembro.diasBase, 26);
@@ -452,6 +921,282 @@ test('interjornada inferior a 11 horas gera bucket de indenizacao', () => {
   assert.equal(interjornada?.minutes, 120);
 });
 
+test('interjornada considera a jornada do dia inteiro e respeita minimo e percentual configurados', () => {
+  const settings = createSettings({
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { interjornadaMinimumHours: 12, interjornadaPercent: 100 },
+    },
+  });
+  const result = calculateOvertime([
+    createEntry({ id: 'd1-normal', date: '2026-03-02', start: '08:00', end: '17:00' }),
+    createEntry({ id: 'd1-he', date: '2026-03-02', start: '18:00', end: '22:00', isOvertimeCard: true }),
+    createEntry({ id: 'd2-normal', date: '2026-03-03', start: '08:00', end: '17:00' }),
+  ], settings);
+
+  assert.ok(result);
+  assert.deepEqual(result.interjornadaViolations, [
+    { date: '2026-03-03', previousDate: '2026-03-02', restMinutes: 600, missingMinutes: 120 },
+  ]);
+  const interjornada = result.overtimeBuckets.find((bucket) => bucket.rubricKey === 'INTERJORNADA');
+  assert.equal(interjornada?.minutes, 120);
+  assert.equal(interjornada?.multiplier, 2);
+  assert.equal(interjornada?.code, '3955');
+});
+
+test('intervalo intrajornada menor que 1h em jornada acima de 6h indeniza apenas o tempo suprimido', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const shortBreak: TimeEntry = {
+    ...createEntry({ id: 'curto', date: '2026-03-02', start: '08:00', end: '12:00' }),
+    entry2: '12:30',
+    exit2: '17:00',
+  };
+  const noBreakShortDay = createEntry({ id: 'seis-horas', date: '2026-03-03', start: '08:00', end: '14:00' });
+  const result = calculateOvertime([shortBreak, noBreakShortDay], settings);
+
+  assert.ok(result);
+  assert.deepEqual(result.intrajornadaViolations, [
+    { entryId: 'curto', date: '2026-03-02', workedMinutes: 510, breakMinutes: 30, requiredBreakMinutes: 60, missingMinutes: 30 },
+  ]);
+  const intrajornada = result.overtimeBuckets.find((bucket) => bucket.rubricKey === 'INTRAJORNADA');
+  assert.equal(intrajornada?.minutes, 30);
+  assert.equal(intrajornada?.multiplier, 1.5);
+  assert.equal(analyzeDailyOvertimePreview(shortBreak, settings).intrajornada?.missingMinutes, 30);
+  assert.equal(analyzeDailyOvertimePreview(noBreakShortDay, settings).intrajornada, null);
+});
+
+test('intrajornada soma o cartao normal e o de HE do mesmo dia como uma jornada so', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const normal = createEntry({ id: 'normal', date: '2026-03-02', start: '08:00', end: '14:00' });
+  const extra = createEntry({ id: 'extra', date: '2026-03-02', start: '14:00', end: '16:00', isOvertimeCard: true });
+  const result = calculateOvertime([normal, extra], settings);
+
+  assert.ok(result);
+  assert.deepEqual(result.intrajornadaViolations, [
+    { entryId: 'normal', date: '2026-03-02', workedMinutes: 480, breakMinutes: 0, requiredBreakMinutes: 60, missingMinutes: 60 },
+  ]);
+  assert.equal(result.overtimeBuckets.find((bucket) => bucket.rubricKey === 'INTRAJORNADA')?.minutes, 60);
+  assert.deepEqual(detectIntrajornadaViolations([normal, extra], settings).map((violation) => violation.missingMinutes), [60]);
+  assert.equal(calculateOvertime([normal], settings)?.intrajornadaViolations.length, 0);
+});
+
+test('banco de horas credita BCO, debita folga compensada e paga como HE o saldo vencido', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const movements = buildHourBankMovements([
+    {
+      ...createEntry({ id: 'bco', date: '2026-01-05', start: '18:00', end: '20:00', isOvertimeCard: true }),
+      annotationText: 'BCO',
+    },
+    {
+      ...createEntry({ id: 'folga-bco', date: '2026-01-20', start: '', end: '' }),
+      annotationText: 'Folga BCO',
+    },
+  ], settings);
+  assert.deepEqual(movements.map(({ date, kind, minutes }) => ({ date, kind, minutes })), [
+    { date: '2026-01-05', kind: 'credito', minutes: 120 },
+    { date: '2026-01-20', kind: 'debito', minutes: 480 },
+  ]);
+
+  const ledger = buildHourBankLedger([
+    { date: '2026-01-05', kind: 'credito', minutes: 120, description: 'BCO' },
+    { date: '2026-02-02', kind: 'credito', minutes: 180, description: 'BCO' },
+    { date: '2026-03-10', kind: 'debito', minutes: 60, description: 'Folga BCO' },
+  ], { expiryMonths: 6, asOf: '2026-07-31' });
+  assert.deepEqual(ledger.lines.map((line) => [line.type, line.minutes, line.balanceAfter]), [
+    ['credito', 120, 120],
+    ['credito', 180, 300],
+    ['debito', -60, 240],
+    ['vencimento', -60, 180],
+  ]);
+  assert.equal(ledger.lines[3].date, '2026-07-05');
+  assert.equal(ledger.balanceMinutes, 180);
+  assert.deepEqual(ledger.expiredByCompetencia, { '2026-07': 60 });
+
+  const rubrics = buildSuggestedCompanyRubrics();
+  const payroll = calcularHoleriteCompleto({
+    salarioBase: 2200,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 7,
+    ano: 2026,
+    cycleStartDay: 1,
+    rubrics,
+    bancoHorasVencidoMinutos: ledger.expiredByCompetencia['2026-07'],
+  });
+  const vencido = payroll.lines.find((line) => line.code === rubrics.BANCO_HORAS_VENCIDO.code);
+  assert.equal(vencido?.reference, 1);
+  assert.equal(vencido?.amount, 15);
+});
+
+test('banco de horas vencido cai na competencia do cartao quando ha virada no meio do mes', () => {
+  const ledger = buildHourBankLedger([
+    { date: '2026-01-20', kind: 'credito', minutes: 90, description: 'BCO' },
+  ], { expiryMonths: 6, asOf: '2026-08-31', cycleStartDay: 15 });
+  assert.deepEqual(ledger.lines.map((line) => [line.type, line.date, line.competencia]), [
+    ['credito', '2026-01-20', '2026-02'],
+    ['vencimento', '2026-07-20', '2026-08'],
+  ]);
+  assert.deepEqual(ledger.expiredByCompetencia, { '2026-08': 90 });
+});
+
+test('sobreaviso e prontidao pagam fracao da hora, descontam acionamentos e entram no holerite e no DSR', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const onCallDay = {
+    ...createEntry({ id: 'sobreaviso', date: '2026-03-02', start: '12:00', end: '21:00' }),
+    annotationText: 'Sobreaviso 22:00 as 08:00',
+  };
+  const callOut = createEntry({ id: 'acionamento', date: '2026-03-03', start: '01:00', end: '03:00', isOvertimeCard: true });
+  const standbyDay = {
+    ...createEntry({ id: 'prontidao', date: '2026-03-04', start: '12:00', end: '21:00' }),
+    onCall: [{ kind: 'prontidao' as const, start: '21:00', end: '23:00' }],
+  };
+  const entries = [onCallDay, callOut, standbyDay];
+
+  assert.deepEqual(summarizeEntryOnCallMinutes(onCallDay, entries).sobreaviso, {
+    windowMinutes: 600,
+    callOutMinutes: 120,
+    paidMinutes: 480,
+  });
+
+  const result = calculateOvertime(entries, settings);
+  assert.ok(result);
+  const onCallByKey = Object.fromEntries(result.onCallBuckets.map((bucket) => [bucket.rubricKey, bucket]));
+  assert.equal(onCallByKey.SOBREAVISO.minutes, 480);
+  assert.equal(onCallByKey.SOBREAVISO.amount, 26.67);
+  assert.equal(onCallByKey.PRONTIDAO.minutes, 120);
+  assert.equal(onCallByKey.PRONTIDAO.amount, 13.33);
+  // O acionamento e pago como HE no cartao de extras, fora do sobreaviso.
+  assert.ok(result.overtimeBuckets.some((bucket) => bucket.minutes > 0));
+  assert.ok(result.grandTotalValue > 0);
+
+  const basePayroll = {
+    salarioBase: 2200,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+    cycleStartDay: 1,
+  };
+  const withoutOnCall = calcularHoleriteCompleto(basePayroll);
+  const withOnCall = calcularHoleriteCompleto({ ...basePayroll, onCallBuckets: result.onCallBuckets });
+  const sobreavisoLine = withOnCall.lines.find((line) => line.description === 'Horas de Sobreaviso');
+  assert.equal(sobreavisoLine?.reference, 8);
+  assert.equal(sobreavisoLine?.amount, 26.67);
+  assert.equal(withOnCall.valores.sobreavisoProntidao, 40);
+  assert.equal(withOnCall.valores.baseHorasExtrasParaDsr - withoutOnCall.valores.baseHorasExtrasParaDsr, 40);
+  assert.ok(withOnCall.valores.dsrSobreHorasExtras > withoutOnCall.valores.dsrSobreHorasExtras);
+});
+
+test('sobreaviso anotado no cartao normal e no de HE do mesmo dia e pago uma vez', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const normalDay = {
+    ...createEntry({ id: 'normal', date: '2026-03-02', start: '12:00', end: '21:00' }),
+    annotationText: 'SOBREAVISO 22:00-06:00',
+  };
+  const overtimeDay = {
+    ...createEntry({ id: 'extra', date: '2026-03-02', start: '', end: '', isOvertimeCard: true }),
+    annotationText: 'SOBREAVISO 22:00-06:00',
+  };
+
+  const sobreaviso = (entries: TimeEntry[]) => calculateOvertime(entries, settings)?.onCallBuckets
+    .find((bucket) => bucket.rubricKey === 'SOBREAVISO')?.minutes;
+  assert.equal(sobreaviso([normalDay]), 480);
+  assert.equal(sobreaviso([normalDay, overtimeDay]), 480);
+});
+
+test('escalas 12x36, 6x1 e revezamento definem jornada, entrada e folgas de cada data', () => {
+  const withSchedule = (shiftSchedule: CompanyShiftSchedule) => createSettings({
+    saturdayCompensation: false,
+    companySettings: {
+      cnpj: '00000000000000',
+      name: 'Empresa Teste',
+      rubrics: buildSuggestedCompanyRubrics(),
+      config: { shiftSchedule },
+    },
+  });
+
+  const escala12x36 = withSchedule({
+    kind: '12x36',
+    anchorDate: '2026-03-02',
+    turns: [{ start: '07:00', end: '19:00', breakMinutes: 60 }],
+  });
+  assert.deepEqual(resolveShiftScheduleDay('2026-03-08', escala12x36), {
+    date: '2026-03-08',
+    isRestDay: false,
+    journeyMinutes: 660,
+    expectedStart: '07:00',
+    expectedEnd: '19:00',
+  });
+  assert.equal(resolveShiftScheduleDay('2026-03-09', escala12x36)?.isRestDay, true);
+  assert.equal(resolveShiftScheduleDay('2026-02-28', escala12x36)?.isRestDay, false);
+
+  // Domingo dentro da escala cumpre jornada; so o excedente de 11h e extra.
+  const domingo = analyzeDailyOvertimePreview(
+    createEntry({ id: 'domingo-12x36', date: '2026-03-08', start: '07:00', end: '19:00' }),
+    escala12x36
+  );
+  assert.equal(domingo.dailyJourneyMinutes, 660);
+  const folgaTrabalhada = analyzeDailyOvertimePreview(
+    createEntry({ id: 'folga-12x36', date: '2026-03-09', start: '07:00', end: '19:00' }),
+    escala12x36
+  );
+  assert.equal(folgaTrabalhada.dailyJourneyMinutes, 0);
+
+  assert.equal(resolveScheduledDelayMinutes(createEntry({ id: 'atraso', date: '2026-03-04', start: '07:20', end: '19:00' }), escala12x36), 20);
+  assert.equal(calcularMinutosAtraso([
+    createEntry({ id: 'falta-escala', date: '2026-03-04', start: '', end: '' }),
+    createEntry({ id: 'folga-escala', date: '2026-03-05', start: '', end: '' }),
+  ], escala12x36), 660);
+
+  const escala6x1 = withSchedule({
+    kind: '6x1',
+    anchorDate: '2026-03-01',
+    restWeekdays: [0, 1, 2],
+    turns: [{ start: '08:00', end: '16:20', breakMinutes: 60 }],
+  });
+  assert.equal(resolveShiftScheduleDay('2026-03-01', escala6x1)?.isRestDay, true);
+  assert.equal(resolveShiftScheduleDay('2026-03-08', escala6x1)?.isRestDay, false);
+  assert.equal(resolveShiftScheduleDay('2026-03-09', escala6x1)?.isRestDay, true);
+  assert.equal(resolveShiftScheduleDay('2026-03-17', escala6x1)?.isRestDay, true);
+  assert.equal(resolveShiftScheduleDay('2026-03-10', escala6x1)?.journeyMinutes, 440);
+  // Falta na semana da folga de segunda: o DSR perdido e a segunda da escala, nao o domingo trabalhado.
+  assert.deepEqual(detectarFaltasInjustificadas([
+    createEntry({ id: 'falta-6x1', date: '2026-03-11', start: '', end: '' }),
+  ], escala6x1), [
+    { weekStart: '2026-03-09', weekEnd: '2026-03-15', faltas: ['2026-03-11'], descansosPerdidos: ['2026-03-09'] },
+  ]);
+
+  const revezamento = withSchedule({
+    kind: 'rotating',
+    anchorDate: '2026-03-02',
+    rotationDays: 7,
+    turns: [
+      { label: 'Manha', start: '06:00', end: '14:00', breakMinutes: 15 },
+      { label: 'Tarde', start: '14:00', end: '22:00', breakMinutes: 15 },
+      { label: 'Noite', start: '22:00', end: '06:00', breakMinutes: 15 },
+    ],
+  });
+  assert.equal(resolveShiftScheduleDay('2026-03-03', revezamento)?.turnLabel, 'Manha');
+  assert.equal(resolveShiftScheduleDay('2026-03-10', revezamento)?.expectedStart, '14:00');
+  assert.equal(resolveShiftScheduleDay('2026-03-17', revezamento)?.journeyMinutes, 465);
+  assert.equal(resolveShiftScheduleDay('2026-03-15', revezamento)?.isRestDay, true);
+});
+
 test('holerite separa DSR de HE do DSR de adicional noturno do cartao normal', () => {
   const rubrics = buildSuggestedCompanyRubrics();
   const settings = createSettings({
@@ -610,3 +1355,260 @@ test('3948 usa base financeira mensal das HEs nos holerites pagos de 12-2025 a 0
   assert.ok(Math.abs(fevereiro.valores.dsrSobreHorasExtras - 716.54) < 0.25);
   assert.ok(Math.abs((fevereiro.lines.find((line) => line.description === 'DSR sobre HE')?.reference as number) - 17.04) < 0.02);
 });
+
+test('holerite usa a tabela de INSS e IRRF vigente na competencia e informa a versao aplicada', () => {
+  const holerite = (mes: number, ano: number) => calcularHoleriteCompleto({
+    salarioBase: 3000,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes,
+    ano,
+    cycleStartDay: 1,
+  });
+
+  const marco2023 = holerite(3, 2023);
+  assert.equal(marco2023.tabelaFiscal.id, '2023-01');
+  assert.equal(marco2023.valores.inss, 263.33);
+  assert.equal(marco2023.valores.irTotal, 62.45);
+
+  const marco2024 = holerite(3, 2024);
+  assert.equal(marco2024.tabelaFiscal.id, '2024-02');
+  assert.equal(marco2024.valores.inss, 258.82);
+  assert.equal(marco2024.valores.irDeducoesLegais, 36.15);
+
+  const marco2026 = holerite(3, 2026);
+  assert.equal(marco2026.tabelaFiscal.id, '2026-01');
+  assert.equal(marco2026.valores.inss, 248.6);
+  assert.equal(marco2026.valores.irTotal, 0);
+
+  assert.equal(holerite(6, 2022).tabelaFiscal.id, '2023-01');
+});
+
+test('IRRF compara deducoes legais com o desconto simplificado e aplica a base mais vantajosa', () => {
+  const holerite = (salarioBase: number, dependentes: number, ano = 2024) => calcularHoleriteCompleto({
+    salarioBase,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano,
+    cycleStartDay: 1,
+    dependentes,
+  });
+
+  const semDependentes = holerite(3000, 0);
+  assert.equal(semDependentes.valores.deducaoIRAplicada, 'simplificado');
+  assert.equal(semDependentes.valores.baseIRDeducoesLegais, 2741.18);
+  assert.equal(semDependentes.valores.baseIRDescontoSimplificado, 2435.2);
+  assert.equal(semDependentes.valores.irDescontoSimplificado, 13.2);
+  assert.equal(semDependentes.valores.baseIR, 2435.2);
+  assert.equal(semDependentes.valores.irTotal, 13.2);
+
+  const comDependentes = holerite(3000, 2);
+  assert.equal(comDependentes.valores.deducaoIRAplicada, 'legal');
+  assert.equal(comDependentes.valores.baseIR, 2362);
+  assert.equal(comDependentes.valores.irTotal, 7.71);
+
+  const antesDoSimplificado = holerite(3000, 0, 2023);
+  assert.equal(antesDoSimplificado.valores.irDescontoSimplificado, null);
+  assert.equal(antesDoSimplificado.valores.deducaoIRAplicada, 'legal');
+});
+
+test('FGTS de 8% (2% para aprendiz) sobre a remuneracao sem teto e saldo projetado com juros de 3% a.a.', () => {
+  const holerite = (salarioBase: number, jovemAprendiz: boolean) => calcularHoleriteCompleto({
+    salarioBase,
+    horasMensais: 220,
+    he50: 0,
+    he75: 0,
+    he100: 0,
+    he125: 0,
+    perc50: 50,
+    perc100: 100,
+    percNight: 25,
+    mes: 3,
+    ano: 2026,
+    cycleStartDay: 1,
+    jovemAprendiz,
+  });
+
+  const acimaDoTeto = holerite(10000, false);
+  assert.equal(acimaDoTeto.valores.baseINSS, 8475.55);
+  assert.equal(acimaDoTeto.valores.fgtsBase, 10000);
+  assert.equal(acimaDoTeto.valores.fgts, 800);
+  assert.equal(holerite(1621, true).valores.fgts, 32.42);
+
+  const projecao = buildFgtsProjection([
+    { competencia: '2026-01', base: 3000, aliquota: 0.08, valor: 240 },
+    { competencia: '2026-03', base: 3000, aliquota: 0.08, valor: 240 },
+  ]);
+  assert.deepEqual(projecao.lines.map((line) => [line.competencia, line.deposito, line.rendimento, line.saldo]), [
+    ['2026-01', 240, 0, 240],
+    ['2026-02', 0, 0.59, 240.59],
+    ['2026-03', 240, 0.59, 481.18],
+  ]);
+  assert.equal(projecao.totalDepositos, 480);
+  assert.equal(projecao.totalRendimentos, 1.18);
+});
+
+test('FGTS da competencia sai direto dos cartoes, com as mesmas verbas do holerite', () => {
+  const settings = createSettings({ saturdayCompensation: false });
+  const entries = [
+    createEntry({ id: 'normal', date: '2026-03-02', start: '08:00', end: '17:00' }),
+    createEntry({ id: 'extra', date: '2026-03-03', start: '18:00', end: '20:00', isOvertimeCard: true }),
+  ];
+  const apuracao = calcularHoleriteDaCompetencia({ entries, settings, mes: 3, ano: 2026, competencia: '2026-03' });
+  assert.ok(apuracao);
+  const { valores } = apuracao.payroll;
+  assert.ok(valores.totalProventos > 2200);
+  assert.equal(valores.fgtsBase, valores.totalProventos);
+  assert.equal(valores.fgts, Number((valores.totalProventos * 0.08).toFixed(2)));
+  assert.equal(calcularHoleriteDaCompetencia({ entries: [], settings, mes: 3, ano: 2026 }), null);
+});
+
+test('13o salario conta avos, tira medias de HE e DSR do ano e divide em duas parcelas', () => {
+  const settings = createSettings();
+  const competencias = ['2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06'].map((competencia) => ({
+    competencia,
+    result: calculateOvertime(
+      [createEntry({ id: competencia, date: `${competencia}-10`, start: '13:00', end: '15:00', isOvertimeCard: true })],
+      settings,
+      { competencia }
+    ),
+  }));
+  const decimo = calcularDecimoTerceiro({
+    ano: 2026,
+    salarioBase: 2200,
+    horasMensais: 220,
+    settings,
+    competencias: [...competencias, { competencia: '2026-07', result: null, diasTrabalhados: 10 }],
+  });
+
+  assert.equal(decimo.avos, 6);
+  assert.equal(decimo.medias.horasExtrasHoras, 2);
+  assert.equal(decimo.medias.horasExtras, 15.83);
+  assert.equal(decimo.medias.dsr, 3.06);
+  assert.equal(decimo.totalBruto, 1118.89);
+  assert.equal(decimo.primeiraParcela.totalDescontos, 0);
+  assert.equal(decimo.primeiraParcela.liquido, 559.45);
+  assert.deepEqual(decimo.segundaParcela.lines.map((line) => [line.description, line.amount]), [
+    ['13o Salario', 1100],
+    ['Media de HE no 13o', 15.83],
+    ['Media de DSR no 13o', 3.06],
+    ['Adiantamento do 13o (1a parcela)', -559.45],
+    ['INSS sobre 13o', -83.92],
+  ]);
+  assert.equal(decimo.segundaParcela.liquido, 475.52);
+
+  const anoCheio = calcularDecimoTerceiro({
+    ano: 2026,
+    salarioBase: 12000,
+    horasMensais: 220,
+    settings,
+    competencias: Array.from({ length: 12 }, (_, index) => ({ competencia: `2026-${String(index + 1).padStart(2, '0')}`, result: null })),
+  });
+  assert.equal(anoCheio.avos, 12);
+  assert.equal(anoCheio.segundaParcela.inss, 988.09);
+  assert.equal(anoCheio.segundaParcela.irrf, 2119.54);
+});
+
+test('dias trabalhados do 13o saem dos cartoes: admissao no meio do mes, faltas e mes em curso', () => {
+  const settings = createSettings();
+  const entries = [
+    createEntry({ id: 'admissao', date: '2026-01-20', start: '08:00', end: '17:00' }),
+    createEntry({ id: 'janeiro', date: '2026-01-30', start: '08:00', end: '17:00' }),
+    createEntry({ id: 'fevereiro-inicio', date: '2026-02-02', start: '08:00', end: '17:00' }),
+    { ...createEntry({ id: 'falta', date: '2026-02-10', start: '', end: '' }), dayStatus: 'falta' as const },
+    createEntry({ id: 'fevereiro-fim', date: '2026-02-27', start: '08:00', end: '17:00' }),
+    createEntry({ id: 'marco', date: '2026-03-10', start: '08:00', end: '17:00' }),
+  ];
+  const dias = contarDiasTrabalhadosPorMes(entries, settings);
+  assert.deepEqual(dias, { '2026-01': 12, '2026-02': 27, '2026-03': 10 });
+
+  const decimo = calcularDecimoTerceiro({
+    ano: 2026,
+    salarioBase: 2200,
+    horasMensais: 220,
+    settings,
+    competencias: Object.entries(dias).map(([competencia, diasTrabalhados]) => ({ competencia, result: null, diasTrabalhados })),
+  });
+  assert.equal(decimo.avos, 1);
+});
+
+test('ferias usam as ultimas 12 competencias, tributam ferias + 1/3 em separado e marcam o gozo no cartao', () => {
+  const settings = createSettings();
+  const comHoraExtra = (competencia: string) => ({
+    competencia,
+    result: calculateOvertime(
+      [createEntry({ id: competencia, date: `${competencia}-10`, start: '13:00', end: '15:00', isOvertimeCard: true })],
+      settings,
+      { competencia }
+    ),
+  });
+  const competencias = [
+    comHoraExtra('2025-05'),
+    ...Array.from({ length: 12 }, (_, index) => {
+      const date = new Date(2025, 5 + index, 1);
+      return { competencia: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`, result: null };
+    }),
+    comHoraExtra('2026-06'),
+  ];
+
+  const ferias = calcularFerias({
+    periodoAquisitivoInicio: '2025-03-01',
+    inicio: '2026-06-08',
+    salarioBase: 6000,
+    horasMensais: 220,
+    settings,
+    competencias,
+  });
+  assert.deepEqual(ferias.mesesConsiderados, competencias.slice(1, 13).map((item) => item.competencia));
+  assert.equal(ferias.medias.horasExtras, 0);
+  assert.deepEqual(ferias.gozo, { inicio: '2026-06-08', fim: '2026-07-07', dias: 30 });
+  assert.equal(ferias.dataPagamento, '2026-06-06');
+  assert.equal(ferias.periodoConcessivoFim, '2027-02-28');
+  assert.deepEqual(ferias.avisos, []);
+  assert.equal(ferias.inss, 921.51);
+  assert.equal(ferias.deducaoIRAplicada, 'legal');
+  assert.equal(ferias.irrf, 1037.85);
+  assert.equal(ferias.liquido, 6040.64);
+
+  const comAbono = calcularFerias({
+    periodoAquisitivoInicio: '2025-03-01',
+    inicio: '2026-06-08',
+    abonoPecuniario: true,
+    salarioBase: 6000,
+    horasMensais: 220,
+    settings,
+    competencias,
+  });
+  assert.equal(comAbono.gozo.dias, 20);
+  assert.deepEqual(comAbono.lines.map((line) => [line.description, line.amount]).slice(0, 4), [
+    ['Ferias', 4000],
+    ['1/3 Constitucional de Ferias', 1333.33],
+    ['Abono Pecuniario', 2000],
+    ['1/3 sobre Abono Pecuniario', 666.67],
+  ]);
+  assert.equal(comAbono.baseINSS, 5333.33);
+
+  const cartao = [
+    createEntry({ id: 'd1', date: '2026-06-05', start: '08:00', end: '17:00' }),
+    createEntry({ id: 'd2', date: '2026-06-08', start: '08:00', end: '17:00' }),
+  ];
+  const marcado = marcarDiasFerias(cartao, ferias.gozo.inicio, ferias.gozo.fim);
+  assert.equal(marcado.marcados, 1);
+  assert.equal(marcado.rows[1].annotationText, 'FERIAS');
+  assert.equal(resolveEntryDayStatus(marcado.rows[1], settings), 'ferias');
+  assert.equal(resolveEntryDayStatus({ annotationText: marcado.rows[1].annotationText }, settings), 'ferias');
+  assert.equal(resolveEntryDayStatus(marcado.rows[0], settings), 'normal');
+});
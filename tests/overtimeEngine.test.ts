@@ -1,7 +1,15 @@
 import { describe, expect, it } from 'vitest';
 
 import type { Settings, TimeEntry } from '../src/lib/calculations';
-import { analyzeDailyOvertimePreview, runOvertimeEngine } from '../src/lib/overtimeEngine';
+import { buildHourBankMovements } from '../src/lib/hourBank';
+import {
+  analyzeDailyOvertimePreview,
+  buildPriorOvertimeLimitUsage,
+  createOvertimeEngineSession,
+  groupOvertimeTraceSlices,
+  isCompetenciaInLimitWindow,
+  runOvertimeEngine,
+} from '../src/lib/overtimeEngine';
 
 function buildMarchSettings(): Settings {
   return {
@@ -177,8 +185,9 @@ describe('runOvertimeEngine - marco/2026 HE card rules', () => {
 
   it('deve validar o desconto de pausa do dia 07 com liquido de 6h54 (6.90 em decimal)', () => {
     const result = runOvertimeEngine([marchEntries[4]], buildMarchSettings());
-    const hoursByCode = bucketHoursByCode(result);
-    const totalHours = Object.values(hoursByCode).reduce((sum, hours) => sum + hours, 0);
+    const totalHours = result.overtimeBuckets
+      .filter((bucket) => bucket.rubricKey !== 'INTRAJORNADA')
+      .reduce((sum, bucket) => sum + bucket.hours, 0);
     const discountByCode = Object.fromEntries(
       result.discountBuckets.map((bucket) => [bucket.code, bucket.hours])
     ) as Record<string, number>;
@@ -235,3 +244,285 @@ describe('runOvertimeEngine - marco/2026 HE card rules', () => {
     expect(hoursByCode['3964']).toBeCloseTo(10.49, 2);
   });
 });
+
+describe('runOvertimeEngine - trace de explicabilidade', () => {
+  it('deve registrar regra, desconto e saldo semanal de cada minuto quando o trace estiver ativo', () => {
+    const result = runOvertimeEngine(marchEntries.slice(0, 5), buildMarchSettings(), { trace: true });
+    const saturday = result.trace?.find((traceDay) => traceDay.date === '2026-03-07');
+
+    expect(saturday).toBeDefined();
+    expect(saturday?.dayType).toBe('saturday');
+    expect(saturday?.ruleDayType).toBe('weekday');
+    expect(saturday?.discountRealMinutes).toBe(15);
+    expect(saturday?.discount?.rubricKey).toBe('DESC_HE_2');
+    expect(saturday?.slices.filter((slice) => slice.outcome === 'discount')).toHaveLength(15);
+
+    const runs = groupOvertimeTraceSlices(saturday?.slices || []);
+    const lowTier = runs.find((run) => run.allocations[0]?.rubricKey === 'HE_50');
+    const highTier = runs.find((run) => run.allocations[0]?.rubricKey === 'HE_100');
+    expect(lowTier?.allocations[0].weekly?.remainingAfter).toBe(0);
+    expect(highTier?.allocations[0].weekly).toBeNull();
+
+    const paidMinutes = (result.trace || [])
+      .flatMap((traceDay) => traceDay.slices)
+      .flatMap((slice) => slice.allocations)
+      .reduce((sum, allocation) => sum + allocation.financialMinutes, 0);
+    const bucketMinutes = result.overtimeBuckets
+      .filter((bucket) => bucket.rubricKey !== 'INTERJORNADA' && bucket.rubricKey !== 'INTRAJORNADA')
+      .reduce((sum, bucket) => sum + bucket.minutes, 0);
+    expect(paidMinutes).toBeCloseTo(bucketMinutes, 4);
+  });
+
+  it('deve manter o resultado sem trace quando a opcao nao for informada', () => {
+    const result = runOvertimeEngine(marchEntries, buildMarchSettings());
+    const preview = analyzeDailyOvertimePreview(marchEntries[4], buildMarchSettings());
+
+    expect(result.trace).toBeUndefined();
+    expect(preview.trace).toBeUndefined();
+  });
+});
+
+describe('runOvertimeEngine - faixas diarias', () => {
+  function buildDailyTierSettings(): Settings {
+    const settings = buildMarchSettings();
+    const rules = settings.companySettings?.config?.overtimeRules || [];
+    settings.companySettings!.config!.overtimeRules = rules.map((rule) => (
+      rule.id === 'he50-day'
+        ? { ...rule, weeklyLimitMinutes: undefined, dailyLimitMinutes: 120, dailyLimitGroup: 'first-hours' }
+        : rule
+    ));
+    return settings;
+  }
+
+  const dailyTierEntries: TimeEntry[] = [
+    { id: '2026-03-09', date: '2026-03-09', workDate: '2026-03-09', day: '09', entry1: '13:00', exit1: '16:30', entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true },
+    { id: '2026-03-10', date: '2026-03-10', workDate: '2026-03-10', day: '10', entry1: '13:00', exit1: '16:30', entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true },
+  ];
+
+  it('deve pagar as 2 primeiras horas do dia a 50% e o excedente a 100%, reiniciando a cada dia', () => {
+    const result = runOvertimeEngine(dailyTierEntries, buildDailyTierSettings());
+    const hoursByCode = bucketHoursByCode(result);
+
+    expect(hoursByCode['1058']).toBeCloseTo(4.0, 2);
+    expect(hoursByCode['2038']).toBeCloseTo(3.0, 2);
+  });
+
+  it('deve expor o saldo diario da faixa no trace', () => {
+    const result = runOvertimeEngine(dailyTierEntries.slice(0, 1), buildDailyTierSettings(), { trace: true });
+    const runs = groupOvertimeTraceSlices(result.trace?.[0]?.slices || []);
+    const lowTier = runs.find((run) => run.allocations[0]?.rubricKey === 'HE_50');
+    const highTier = runs.find((run) => run.allocations[0]?.rubricKey === 'HE_100');
+
+    expect(lowTier?.realMinutes).toBe(120);
+    expect(lowTier?.allocations[0].daily?.group).toBe('first-hours');
+    expect(lowTier?.allocations[0].daily?.remainingAfter).toBe(0);
+    expect(highTier?.realMinutes).toBe(90);
+    expect(highTier?.allocations[0].daily).toBeNull();
+  });
+});
+
+describe('runOvertimeEngine - limites acumulados entre competencias', () => {
+  function buildSemesterSettings(kind: 'calendar' | 'rolling' = 'calendar', months = 6): Settings {
+    const settings = buildMarchSettings();
+    const rules = settings.companySettings?.config?.overtimeRules || [];
+    settings.companySettings!.config!.overtimeRules = rules.map((rule) => (
+      rule.id === 'he50-day'
+        ? {
+          ...rule,
+          weeklyLimitMinutes: undefined,
+          cumulativeLimitMinutes: 180,
+          cumulativeLimitGroup: 'he50-semestre',
+          cumulativeWindowKind: kind,
+          cumulativeWindowMonths: months,
+        }
+        : rule
+    ));
+    return settings;
+  }
+
+  const buildDayEntry = (date: string, exit: string): TimeEntry => ({
+    id: date, date, workDate: date, day: date.slice(8), entry1: '13:00', exit1: exit, entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true,
+  });
+
+  it('deve classificar competencias dentro da janela de calendario ou movel', () => {
+    expect(isCompetenciaInLimitWindow('2026-01', '2026-03', 'calendar', 6)).toBe(true);
+    expect(isCompetenciaInLimitWindow('2025-12', '2026-03', 'calendar', 6)).toBe(false);
+    expect(isCompetenciaInLimitWindow('2025-12', '2026-02', 'rolling', 3)).toBe(true);
+    expect(isCompetenciaInLimitWindow('2025-12', '2026-03', 'rolling', 3)).toBe(false);
+    expect(isCompetenciaInLimitWindow('2026-03', '2026-03', 'rolling', 3)).toBe(false);
+  });
+
+  it('deve descontar do saldo o uso das competencias anteriores da mesma janela', () => {
+    const result = runOvertimeEngine([buildDayEntry('2026-03-09', '16:00')], buildSemesterSettings(), {
+      competencia: '2026-03',
+      priorLimitUsage: [
+        { competencia: '2025-12', usage: { 'he50-semestre': 180 } },
+        { competencia: '2026-01', usage: { 'he50-semestre': 150 } },
+      ],
+    });
+    const hoursByCode = bucketHoursByCode(result);
+
+    expect(hoursByCode['1058']).toBeCloseTo(0.5, 2);
+    expect(hoursByCode['2038']).toBeCloseTo(2.5, 2);
+    expect(result.limitUsage['he50-semestre']).toBeCloseTo(30, 4);
+  });
+
+  it('deve reapurar o historico em ordem para carregar o saldo ate a competencia atual', () => {
+    const settings = buildSemesterSettings();
+    const history = [
+      { competencia: '2026-02', entries: [buildDayEntry('2026-02-09', '15:00')] },
+      { competencia: '2026-01', entries: [buildDayEntry('2026-01-12', '15:00')] },
+      { competencia: '2025-11', entries: [buildDayEntry('2025-11-10', '15:00')] },
+    ];
+    const priorLimitUsage = buildPriorOvertimeLimitUsage(history, '2026-03', settings);
+
+    expect(priorLimitUsage.map((record) => record.competencia)).toEqual(['2026-01', '2026-02']);
+    expect(priorLimitUsage[0].usage['he50-semestre']).toBeCloseTo(120, 4);
+    expect(priorLimitUsage[1].usage['he50-semestre']).toBeCloseTo(60, 4);
+
+    const result = runOvertimeEngine([buildDayEntry('2026-03-09', '15:00')], settings, { competencia: '2026-03', priorLimitUsage });
+    const hoursByCode = bucketHoursByCode(result);
+    expect(hoursByCode['1058']).toBeUndefined();
+    expect(hoursByCode['2038']).toBeCloseTo(2.0, 2);
+  });
+
+  it('deve semear o primeiro mes da janela movel com o uso dos meses anteriores a ela', () => {
+    const settings = buildSemesterSettings('rolling', 3);
+    const history = [
+      { competencia: '2025-12', entries: [buildDayEntry('2025-12-08', '16:00')] },
+      { competencia: '2026-01', entries: [buildDayEntry('2026-01-12', '15:00')] },
+    ];
+    const priorLimitUsage = buildPriorOvertimeLimitUsage(history, '2026-03', settings);
+
+    // Dezembro ja esgotou as 3h da janela de janeiro: as 2h de janeiro nao consomem o limite.
+    expect(priorLimitUsage.map((record) => record.competencia)).toEqual(['2026-01']);
+    expect(priorLimitUsage[0].usage['he50-semestre'] || 0).toBeCloseTo(0, 4);
+
+    const result = runOvertimeEngine([buildDayEntry('2026-03-09', '15:00')], settings, { competencia: '2026-03', priorLimitUsage });
+    expect(bucketHoursByCode(result)['1058']).toBeCloseTo(2.0, 2);
+  });
+
+  it('deve ignorar o uso anterior quando a competencia nao for informada', () => {
+    const result = runOvertimeEngine([buildDayEntry('2026-03-09', '16:00')], buildSemesterSettings('rolling', 3), {
+      priorLimitUsage: [{ competencia: '2026-02', usage: { 'he50-semestre': 180 } }],
+    });
+
+    expect(bucketHoursByCode(result)['1058']).toBeCloseTo(3.0, 2);
+  });
+});
+
+describe('runOvertimeEngine - autorizacao previa de HE', () => {
+  function buildAuthorizationSettings(): Settings {
+    const settings = buildMarchSettings();
+    settings.companySettings!.config!.overtimeAuthorizationPolicy = 'authorizedOnly';
+    return settings;
+  }
+
+  const authorizationEntries: TimeEntry[] = [
+    { id: '2026-03-09', date: '2026-03-09', workDate: '2026-03-09', day: '09', entry1: '13:00', exit1: '15:00', entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true, overtimeAuthorized: true },
+    { id: '2026-03-10', date: '2026-03-10', workDate: '2026-03-10', day: '10', entry1: '13:00', exit1: '16:30', entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true },
+  ];
+
+  it('deve pagar so os dias autorizados e mandar o restante para o banco, separado por semana', () => {
+    const result = runOvertimeEngine(authorizationEntries, buildAuthorizationSettings(), { trace: true });
+
+    expect(bucketHoursByCode(result)['1058']).toBeCloseTo(2.0, 2);
+    expect(result.grandTotalBancoHoras).toBe(210);
+    expect(result.grandTotalUnauthorizedBancoHoras).toBe(210);
+    expect(result.weeklySummaries).toHaveLength(1);
+    expect(result.weeklySummaries[0].unauthorizedBancoHoras).toBe(210);
+    expect(result.trace?.map((day) => [day.date, day.destination, day.unauthorized])).toEqual([
+      ['2026-03-09', 'paid', false],
+      ['2026-03-10', 'bank', true],
+    ]);
+  });
+
+  it('deve creditar no razao do banco a mesma HE nao autorizada que o motor tira da folha', () => {
+    const settings = buildAuthorizationSettings();
+    const result = runOvertimeEngine(authorizationEntries, settings);
+    const movements = buildHourBankMovements(authorizationEntries, settings);
+
+    expect(movements).toEqual([
+      { date: '2026-03-10', minutes: 210, kind: 'credito', description: 'HE sem autorizacao lancada no banco de horas' },
+    ]);
+    expect(movements[0].minutes).toBe(result.grandTotalWeightedBancoHoras);
+    expect(buildHourBankMovements(authorizationEntries, buildMarchSettings())).toEqual([]);
+  });
+
+  it('deve pagar toda a HE quando a empresa nao exigir autorizacao', () => {
+    const result = runOvertimeEngine(authorizationEntries, buildMarchSettings());
+
+    expect(result.grandTotalBancoHoras).toBe(0);
+    expect(result.grandTotalUnauthorizedBancoHoras).toBe(0);
+    expect(result.weeklySummaries[0].unauthorizedBancoHoras).toBe(0);
+  });
+});
+
+describe('runOvertimeEngine - conversao no banco de horas', () => {
+  function buildBankConversionSettings(): Settings {
+    const settings = buildMarchSettings();
+    settings.companySettings!.config!.overtimeRules = settings.companySettings!.config!.overtimeRules!.map((rule) => {
+      if (rule.id === 'he50-day') return { ...rule, bankMultiplier: 1.5 };
+      if (rule.id === 'sunday-day') return { ...rule, bankMultiplier: 2 };
+      return rule;
+    });
+    return settings;
+  }
+
+  const bankEntries: TimeEntry[] = [
+    { id: '2026-03-10', date: '2026-03-10', workDate: '2026-03-10', day: '10', entry1: '13:00', exit1: '15:00', entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true, annotationText: 'BCO' },
+    { id: '2026-03-15', date: '2026-03-15', workDate: '2026-03-15', day: '15', entry1: '10:00', exit1: '12:00', entry2: '', exit2: '', entryExtra: '', exitExtra: '', totalHours: '', isOvertimeCard: true, annotationText: 'BCO' },
+  ];
+
+  it('deve creditar 1h30 por hora no dia util e 2h no domingo, mantendo o bruto', () => {
+    const result = runOvertimeEngine(bankEntries, buildBankConversionSettings(), { trace: true });
+
+    expect(result.grandTotalBancoHoras).toBe(240);
+    expect(result.grandTotalWeightedBancoHoras).toBe(420);
+    expect(result.weeklySummaries[0].weightedBancoHoras).toBe(420);
+    expect(result.trace?.map((day) => [day.date, day.bankMinutes, day.bankWeightedMinutes])).toEqual([
+      ['2026-03-10', 120, 180],
+      ['2026-03-15', 120, 240],
+    ]);
+    expect(analyzeDailyOvertimePreview(bankEntries[1], buildBankConversionSettings()).bankWeightedMinutes).toBe(240);
+  });
+
+  it('deve manter o credito 1:1 quando as regras nao tiverem fator de conversao', () => {
+    const result = runOvertimeEngine(bankEntries, buildMarchSettings());
+
+    expect(result.grandTotalBancoHoras).toBe(240);
+    expect(result.grandTotalWeightedBancoHoras).toBe(240);
+  });
+});
+
+describe('createOvertimeEngineSession - recalculo incremental', () => {
+  it('deve reapurar so a semana editada quando nao houver limite mensal', () => {
+    const settings = buildMarchSettings();
+    const session = createOvertimeEngineSession(marchEntries, settings, { trace: true });
+    expect(session.result).toEqual(runOvertimeEngine(marchEntries, settings, { trace: true }));
+
+    const edited = { ...marchEntries[5], exit1: '23:59' };
+    const result = session.apply({ upserts: [edited] });
+    const patchedEntries = marchEntries.map((entry) => (entry.id === edited.id ? edited : entry));
+
+    expect(session.lastRecomputedWeeks).toBe(1);
+    expect(result).toEqual(runOvertimeEngine(patchedEntries, settings, { trace: true }));
+  });
+
+  it('deve propagar a edicao para as semanas seguintes quando a regra tiver limite mensal', () => {
+    const settings = buildMarchSettings();
+    const rules = settings.companySettings?.config?.overtimeRules || [];
+    settings.companySettings!.config!.overtimeRules = rules.map((rule) => (
+      rule.id === 'he100-day' ? { ...rule, monthlyLimitMinutes: 600 } : rule
+    ));
+    const session = createOvertimeEngineSession(marchEntries, settings);
+
+    const result = session.apply({ upserts: [{ ...marchEntries[0], entry1: '20:00' }], removedIds: [marchEntries[14].id] });
+    const patchedEntries = marchEntries
+      .filter((entry) => entry.id !== marchEntries[14].id)
+      .map((entry) => (entry.id === marchEntries[0].id ? { ...entry, entry1: '20:00' } : entry));
+
+    expect(session.lastRecomputedWeeks).toBeGreaterThan(1);
+    expect(result).toEqual(runOvertimeEngine(patchedEntries, settings));
+  });
+});